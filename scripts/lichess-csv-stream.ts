@@ -0,0 +1,370 @@
+/**
+ * Lichess Puzzle CSV Streaming
+ * Reads the full Lichess puzzle database line by line, with filtering and stratified sampling
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+
+// CSV format: PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+interface LichessCsvRecord {
+  puzzleId: string;
+  fen: string;
+  moves: string[];
+  rating: number;
+  ratingDeviation: number;
+  popularity: number;
+  nbPlays: number;
+  themes: string[];
+  gameUrl: string;
+  openingTags: string[];
+}
+
+interface LichessCsvFilter {
+  themes?: string[]; // keep puzzles with at least one of these themes
+  minRating?: number;
+  maxRating?: number;
+  minPopularity?: number; // Lichess popularity, -100 to 100
+  minPlays?: number;
+}
+
+/**
+ * Turns a compressed byte stream into the plain CSV stream
+ */
+type Decompressor = (input: Readable) => Readable;
+
+interface ImportProgress {
+  linesRead: number;
+  matched: number;
+  bytesRead: number;
+  totalBytes: number | null; // unknown for non-file sources
+}
+
+interface CsvStreamOptions {
+  filter?: LichessCsvFilter;
+  decompressors?: Record<string, Decompressor>; // by file extension, e.g. '.zst'
+  onProgress?: (progress: ImportProgress) => void;
+  progressInterval?: number; // lines between progress reports
+}
+
+interface StratifiedSampleOptions {
+  perStratum: number; // puzzles kept per theme and rating bucket
+  ratingBucketSize?: number;
+  themes?: string[]; // strata themes, defaults to every theme seen
+  random?: () => number;
+}
+
+interface StratifiedSample {
+  records: LichessCsvRecord[];
+  byTheme: Record<string, LichessCsvRecord[]>; // theme -> puzzles kept in its own strata
+  strata: Record<string, number>; // "theme:bucket" -> puzzles kept
+  linesRead: number;
+  matched: number;
+}
+
+const DEFAULT_PROGRESS_INTERVAL = 100000;
+const DEFAULT_RATING_BUCKET_SIZE = 200;
+
+/**
+ * Decompress .zst input with the zstd command line tool
+ */
+const zstdCliDecompressor: Decompressor = (input) => {
+  const child = spawn('zstd', ['-d', '-c'], { stdio: ['pipe', 'pipe', 'inherit'] });
+
+  child.on('error', (error) => {
+    child.stdout.destroy(new Error(`zstd is required to read .zst files (${error.message}). Install it or decompress first: zstd -d puzzle-database.csv.zst`));
+  });
+  child.stdin.on('error', () => {
+    // zstd exited early (e.g. the reader stopped) - nothing left to write
+  });
+  child.stdout.on('close', () => child.kill());
+
+  input.pipe(child.stdin);
+  return child.stdout;
+};
+
+const defaultDecompressors: Record<string, Decompressor> = {
+  '.zst': zstdCliDecompressor
+};
+
+/**
+ * Parse CSV line handling quoted fields
+ */
+function parseCsvLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      result.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  result.push(current);
+  return result;
+}
+
+/**
+ * Parse one data line of the puzzle CSV, or null for malformed lines
+ */
+function parseLichessCsvRecord(line: string): LichessCsvRecord | null {
+  const columns = parseCsvLine(line.trim());
+  if (columns.length < 8) return null;
+
+  const [puzzleId = '', fen = '', moves = '', rating = '', ratingDeviation = '', popularity = '', nbPlays = '', themes = '', gameUrl = '', openingTags = ''] = columns;
+  const parsedRating = parseInt(rating, 10);
+  if (!puzzleId || !fen || Number.isNaN(parsedRating)) return null;
+
+  return {
+    puzzleId,
+    fen,
+    moves: moves.split(' ').filter(Boolean),
+    rating: parsedRating,
+    ratingDeviation: parseInt(ratingDeviation, 10) || 0,
+    popularity: parseInt(popularity, 10) || 0,
+    nbPlays: parseInt(nbPlays, 10) || 0,
+    themes: themes.split(' ').filter(Boolean),
+    gameUrl,
+    openingTags: openingTags.split(' ').filter(Boolean)
+  };
+}
+
+function matchesFilter(record: LichessCsvRecord, filter: LichessCsvFilter = {}): boolean {
+  if (filter.themes && filter.themes.length > 0) {
+    const wanted = filter.themes.map(theme => theme.toLowerCase());
+    if (!record.themes.some(theme => wanted.includes(theme.toLowerCase()))) return false;
+  }
+
+  if (filter.minRating !== undefined && record.rating < filter.minRating) return false;
+  if (filter.maxRating !== undefined && record.rating > filter.maxRating) return false;
+  if (filter.minPopularity !== undefined && record.popularity < filter.minPopularity) return false;
+  if (filter.minPlays !== undefined && record.nbPlays < filter.minPlays) return false;
+
+  return true;
+}
+
+/**
+ * Open a CSV source, decompressing by file extension, and count the raw bytes read
+ */
+function openPuzzleCsv(
+  source: string | Readable,
+  decompressors: Record<string, Decompressor>,
+  onBytes: (bytes: number) => void
+): { stream: Readable; totalBytes: number | null } {
+  if (typeof source !== 'string') {
+    return { stream: source, totalBytes: null };
+  }
+
+  const raw = fs.createReadStream(source);
+  raw.on('data', (chunk) => onBytes(chunk.length));
+
+  const decompress = decompressors[path.extname(source).toLowerCase()];
+  const stream = decompress ? decompress(raw) : raw;
+  if (stream !== raw) {
+    stream.on('close', () => raw.destroy());
+  }
+
+  return { stream, totalBytes: fs.statSync(source).size };
+}
+
+/**
+ * Stream matching puzzles from the CSV without loading the file into memory.
+ * Stopping the iteration early closes the underlying file.
+ */
+async function* readLichessCsv(source: string | Readable, options: CsvStreamOptions = {}): AsyncGenerator<LichessCsvRecord> {
+  const progress: ImportProgress = { linesRead: 0, matched: 0, bytesRead: 0, totalBytes: null };
+  const interval = options.progressInterval || DEFAULT_PROGRESS_INTERVAL;
+
+  const { stream, totalBytes } = openPuzzleCsv(
+    source,
+    { ...defaultDecompressors, ...options.decompressors },
+    (bytes) => { progress.bytesRead += bytes; }
+  );
+  progress.totalBytes = totalBytes;
+
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      progress.linesRead++;
+      if (progress.linesRead % interval === 0) {
+        options.onProgress?.({ ...progress });
+      }
+
+      // Skip the header line
+      if (progress.linesRead === 1 && line.startsWith('PuzzleId')) continue;
+
+      const record = parseLichessCsvRecord(line);
+      if (!record || !matchesFilter(record, options.filter)) continue;
+
+      progress.matched++;
+      yield record;
+    }
+
+    options.onProgress?.({ ...progress });
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+/**
+ * Theme part of a "theme:bucket" stratum key
+ */
+function stratumTheme(key: string): string {
+  return key.slice(0, key.lastIndexOf(':'));
+}
+
+/**
+ * Reservoir sample per theme and rating bucket, so every matching puzzle
+ * has the same chance of being picked regardless of where it sits in the file
+ */
+class StratifiedSampler {
+  private reservoirs = new Map<string, { seen: number; records: LichessCsvRecord[] }>();
+  private readonly bucketSize: number;
+  private readonly random: () => number;
+
+  constructor(private options: StratifiedSampleOptions) {
+    this.bucketSize = options.ratingBucketSize || DEFAULT_RATING_BUCKET_SIZE;
+    this.random = options.random || Math.random;
+  }
+
+  ratingBucket(rating: number): number {
+    return Math.floor(rating / this.bucketSize) * this.bucketSize;
+  }
+
+  /**
+   * Offer a puzzle to every stratum it belongs to
+   */
+  offer(record: LichessCsvRecord): void {
+    const wanted = this.options.themes?.map(theme => theme.toLowerCase());
+    const themes = wanted
+      ? record.themes.filter(theme => wanted.includes(theme.toLowerCase()))
+      : record.themes;
+
+    for (const theme of themes) {
+      const key = `${theme}:${this.ratingBucket(record.rating)}`;
+      const reservoir = this.reservoirs.get(key) || { seen: 0, records: [] };
+      reservoir.seen++;
+
+      if (reservoir.records.length < this.options.perStratum) {
+        reservoir.records.push(record);
+      } else {
+        const index = Math.floor(this.random() * reservoir.seen);
+        if (index < this.options.perStratum) {
+          reservoir.records[index] = record;
+        }
+      }
+
+      this.reservoirs.set(key, reservoir);
+    }
+  }
+
+  /**
+   * Sampled puzzles, each listed once even if it was kept in several strata.
+   * With a theme, only that theme's strata are read. Strata are taken in
+   * turn, so cutting the list short trims every rating bucket alike
+   */
+  records(theme?: string): LichessCsvRecord[] {
+    const wanted = theme?.toLowerCase();
+    const strata = Array.from(this.reservoirs.entries())
+      .filter(([key]) => wanted === undefined || stratumTheme(key).toLowerCase() === wanted)
+      .map(([, reservoir]) => reservoir.records);
+    const longest = Math.max(0, ...strata.map(records => records.length));
+
+    const unique = new Map<string, LichessCsvRecord>();
+    for (let index = 0; index < longest; index++) {
+      for (const records of strata) {
+        const record = records[index];
+        if (record && !unique.has(record.puzzleId)) {
+          unique.set(record.puzzleId, record);
+        }
+      }
+    }
+    return Array.from(unique.values());
+  }
+
+  /**
+   * Themes that have at least one stratum
+   */
+  themes(): string[] {
+    return Array.from(new Set(Array.from(this.reservoirs.keys()).map(stratumTheme)));
+  }
+
+  strata(): Record<string, number> {
+    return Object.fromEntries(
+      Array.from(this.reservoirs.entries()).map(([key, reservoir]) => [key, reservoir.records.length])
+    );
+  }
+}
+
+/**
+ * Single pass over the CSV drawing a stratified sample of the matching puzzles
+ */
+async function sampleLichessCsv(
+  source: string | Readable,
+  sample: StratifiedSampleOptions,
+  options: CsvStreamOptions = {}
+): Promise<StratifiedSample> {
+  const sampler = new StratifiedSampler({ themes: options.filter?.themes, ...sample });
+  let linesRead = 0;
+  let matched = 0;
+
+  for await (const record of readLichessCsv(source, {
+    ...options,
+    onProgress: (progress) => {
+      linesRead = progress.linesRead;
+      options.onProgress?.(progress);
+    }
+  })) {
+    matched++;
+    sampler.offer(record);
+  }
+
+  return {
+    records: sampler.records(),
+    byTheme: Object.fromEntries(sampler.themes().map(theme => [theme, sampler.records(theme)])),
+    strata: sampler.strata(),
+    linesRead,
+    matched
+  };
+}
+
+/**
+ * Print progress on a single console line
+ */
+function logImportProgress(progress: ImportProgress): void {
+  const percent = progress.totalBytes
+    ? ` (${((progress.bytesRead / progress.totalBytes) * 100).toFixed(1)}%)`
+    : '';
+  process.stdout.write(`\r📊 Read ${progress.linesRead.toLocaleString()} lines, ${progress.matched.toLocaleString()} matching${percent}`);
+}
+
+export {
+  parseCsvLine,
+  parseLichessCsvRecord,
+  matchesFilter,
+  readLichessCsv,
+  sampleLichessCsv,
+  logImportProgress,
+  zstdCliDecompressor,
+  StratifiedSampler,
+  type LichessCsvRecord,
+  type LichessCsvFilter,
+  type Decompressor,
+  type ImportProgress,
+  type CsvStreamOptions,
+  type StratifiedSampleOptions,
+  type StratifiedSample
+};
@@ -7,6 +7,17 @@ import https from 'https';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import {
+  parseLichessCsvRecord,
+  matchesFilter,
+  sampleLichessCsv,
+  logImportProgress,
+  type LichessCsvRecord,
+  type Decompressor,
+  type ImportProgress
+} from './lichess-csv-stream';
+import { deriveFromCsv, deriveFromPgn, type DerivedPuzzlePosition } from '../src/js/importers/lichess-position';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,11 +28,13 @@ interface LichessPuzzle {
     solution: string[];
     themes: string[];
     rating: number;
+    initialPly?: number; // API format: ply of the opponent's setup move in game.pgn
   };
   game: {
     pgn: string;
     clock?: string;
   };
+  fen?: string; // CSV format: position before the setup move, which opens `solution`
 }
 
 interface ChessHawkPuzzle {
@@ -31,6 +44,7 @@ interface ChessHawkPuzzle {
   description: string;
   fen: string;
   solution: string[];
+  firstMove: 'player' | 'opponent';
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   rating: number;
   points: number;
@@ -62,6 +76,28 @@ interface ValidationStats {
   }>;
 }
 
+interface ImportOptions {
+  input?: string; // CSV or .csv.zst path, defaults to puzzle-database.csv(.zst) in the working directory
+  puzzlesPerTheme: number;
+  minRating: number;
+  maxRating: number;
+  minPopularity?: number;
+  minPlays?: number;
+  ratingBucketSize: number;
+  decompressors?: Record<string, Decompressor>;
+  onProgress?: (progress: ImportProgress) => void;
+  random?: () => number;
+}
+
+const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  puzzlesPerTheme: 100,
+  minRating: 1000,
+  maxRating: 2500,
+  minPopularity: 80,
+  minPlays: 100,
+  ratingBucketSize: 200
+};
+
 type ThemeKey = 'fork' | 'pin' | 'skewer' | 'mateIn1' | 'mateIn2' | 'mate' | 'sacrifice' | 'deflection' | 'decoy' | 'discoveredAttack';
 
 class QualityLichessImporter {
@@ -89,6 +125,12 @@ class QualityLichessImporter {
     errors: []
   };
 
+  private readonly options: ImportOptions;
+
+  constructor(options: Partial<ImportOptions> = {}) {
+    this.options = { ...DEFAULT_IMPORT_OPTIONS, ...options };
+  }
+
   /**
    * Download and process Lichess puzzle database
    */
@@ -126,7 +168,7 @@ class QualityLichessImporter {
         file.on('finish', () => {
           console.log('\n✅ Database downloaded successfully');
           console.log(`📁 Location: ${dbPath}`);
-          console.log('🔧 To decompress: zstd -d puzzle-database.csv.zst');
+          console.log('🔧 The importer reads the .zst file directly (requires the zstd tool)');
           resolve(dbPath);
         });
       });
@@ -150,49 +192,18 @@ class QualityLichessImporter {
     
     // Skip header line
     for (let i = 1; i < lines.length && puzzles.length < limit; i++) {
-      const line = lines[i].trim();
+      const line = lines[i]?.trim();
       if (!line) continue;
       
       processed++;
-      if (processed % 10000 === 0) {
-        console.log(`📊 Processed ${processed} lines, found ${puzzles.length} matching puzzles...`);
-      }
       
-      try {
-        // CSV format: PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
-        const columns = this.parseCSVLine(line);
-        if (columns.length < 8) continue;
-        
-        const [puzzleId, fen, moves, rating, ratingDeviation, popularity, nbPlays, themes] = columns;
-        
-        // Filter by theme if specified
-        if (theme && !themes.toLowerCase().includes(theme.toLowerCase())) {
-          continue;
-        }
-        
-        // Convert CSV format to our expected format
-        const puzzle: LichessPuzzle = {
-          puzzle: {
-            id: puzzleId,
-            solution: moves.split(' '),
-            themes: themes.split(' '),
-            rating: parseInt(rating, 10)
-          },
-          game: {
-            pgn: '', // Will be generated from FEN
-            id: puzzleId
-          }
-        };
-        
-        // Add FEN to puzzle object for easier access
-        (puzzle as any).fen = fen;
-        
-        puzzles.push(puzzle);
-        
-      } catch (error) {
-        // Skip malformed lines silently
+      // Skip malformed lines silently
+      const record = parseLichessCsvRecord(line);
+      if (!record || !matchesFilter(record, { themes: theme ? [theme] : undefined })) {
         continue;
       }
+      
+      puzzles.push(this.toLichessPuzzle(record));
     }
     
     console.log(`✅ Parsed ${puzzles.length} puzzles from ${processed} lines`);
@@ -200,69 +211,97 @@ class QualityLichessImporter {
   }
   
   /**
-   * Parse CSV line handling quoted fields
+   * Convert a CSV record to the puzzle shape used by the converter
    */
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    result.push(current);
-    return result;
+  private toLichessPuzzle(record: LichessCsvRecord): LichessPuzzle {
+    return {
+      puzzle: {
+        id: record.puzzleId,
+        solution: record.moves,
+        themes: record.themes,
+        rating: record.rating
+      },
+      game: {
+        pgn: ''
+      },
+      fen: record.fen
+    };
   }
 
   /**
-   * Fetch puzzles from downloaded database or fallback
+   * Locate the local puzzle database, compressed or not
+   */
+  private findDatabase(): string | null {
+    const candidates = this.options.input
+      ? [this.options.input]
+      : [
+          path.join(process.cwd(), 'puzzle-database.csv'),
+          path.join(process.cwd(), 'puzzle-database.csv.zst')
+        ];
+    
+    return candidates.find(candidate => fs.existsSync(candidate)) || null;
+  }
+
+  /**
+   * Fetch puzzles from the downloaded database, sampled evenly across rating buckets
    */
   async fetchPuzzles(
     count = 100, 
     theme: string | null = null, 
-    minRating = 1000, 
-    maxRating = 2500
+    minRating = this.options.minRating, 
+    maxRating = this.options.maxRating
   ): Promise<LichessPuzzle[]> {
     console.log(`📡 Fetching ${count} puzzles with theme: ${theme || 'any'}...`);
     
-    // Check if decompressed CSV exists
-    const csvPath = path.join(process.cwd(), 'puzzle-database.csv');
+    const dbPath = this.requireDatabase();
+    const buckets = Math.max(1, Math.ceil((maxRating - minRating + 1) / this.options.ratingBucketSize));
+    
+    const sample = await sampleLichessCsv(
+      dbPath,
+      {
+        perStratum: Math.ceil(count / buckets),
+        ratingBucketSize: this.options.ratingBucketSize,
+        random: this.options.random
+      },
+      {
+        filter: this.buildFilter(theme ? [theme] : undefined, minRating, maxRating),
+        decompressors: this.options.decompressors,
+        onProgress: this.options.onProgress || logImportProgress
+      }
+    );
     
-    if (fs.existsSync(csvPath)) {
-      console.log('📂 Using local puzzle database...');
-      const csvData = fs.readFileSync(csvPath, 'utf-8');
-      return this.parsePuzzlesFromCSV(csvData, theme || undefined, count);
-    }
+    console.log(`\n✅ Sampled ${sample.records.length} of ${sample.matched} matching puzzles from ${sample.linesRead} lines`);
+    return sample.records.slice(0, count).map(record => this.toLichessPuzzle(record));
+  }
+
+  private requireDatabase(): string {
+    const dbPath = this.findDatabase();
     
-    // Check if compressed file exists
-    const zstPath = path.join(process.cwd(), 'puzzle-database.csv.zst');
-    if (fs.existsSync(zstPath)) {
-      console.log('🔧 Found compressed database. Please decompress first:');
-      console.log('   zstd -d puzzle-database.csv.zst');
-      throw new Error('Database is compressed. Please decompress with: zstd -d puzzle-database.csv.zst');
+    if (dbPath) {
+      console.log(`📂 Using local puzzle database: ${dbPath}`);
+      return dbPath;
     }
     
     // No local database found - show instructions
     console.log('❌ No local puzzle database found.');
     console.log('💡 To download and use the complete Lichess puzzle database:');
-    console.log('   1. Install zstd: sudo apt install zstd (Ubuntu) or brew install zstd (macOS)');
-    console.log('   2. Run download: node scripts/quality-lichess-import.ts --download');
-    console.log('   3. Decompress: zstd -d puzzle-database.csv.zst');
-    console.log('   4. Run import again');
+    console.log('   1. Run download: npm run import:download');
+    console.log('   2. Install zstd to read the .zst file directly: sudo apt install zstd (Ubuntu) or brew install zstd (macOS)');
+    console.log('   3. Run import again');
     
     throw new Error('No puzzle database available. Use --download to get the database first.');
   }
 
+  private buildFilter(themes: string[] | undefined, minRating: number, maxRating: number) {
+    return {
+      themes,
+      minRating,
+      maxRating,
+      minPopularity: this.options.minPopularity,
+      minPlays: this.options.minPlays
+    };
+  }
+
   /**
    * Validate a single puzzle
    */
@@ -271,7 +310,7 @@ class QualityLichessImporter {
     
     // Check required fields
     if (!puzzle.puzzle?.id) errors.push('Missing puzzle ID');
-    if (!puzzle.game?.pgn) errors.push('Missing game PGN');
+    if (!puzzle.game?.pgn && !puzzle.fen) errors.push('Missing game PGN');
     if (!puzzle.puzzle?.solution) errors.push('Missing solution');
     if (!puzzle.puzzle?.themes) errors.push('Missing themes');
     if (!puzzle.puzzle?.rating) errors.push('Missing rating');
@@ -303,8 +342,8 @@ class QualityLichessImporter {
   private convertPuzzle(lichessPuzzle: LichessPuzzle, theme: string): ChessHawkPuzzle {
     const puzzle = lichessPuzzle.puzzle;
     
-    // Use FEN from CSV data if available, otherwise use default
-    const fen = (lichessPuzzle as any).fen || 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+    // Throws on illegal moves, so broken puzzles never reach the database
+    const position = this.derivePosition(lichessPuzzle);
     
     // Map difficulty from rating
     const difficulty: ChessHawkPuzzle['difficulty'] = 
@@ -320,8 +359,10 @@ class QualityLichessImporter {
       theme: primaryTheme,
       title: `${norwegianTheme} ${puzzle.rating}`,
       description: this.getThemeDescription(primaryTheme),
-      fen: fen,
-      solution: puzzle.solution,
+      fen: position.fen,
+      solution: position.solution,
+      // The opponent's setup move is already played in `fen`
+      firstMove: 'player',
       difficulty: difficulty,
       rating: puzzle.rating,
       points: this.calculatePoints(puzzle.rating, difficulty),
@@ -334,12 +375,15 @@ class QualityLichessImporter {
   }
 
   /**
-   * Extract FEN from PGN (simplified implementation)
+   * Puzzle position and SAN solution, from the CSV FEN and setup move or by replaying the game PGN
    */
-  private extractFenFromPgn(pgn: string, solutionLength: number): string {
-    // This is a simplified version - real implementation would use a chess library
-    // For now, return starting position (would need proper PGN parsing)
-    return 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+  private derivePosition(lichessPuzzle: LichessPuzzle): DerivedPuzzlePosition {
+    const { solution, initialPly } = lichessPuzzle.puzzle;
+    
+    if (lichessPuzzle.fen) {
+      return deriveFromCsv(lichessPuzzle.fen, solution);
+    }
+    return deriveFromPgn(lichessPuzzle.game.pgn, solution, initialPly);
   }
 
   /**
@@ -402,75 +446,98 @@ class QualityLichessImporter {
     
     try {
       const lichessPuzzles = await this.fetchPuzzles(count, theme);
-      const convertedPuzzles: ChessHawkPuzzle[] = [];
-      const seenIds = new Set<string>();
+      return this.convertPuzzles(lichessPuzzles, theme, new Set<string>());
+    } catch (error) {
+      console.error(`❌ Failed to import ${theme} puzzles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+  }
+
+  /**
+   * Validate, de-duplicate and convert puzzles, recording the outcome in the import stats
+   */
+  private convertPuzzles(lichessPuzzles: LichessPuzzle[], theme: string, seenIds: Set<string>): ChessHawkPuzzle[] {
+    const convertedPuzzles: ChessHawkPuzzle[] = [];
+    
+    for (const lichessPuzzle of lichessPuzzles) {
+      this.validationStats.total++;
       
-      for (const lichessPuzzle of lichessPuzzles) {
-        this.validationStats.total++;
-        
-        // Validate puzzle
-        const errors = this.validatePuzzle(lichessPuzzle);
-        if (errors.length > 0) {
-          this.validationStats.invalid++;
-          this.validationStats.errors.push({
-            id: lichessPuzzle.puzzle?.id || 'unknown',
-            errors
-          });
-          continue;
-        }
-        
-        // Check for duplicates
-        const puzzleId = lichessPuzzle.puzzle.id;
-        if (seenIds.has(puzzleId)) {
-          this.validationStats.duplicates++;
-          continue;
-        }
-        seenIds.add(puzzleId);
-        
-        // Convert puzzle
-        try {
-          const converted = this.convertPuzzle(lichessPuzzle, theme);
-          convertedPuzzles.push(converted);
-          this.validationStats.valid++;
-        } catch (error) {
-          this.validationStats.invalid++;
-          this.validationStats.errors.push({
-            id: puzzleId,
-            errors: [`Conversion error: ${error instanceof Error ? error.message : 'Unknown error'}`]
-          });
-        }
+      // Validate puzzle
+      const errors = this.validatePuzzle(lichessPuzzle);
+      if (errors.length > 0) {
+        this.validationStats.invalid++;
+        this.validationStats.errors.push({
+          id: lichessPuzzle.puzzle?.id || 'unknown',
+          errors
+        });
+        continue;
       }
       
-      console.log(`✅ Successfully converted ${convertedPuzzles.length}/${lichessPuzzles.length} puzzles`);
-      return convertedPuzzles;
+      // Check for duplicates
+      const puzzleId = lichessPuzzle.puzzle.id;
+      if (seenIds.has(puzzleId)) {
+        this.validationStats.duplicates++;
+        continue;
+      }
+      seenIds.add(puzzleId);
       
-    } catch (error) {
-      console.error(`❌ Failed to import ${theme} puzzles: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return [];
+      // Convert puzzle
+      try {
+        const converted = this.convertPuzzle(lichessPuzzle, theme);
+        convertedPuzzles.push(converted);
+        this.validationStats.valid++;
+      } catch (error) {
+        this.validationStats.invalid++;
+        this.validationStats.errors.push({
+          id: puzzleId,
+          errors: [`Conversion error: ${error instanceof Error ? error.message : 'Unknown error'}`]
+        });
+      }
     }
+    
+    console.log(`✅ Successfully converted ${convertedPuzzles.length}/${lichessPuzzles.length} puzzles`);
+    return convertedPuzzles;
   }
 
   /**
-   * Import all themes with balanced distribution
+   * Import all themes in a single pass over the database, with a stratified
+   * sample per theme and rating bucket so no part of the file is favoured
    */
   async importAllThemes(): Promise<ChessHawkPuzzle[]> {
     console.log('🚀 Starting comprehensive Lichess import...');
     
     const themes = Object.keys(this.norwegianThemes);
-    const puzzlesPerTheme = 100;
+    const { puzzlesPerTheme, minRating, maxRating, ratingBucketSize } = this.options;
+    const buckets = Math.max(1, Math.ceil((maxRating - minRating + 1) / ratingBucketSize));
+    
+    const sample = await sampleLichessCsv(
+      this.requireDatabase(),
+      {
+        perStratum: Math.ceil(puzzlesPerTheme / buckets),
+        ratingBucketSize,
+        themes,
+        random: this.options.random
+      },
+      {
+        filter: this.buildFilter(themes, minRating, maxRating),
+        decompressors: this.options.decompressors,
+        onProgress: this.options.onProgress || logImportProgress
+      }
+    );
+    console.log(`\n✅ Sampled ${sample.records.length} of ${sample.matched} matching puzzles from ${sample.linesRead} lines`);
     
+    const seenIds = new Set<string>();
     for (const theme of themes) {
-      const themePuzzles = await this.importTheme(theme, puzzlesPerTheme);
-      this.importedPuzzles.push(...themePuzzles);
+      console.log(`\n🎯 Converting ${theme} puzzles...`);
+      const themeRecords = (sample.byTheme[theme] || []).slice(0, puzzlesPerTheme);
       
-      // Rate limiting - wait between requests
-      if (theme !== themes[themes.length - 1]) {
-        console.log('⏳ Waiting 2 seconds before next theme...');
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
+      const themePuzzles = this.convertPuzzles(themeRecords.map(record => this.toLichessPuzzle(record)), theme, seenIds);
+      this.importedPuzzles.push(...themePuzzles);
     }
     
     console.log(`\n📊 Import Summary:`);
+    console.log(`   Lines read: ${sample.linesRead}`);
+    console.log(`   Matching puzzles: ${sample.matched}`);
     console.log(`   Total puzzles processed: ${this.validationStats.total}`);
     console.log(`   Valid puzzles: ${this.validationStats.valid}`);
     console.log(`   Invalid puzzles: ${this.validationStats.invalid}`);
@@ -524,34 +591,51 @@ class QualityLichessImporter {
 
 // Main execution
 async function main(): Promise<void> {
-  const importer = new QualityLichessImporter();
-  const args = process.argv.slice(2);
+  const { values: args } = parseArgs({
+    options: {
+      download: { type: 'boolean' },
+      input: { type: 'string' },
+      'per-theme': { type: 'string' },
+      'min-rating': { type: 'string' },
+      'max-rating': { type: 'string' },
+      'min-popularity': { type: 'string' },
+      'min-plays': { type: 'string' },
+      'bucket-size': { type: 'string' }
+    }
+  });
+  const numberArg = (value: string | undefined, name: string) => {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number)) {
+      console.error(`❌ --${name} must be a number, got "${value}"`);
+      process.exit(1);
+    }
+    return number;
+  };
+  
+  const importer = new QualityLichessImporter(Object.fromEntries(Object.entries({
+    input: args.input,
+    puzzlesPerTheme: numberArg(args['per-theme'], 'per-theme'),
+    minRating: numberArg(args['min-rating'], 'min-rating'),
+    maxRating: numberArg(args['max-rating'], 'max-rating'),
+    minPopularity: numberArg(args['min-popularity'], 'min-popularity'),
+    minPlays: numberArg(args['min-plays'], 'min-plays'),
+    ratingBucketSize: numberArg(args['bucket-size'], 'bucket-size')
+  }).filter(([, value]) => value !== undefined)));
   
   try {
     // Handle download option
-    if (args.includes('--download')) {
+    if (args.download) {
       console.log('🚀 Starting Lichess puzzle database download...');
       const dbPath = await importer.downloadPuzzleDatabase();
       console.log(`\n✅ Download completed: ${dbPath}`);
       console.log('📝 Next steps:');
       console.log('   1. Install zstd if not available: sudo apt install zstd (Ubuntu) or brew install zstd (macOS)');
-      console.log('   2. Decompress: zstd -d puzzle-database.csv.zst');
-      console.log('   3. Run import: npm run import:lichess');
+      console.log('   2. Run import: npm run import:lichess');
       return;
     }
     
-    // Test puzzle fetching
-    console.log('🔍 Testing puzzle database access...');
-    const testPuzzles = await importer.fetchPuzzles(5);
-    
-    if (testPuzzles.length === 0) {
-      console.error('❌ No puzzles available.');
-      return;
-    }
-    
-    console.log(`✅ Database access successful. Found ${testPuzzles.length} test puzzles.`);
-    
-    // Proceed with full import
+    // Single streaming pass over the whole database
     const allPuzzles = await importer.importAllThemes();
     
     if (allPuzzles.length > 0) {
@@ -580,4 +664,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch(console.error);
 }
 
-export { QualityLichessImporter, type ChessHawkPuzzle, type PuzzleDatabase };
\ No newline at end of file
+export { QualityLichessImporter, type ChessHawkPuzzle, type PuzzleDatabase, type ImportOptions };
\ No newline at end of file
@@ -0,0 +1,75 @@
+/**
+ * Puzzle Validation Script
+ * Replays every puzzle with chess.js and reports the broken ones as JSON
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { validatePuzzleCollection, type PuzzleValidationReport } from '../src/utils/validation';
+import type { Puzzle } from '../src/stores/GameStore';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DEFAULT_DATA_PATH = join(__dirname, '..', 'src', 'data', 'problems.json');
+
+/**
+ * Accepts either `{ puzzles: [...] }` or a bare puzzle array
+ */
+function loadPuzzles(dataPath: string): Puzzle[] {
+  const data = JSON.parse(readFileSync(dataPath, 'utf8'));
+  const puzzles = Array.isArray(data) ? data : data.puzzles;
+
+  if (!Array.isArray(puzzles)) {
+    throw new Error(`No puzzles array found in ${dataPath}`);
+  }
+
+  return puzzles;
+}
+
+function printSummary(report: PuzzleValidationReport): void {
+  console.error(`🔍 Validated ${report.total} puzzles: ${report.valid} valid, ${report.broken.length} broken`);
+
+  Object.entries(report.issueCounts).forEach(([code, count]) => {
+    console.error(`   ${code}: ${count}`);
+  });
+}
+
+// Main execution
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' }
+    }
+  });
+
+  try {
+    const dataPath = positionals[0] ? resolve(positionals[0]) : DEFAULT_DATA_PATH;
+    const report = validatePuzzleCollection(loadPuzzles(dataPath));
+    const json = JSON.stringify(report, null, 2);
+
+    // The JSON report goes to stdout (or --output), the summary to stderr
+    if (values.output) {
+      writeFileSync(values.output, json);
+      console.error(`📊 Report saved to: ${values.output}`);
+    } else {
+      console.log(json);
+    }
+
+    printSummary(report);
+    process.exit(report.broken.length > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(`💥 Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(2);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
+
+export { loadPuzzles };
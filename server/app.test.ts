@@ -0,0 +1,264 @@
+/**
+ * API Server Tests
+ * Routes, auth and file storage, and ApiPuzzleService run against the server offline
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { request as httpRequest } from 'http';
+import type { AddressInfo } from 'net';
+import { createApiHandler, createApiServer, MAX_BODY_BYTES, type ApiHandler } from './app';
+import { JsonFileStorageAdapter } from './storage';
+import { ApiPuzzleService } from '../src/services/PuzzleService';
+import { MemoryStorageAdapter } from '../src/utils/storage';
+import { createRushRun } from '../src/utils/rush';
+import { startAttempt, finishAttempt } from '../src/utils/attempts';
+import type { Puzzle } from '../src/stores/GameStore';
+
+const BASE_URL = 'http://club.test';
+const API_KEY = 'club-secret';
+
+const mateInOne: Puzzle = {
+  id: 'server_mate_1',
+  theme: 'mateIn1',
+  title: 'Narrematt',
+  description: 'Sett matt i ett trekk',
+  fen: 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2',
+  solution: ['d8h4'],
+  difficulty: 'beginner',
+  rating: 800,
+  points: 5,
+  hint: 'Se på den svekkede diagonalen',
+  tags: ['mateIn1'],
+  source: 'Test',
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+const underPromotion: Puzzle = {
+  ...mateInOne,
+  id: 'server_fork_1',
+  theme: 'fork',
+  title: 'Springergaffel',
+  description: 'Forvandle til springer med sjakk',
+  fen: '8/4P1k1/3q4/8/8/8/8/4K3 w - - 0 1',
+  solution: ['e7e8n'],
+  difficulty: 'advanced',
+  rating: 1700,
+  points: 20,
+  tags: ['fork', 'promotion']
+};
+
+function request(handler: ApiHandler, method: string, url: string, body?: unknown) {
+  return handler({
+    method,
+    url,
+    headers: { authorization: `Bearer ${API_KEY}` },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+describe('API server routes', () => {
+  let handler: ApiHandler;
+
+  beforeEach(() => {
+    handler = createApiHandler({ puzzles: [mateInOne, underPromotion], storage: new MemoryStorageAdapter(), apiKey: API_KEY });
+  });
+
+  it('refuses requests without the bearer key but answers CORS preflights', async () => {
+    const missing = await handler({ method: 'GET', url: '/puzzles', headers: {} });
+    const wrong = await handler({ method: 'GET', url: '/puzzles', headers: { authorization: 'Bearer guess' } });
+    const preflight = await handler({ method: 'OPTIONS', url: '/puzzles', headers: {} });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers['WWW-Authenticate']).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers['Access-Control-Allow-Headers']).toContain('Authorization');
+  });
+
+  it('only serves without a key when open access is allowed', async () => {
+    expect(() => createApiHandler({ puzzles: [mateInOne], storage: new MemoryStorageAdapter() })).toThrow('API key is required');
+
+    const open = createApiHandler({ puzzles: [mateInOne], storage: new MemoryStorageAdapter(), allowOpenAccess: true });
+    expect((await open({ method: 'GET', url: '/puzzles', headers: {} })).status).toBe(200);
+  });
+
+  it('filters and pages puzzles', async () => {
+    const response = await request(handler, 'GET', '/puzzles?minRating=1000&tags=promotion');
+    const paged = await request(handler, 'GET', '/puzzles?limit=1&offset=1');
+
+    expect(JSON.parse(response.body!)).toMatchObject({ total: 1, puzzles: [{ id: underPromotion.id }] });
+    expect(JSON.parse(paged.body!)).toMatchObject({ total: 2, puzzles: [{ id: underPromotion.id }] });
+  });
+
+  it('answers unknown resources, wrong methods and bad input with JSON errors', async () => {
+    expect((await request(handler, 'GET', '/puzzles/nope')).status).toBe(404);
+    expect((await request(handler, 'GET', '/users/nobody/progress')).status).toBe(404);
+    expect((await request(handler, 'GET', '/nothing')).status).toBe(404);
+    expect((await request(handler, 'GET', '/puzzles?difficulty=grandmaster')).status).toBe(400);
+
+    const wrongMethod = await request(handler, 'POST', '/puzzles', {});
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.Allow).toBe('GET');
+
+    const badBody = await handler({ method: 'POST', url: '/users/ola/solutions', headers: { authorization: `Bearer ${API_KEY}` }, body: '{' });
+    expect(badBody.status).toBe(400);
+    expect(JSON.parse(badBody.body!).error).toBe('Request body is not valid JSON');
+
+    const unknownPuzzle = await request(handler, 'POST', '/users/ola/solutions', { puzzleId: 'nope', solution: [], timeSpent: 1, attempts: 1 });
+    expect(unknownPuzzle.status).toBe(404);
+  });
+
+  it('checks request bodies against the API schema', async () => {
+    const response = await request(handler, 'POST', '/users/ola/solutions', { puzzleId: mateInOne.id, solution: 'd8h4', timeSpent: -1 });
+    const body = JSON.parse(response.body!);
+
+    expect(response.status).toBe(400);
+    expect(body.issues).toEqual([
+      { path: '$.attempts', message: 'is required' },
+      { path: '$.solution', message: 'expected array, got string' },
+      { path: '$.timeSpent', message: 'must be at least 0' }
+    ]);
+  });
+
+  it('serves its OpenAPI document', async () => {
+    const response = await request(handler, 'GET', '/openapi.json');
+    const spec = JSON.parse(response.body!);
+
+    expect(spec.openapi).toBe('3.0.3');
+    expect(spec.paths['/users/{userId}/solutions'].post.requestBody.content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/SolutionSubmission' });
+  });
+});
+
+describe('ApiPuzzleService against the server', () => {
+  let api: ApiPuzzleService;
+
+  beforeEach(() => {
+    const handler = createApiHandler({ puzzles: [mateInOne, underPromotion], storage: new MemoryStorageAdapter(), apiKey: API_KEY });
+
+    vi.mocked(fetch).mockImplementation(async (input, init) => {
+      const url = new URL(String(input));
+      const response = await handler({
+        method: init?.method || 'GET',
+        url: `${url.pathname}${url.search}`,
+        headers: Object.fromEntries(Object.entries(init?.headers || {}).map(([name, value]) => [name.toLowerCase(), value])),
+        body: typeof init?.body === 'string' ? init.body : undefined
+      });
+      return new Response(response.body ?? null, { status: response.status, headers: response.headers });
+    });
+
+    api = new ApiPuzzleService(BASE_URL, API_KEY);
+  });
+
+  it('serves puzzles', async () => {
+    expect((await api.getPuzzles({ theme: 'fork' })).map(puzzle => puzzle.id)).toEqual([underPromotion.id]);
+    expect(await api.getPuzzle(mateInOne.id)).toEqual(mateInOne);
+    expect(await api.getPuzzle('nope')).toBeNull();
+    expect(await api.getRandomPuzzle({ difficulty: 'beginner', userId: 'ola' })).toEqual(mateInOne);
+    expect(await api.validatePuzzleDatabase()).toBe(true);
+  });
+
+  it('grades solutions and keeps progress and puzzle statistics', async () => {
+    const solved = await api.submitSolution('ola', mateInOne.id, ['Qh4#'], 20, 1);
+    const hinted = await api.submitSolution('kari', mateInOne.id, ['d8h4'], 20, 1, 4);
+    const failed = await api.submitSolution('ola', underPromotion.id, ['e7e8q'], 30, 3);
+
+    expect(solved.success).toBe(true);
+    expect(hinted.score).toBeLessThan(solved.score);
+    expect(failed).toMatchObject({ success: false, score: 0 });
+
+    const progress = await api.getUserProgress('ola');
+    expect(progress?.puzzlesSolved).toEqual([mateInOne.id]);
+    expect(progress?.reviewCards?.[underPromotion.id]).toBeDefined();
+
+    expect(await api.getPuzzleStats(mateInOne.id)).toEqual({ solveRate: 1, averageTime: 20, averageAttempts: 1 });
+    expect(await api.getPuzzleStats(underPromotion.id)).toEqual({ solveRate: 0, averageTime: 30, averageAttempts: 3 });
+    expect(await api.getPuzzleStats('nope')).toBeNull();
+  });
+
+  it('grades a replayed submission once', async () => {
+    const first = await api.submitSolution('ola', mateInOne.id, ['d8h4'], 20, 1, 0, 'attempt_bus_1');
+    const replayed = await api.submitSolution('ola', mateInOne.id, ['d8h4'], 20, 1, 0, 'attempt_bus_1');
+
+    expect(replayed).toEqual(first);
+    expect((await api.getUserProgress('ola'))?.totalTime).toBe(20);
+    expect(await api.getPuzzleStats(mateInOne.id)).toEqual({ solveRate: 1, averageTime: 20, averageAttempts: 1 });
+  });
+
+  it('records rush runs and attempt history', async () => {
+    const run = { ...createRushRun('threeMinute', new Date('2024-03-01T10:00:00Z')), score: 12 };
+    expect(await api.saveRushRun('ola', run)).toEqual({ personalBest: 12, isPersonalBest: true });
+    expect(await api.saveRushRun('ola', { ...run, id: 'rush_2', score: 9 })).toEqual({ personalBest: 12, isPersonalBest: false });
+    expect(await api.saveRushRun('ola', run)).toEqual({ personalBest: 12, isPersonalBest: false });
+    expect((await api.getUserProgress('ola'))?.rushRuns).toHaveLength(2);
+
+    const attempt = finishAttempt(startAttempt('ola', mateInOne, 1000), 'solved', 5000);
+    await api.recordAttempt('ola', attempt);
+    await api.recordAttempt('ola', attempt);
+
+    expect(await api.getAttemptHistory('ola', { result: 'solved' })).toEqual([attempt]);
+    expect(await api.getAttemptHistory('ola', { result: 'failed' })).toEqual([]);
+  });
+
+  it('exports one user and imports the data for another', async () => {
+    await api.submitSolution('ola', mateInOne.id, ['d8h4'], 20, 1);
+    await api.recordAttempt('ola', finishAttempt(startAttempt('ola', mateInOne, 1000), 'solved', 5000));
+
+    const exported = await api.exportUserData('ola');
+    await api.importUserData('kari', exported);
+
+    expect((await api.getUserProgress('kari'))?.puzzlesSolved).toEqual([mateInOne.id]);
+    expect(await api.getAttemptHistory('kari')).toHaveLength(1);
+  });
+});
+
+describe('API server over HTTP', () => {
+  it('answers an oversized body with 413 before closing the connection', async () => {
+    const server = createApiServer({ puzzles: [mateInOne], storage: new MemoryStorageAdapter(), apiKey: API_KEY });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const status = await new Promise<number | undefined>((resolve, reject) => {
+        const req = httpRequest({ port, host: '127.0.0.1', method: 'POST', path: '/users/ola/solutions' }, response => {
+          response.resume();
+          resolve(response.statusCode);
+        });
+        // The server may hang up while the rest of the body is still being written
+        req.on('error', reject);
+        req.end(Buffer.alloc(MAX_BODY_BYTES + 1, 'a'));
+      });
+
+      expect(status).toBe(413);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('JsonFileStorageAdapter', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'chess-hawk-server-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('writes every change to the file and reads it back on start', async () => {
+    const path = join(directory, 'data', 'store.json');
+    const storage = new JsonFileStorageAdapter(path);
+
+    await storage.setItem('a', '1');
+    await storage.setItem('b', '2');
+    await storage.removeItem('a');
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ b: '2' });
+    expect(new JsonFileStorageAdapter(path).getItem('b')).toBe('2');
+  });
+});
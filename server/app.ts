@@ -0,0 +1,448 @@
+/**
+ * Chess Hawk API Server - Routes
+ * Reference implementation of the HTTP contract ApiPuzzleService talks to.
+ * Puzzle logic is LocalPuzzleService's, so both services answer alike.
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { LocalPuzzleService, type PuzzleFilter } from '../src/services/PuzzleService';
+import { PersistentStorage, type StorageAdapter } from '../src/utils/storage';
+import { validatePuzzleCollection } from '../src/utils/validation';
+import { PUZZLE_API_SPEC, parseApiRequest } from '../src/services/ApiSchema';
+import { InvalidApiRequestError } from '../src/types';
+import type { PuzzleSelector } from '../src/services/PuzzleSelector';
+import type { Puzzle } from '../src/stores/GameStore';
+import type { AttemptHistoryFilter, AttemptResult } from '../src/utils/attempts';
+
+export interface ApiServerOptions {
+  puzzles: Puzzle[];
+  storage: StorageAdapter;
+  apiKey?: string; // every request needs `Authorization: Bearer <apiKey>`
+  allowOpenAccess?: boolean; // must be set to serve without an apiKey
+  corsOrigin?: string; // defaults to '*'
+  selector?: PuzzleSelector;
+}
+
+export interface ApiRequest {
+  method: string;
+  url: string; // path and query, e.g. '/puzzles?theme=fork'
+  headers: Record<string, string | string[] | undefined>;
+  body?: string;
+}
+
+export interface ApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export type ApiHandler = (request: ApiRequest) => Promise<ApiResponse>;
+
+interface PuzzleStatsRecord {
+  submissions: number;
+  solved: number;
+  totalTime: number;
+  totalAttempts: number;
+}
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  handle(context: RouteContext): Promise<ApiResponse>;
+}
+
+// Request bodies above this are refused with 413
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+const USER_ID_PATTERN = /^[\w.@-]{1,64}$/;
+const ATTEMPT_RESULTS: AttemptResult[] = ['solved', 'failed', 'abandoned'];
+
+const puzzleStatsKey = (puzzleId: string) => `chess-hawk-puzzle-stats-${puzzleId}`;
+
+/**
+ * Error with the HTTP status to answer with
+ */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Build the request handler. It is independent of node:http, so tests can call it directly.
+ */
+export function createApiHandler(options: ApiServerOptions): ApiHandler {
+  if (!options.apiKey && !options.allowOpenAccess) {
+    throw new Error('An API key is required unless open access is allowed');
+  }
+
+  const storage = new PersistentStorage({ adapter: options.storage, legacy: null });
+  const service = new LocalPuzzleService(options.selector, storage, async () => options.puzzles);
+  const puzzleIds = new Set(options.puzzles.map(puzzle => puzzle.id));
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': options.corsOrigin || '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  };
+
+  const requirePuzzle = (id: string | undefined): string => {
+    if (!id || !puzzleIds.has(id)) {
+      throw new HttpError(404, `Puzzle ${id} not found`);
+    }
+    return id;
+  };
+
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      pattern: /^\/puzzles$/,
+      async handle({ query }) {
+        const filter = readPuzzleFilter(query);
+        const { limit, offset, ...matching } = filter;
+        const total = (await service.getPuzzles(matching)).length;
+        return json(200, { puzzles: await service.getPuzzles(filter), total });
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/puzzles\/random$/,
+      async handle({ query }) {
+        const puzzle = await service.getRandomPuzzle(readPuzzleFilter(query));
+        if (!puzzle) throw new HttpError(404, 'No puzzle matches the filter');
+        return json(200, puzzle);
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/puzzles\/(?<id>[^/]+)$/,
+      async handle({ params }) {
+        return json(200, await service.getPuzzle(requirePuzzle(params.id)));
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/puzzles\/(?<id>[^/]+)\/stats$/,
+      async handle({ params }) {
+        const stats = await storage.getJSON<PuzzleStatsRecord>(puzzleStatsKey(requirePuzzle(params.id)));
+        if (!stats || stats.submissions === 0) {
+          return json(200, { solveRate: 0, averageTime: 0, averageAttempts: 0 });
+        }
+        return json(200, {
+          solveRate: stats.solved / stats.submissions,
+          averageTime: stats.totalTime / stats.submissions,
+          averageAttempts: stats.totalAttempts / stats.submissions
+        });
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/users\/(?<userId>[^/]+)\/progress$/,
+      async handle({ params }) {
+        const progress = await service.getUserProgress(requireUserId(params.userId));
+        if (!progress) throw new HttpError(404, `No progress for user ${params.userId}`);
+        return json(200, progress);
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/users\/(?<userId>[^/]+)\/solutions$/,
+      async handle({ params, body }) {
+        const userId = requireUserId(params.userId);
+        const submission = parseApiRequest('SolutionSubmission', body, 'POST /users/{userId}/solutions');
+        requirePuzzle(submission.puzzleId);
+
+        const { result, replayed } = await service.gradeSubmission(
+          userId,
+          submission.puzzleId,
+          submission.solution,
+          submission.timeSpent,
+          submission.attempts,
+          submission.hintsUsed ?? undefined,
+          submission.attemptId
+        );
+
+        // A replayed submission gets its first result and is not counted again
+        if (replayed) return json(200, result);
+
+        const key = puzzleStatsKey(submission.puzzleId);
+        const stats = await storage.getJSON<PuzzleStatsRecord>(key) || { submissions: 0, solved: 0, totalTime: 0, totalAttempts: 0 };
+        await storage.setJSON(key, {
+          submissions: stats.submissions + 1,
+          solved: stats.solved + (result.success ? 1 : 0),
+          totalTime: stats.totalTime + submission.timeSpent,
+          totalAttempts: stats.totalAttempts + submission.attempts
+        });
+
+        return json(200, result);
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/users\/(?<userId>[^/]+)\/reviews\/due$/,
+      async handle({ params }) {
+        return json(200, { puzzles: await service.getDuePuzzles(requireUserId(params.userId)) });
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/users\/(?<userId>[^/]+)\/rush-runs$/,
+      async handle({ params, body }) {
+        const run = parseApiRequest('RushRun', body, 'POST /users/{userId}/rush-runs');
+        return json(200, await service.saveRushRun(requireUserId(params.userId), run));
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/users\/(?<userId>[^/]+)\/attempts$/,
+      async handle({ params, body }) {
+        const attempt = parseApiRequest('PuzzleAttempt', body, 'POST /users/{userId}/attempts');
+        await service.recordAttempt(requireUserId(params.userId), attempt);
+        return { status: 204, headers: {} };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/users\/(?<userId>[^/]+)\/attempts$/,
+      async handle({ params, query }) {
+        return json(200, await service.getAttemptHistory(requireUserId(params.userId), readAttemptFilter(query)));
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/users\/(?<userId>[^/]+)\/export$/,
+      async handle({ params }) {
+        return json(200, await service.exportUserData(requireUserId(params.userId)));
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/users\/(?<userId>[^/]+)\/import$/,
+      async handle({ params, body }) {
+        const data = parseApiRequest('ExportedUserData', body, 'POST /users/{userId}/import');
+        await service.importUserData(requireUserId(params.userId), data);
+        return { status: 204, headers: {} };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/admin\/validate$/,
+      async handle() {
+        const report = validatePuzzleCollection(options.puzzles);
+        const valid = await service.validatePuzzleDatabase() && report.broken.length === 0;
+        return json(200, { valid, total: report.total, broken: report.broken });
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/openapi\.json$/,
+      async handle() {
+        return json(200, PUZZLE_API_SPEC);
+      }
+    }
+  ];
+
+  return async (request: ApiRequest): Promise<ApiResponse> => {
+    const response = await route(request);
+    return { ...response, headers: { ...corsHeaders, ...response.headers } };
+  };
+
+  async function route(request: ApiRequest): Promise<ApiResponse> {
+    if (request.method === 'OPTIONS') {
+      return { status: 204, headers: {} };
+    }
+
+    try {
+      if (options.apiKey && !isAuthorized(request.headers.authorization, options.apiKey)) {
+        return { ...json(401, { error: 'Missing or invalid API key' }), headers: { 'WWW-Authenticate': 'Bearer' } };
+      }
+
+      const url = new URL(request.url, 'http://localhost');
+      const path = url.pathname.replace(/\/+$/, '') || '/';
+      const matching = routes.filter(candidate => candidate.pattern.test(path));
+      const match = matching.find(candidate => candidate.method === request.method);
+
+      if (!match) {
+        if (matching.length > 0) {
+          const allow = matching.map(candidate => candidate.method).join(', ');
+          return { ...json(405, { error: `${request.method} not allowed` }), headers: { Allow: allow } };
+        }
+        throw new HttpError(404, `No route for ${request.method} ${path}`);
+      }
+
+      const params = decodeParams(match.pattern.exec(path)?.groups);
+      return await match.handle({ params, query: url.searchParams, body: parseBody(request) });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return json(error.status, { error: error.message });
+      }
+      if (error instanceof InvalidApiRequestError) {
+        return json(400, { error: error.message, issues: error.context.issues });
+      }
+      console.error('❌ Request failed:', error);
+      return json(500, { error: 'Internal server error' });
+    }
+  }
+}
+
+/**
+ * Serve the handler over HTTP
+ */
+export function createApiServer(options: ApiServerOptions): Server {
+  const handler = createApiHandler(options);
+
+  return createServer(async (req, res) => {
+    let response: ApiResponse;
+    let bodyRead = true;
+    try {
+      const body = await readBody(req);
+      response = await handler({ method: req.method || 'GET', url: req.url || '/', headers: req.headers, body });
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 400;
+      response = json(status, { error: error instanceof Error ? error.message : 'Bad request' });
+      bodyRead = false;
+    }
+
+    if (bodyRead) {
+      res.writeHead(response.status, response.headers);
+      res.end(response.body);
+    } else {
+      // The rest of the body is never read, so close the connection once the answer is out
+      res.writeHead(response.status, { ...response.headers, Connection: 'close' });
+      res.end(response.body, () => req.destroy());
+    }
+  });
+}
+
+function json(status: number, value: unknown): ApiResponse {
+  return {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+    body: JSON.stringify(value)
+  };
+}
+
+function isAuthorized(header: string | string[] | undefined, apiKey: string): boolean {
+  if (typeof header !== 'string') return false;
+
+  const given = Buffer.from(header);
+  const expected = Buffer.from(`Bearer ${apiKey}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Stops reading once the body passes MAX_BODY_BYTES, so the 413 can still be sent on the open socket
+ */
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData);
+        req.pause();
+        reject(new HttpError(413, 'Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function parseBody(request: ApiRequest): unknown {
+  if (request.method !== 'POST') return undefined;
+  if (!request.body) throw new HttpError(400, 'Request body is required');
+
+  try {
+    return JSON.parse(request.body);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function decodeParams(groups: Record<string, string> | undefined): Record<string, string> {
+  const params: Record<string, string> = {};
+  Object.entries(groups || {}).forEach(([name, value]) => {
+    try {
+      params[name] = decodeURIComponent(value);
+    } catch {
+      throw new HttpError(400, `Malformed ${name} in path`);
+    }
+  });
+  return params;
+}
+
+function requireUserId(userId: string | undefined): string {
+  if (!userId || !USER_ID_PATTERN.test(userId)) {
+    throw new HttpError(400, `Invalid user id: ${userId}`);
+  }
+  return userId;
+}
+
+/**
+ * Query parameters as sent by ApiPuzzleService.getPuzzles and getRandomPuzzle
+ */
+function readPuzzleFilter(query: URLSearchParams): PuzzleFilter {
+  const filter: PuzzleFilter = {};
+  const difficulty = query.get('difficulty');
+  const minRating = readNumber(query, 'minRating');
+  const maxRating = readNumber(query, 'maxRating');
+
+  if (query.get('theme')) filter.theme = query.get('theme')!;
+  if (difficulty) {
+    if (difficulty !== 'beginner' && difficulty !== 'intermediate' && difficulty !== 'advanced') {
+      throw new HttpError(400, `Invalid difficulty: ${difficulty}`);
+    }
+    filter.difficulty = difficulty;
+  }
+  if (minRating !== undefined || maxRating !== undefined) filter.rating = { min: minRating, max: maxRating };
+  if (query.getAll('tags').length > 0) filter.tags = query.getAll('tags');
+  if (query.get('limit')) filter.limit = readNumber(query, 'limit');
+  if (query.get('offset')) filter.offset = readNumber(query, 'offset');
+  if (query.get('userId')) filter.userId = requireUserId(query.get('userId')!);
+
+  return filter;
+}
+
+function readAttemptFilter(query: URLSearchParams): AttemptHistoryFilter {
+  const filter: AttemptHistoryFilter = {};
+  const result = query.get('result');
+
+  if (query.get('puzzleId')) filter.puzzleId = query.get('puzzleId')!;
+  if (query.get('theme')) filter.theme = query.get('theme')!;
+  if (result) {
+    if (!ATTEMPT_RESULTS.includes(result as AttemptResult)) {
+      throw new HttpError(400, `Invalid result: ${result}`);
+    }
+    filter.result = result as AttemptResult;
+  }
+  if (query.get('since')) filter.since = query.get('since')!;
+  if (query.get('until')) filter.until = query.get('until')!;
+  if (query.get('limit')) filter.limit = readNumber(query, 'limit');
+
+  return filter;
+}
+
+function readNumber(query: URLSearchParams, name: string): number | undefined {
+  const raw = query.get(name);
+  if (raw === null || raw === '') return undefined;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new HttpError(400, `${name} must be a non-negative number`);
+  }
+  return value;
+}
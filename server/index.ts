@@ -0,0 +1,90 @@
+/**
+ * Chess Hawk API Server
+ * Self-hosted backend for ApiPuzzleService: serves problems.json and keeps user data in a JSON file
+ *
+ * Usage: tsx server/index.ts [--port 3001] [--host 127.0.0.1] [--puzzles path] [--data path] [--open]
+ * The API key is read from CHESS_HAWK_API_KEY so it stays out of the process list.
+ * Without a key the server only starts with --open.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { createApiServer } from './app';
+import { JsonFileStorageAdapter } from './storage';
+import type { Puzzle } from '../src/stores/GameStore';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DEFAULT_PUZZLES_PATH = join(__dirname, '..', 'src', 'data', 'problems.json');
+const DEFAULT_DATA_PATH = join(__dirname, 'data', 'chess-hawk-data.json');
+const DEFAULT_PORT = 3001;
+
+/**
+ * Accepts either `{ puzzles: [...] }` or a bare puzzle array
+ */
+function loadPuzzles(path: string): Puzzle[] {
+  const data = JSON.parse(readFileSync(path, 'utf8'));
+  const puzzles = Array.isArray(data) ? data : data.puzzles;
+
+  if (!Array.isArray(puzzles)) {
+    throw new Error(`No puzzles array found in ${path}`);
+  }
+
+  return puzzles;
+}
+
+// Main execution
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', short: 'p' },
+      host: { type: 'string' },
+      puzzles: { type: 'string' },
+      data: { type: 'string' },
+      open: { type: 'boolean' }
+    }
+  });
+
+  const port = values.port ? Number(values.port) : Number(process.env.PORT) || DEFAULT_PORT;
+  const host = values.host || '127.0.0.1';
+  const puzzlesPath = values.puzzles ? resolve(values.puzzles) : DEFAULT_PUZZLES_PATH;
+  const dataPath = values.data ? resolve(values.data) : DEFAULT_DATA_PATH;
+  const apiKey = process.env.CHESS_HAWK_API_KEY || undefined;
+
+  try {
+    const puzzles = loadPuzzles(puzzlesPath);
+    const server = createApiServer({
+      puzzles,
+      storage: new JsonFileStorageAdapter(dataPath),
+      apiKey,
+      allowOpenAccess: values.open,
+      corsOrigin: process.env.CHESS_HAWK_CORS_ORIGIN
+    });
+
+    server.listen(port, host, () => {
+      console.log(`🚀 Chess Hawk API listening on http://${host}:${port}`);
+      console.log(`   📚 ${puzzles.length} puzzles from ${puzzlesPath}`);
+      console.log(`   💾 User data in ${dataPath}`);
+      if (!apiKey) {
+        console.warn('   ⚠️  Open access - the API answers anyone who can reach it');
+      }
+    });
+
+    const shutdown = () => server.close(() => process.exit(0));
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error) {
+    console.error(`💥 Server failed to start: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { loadPuzzles };
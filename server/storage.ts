@@ -0,0 +1,68 @@
+/**
+ * Chess Hawk API Server - Storage
+ * Key-value store in a single JSON file, behind the same StorageAdapter as the web app
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { StorageAdapter } from '../src/utils/storage';
+
+/**
+ * Keeps every key in memory and rewrites the file after each change. Writes are
+ * serialized and go through a temporary file, so a crash never leaves half a file.
+ * Meant for a club-sized user base; one server process per file.
+ */
+export class JsonFileStorageAdapter implements StorageAdapter {
+  private data: Map<string, string>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {
+    this.data = new Map(Object.entries(this.read()));
+  }
+
+  getItem(key: string): string | null {
+    return this.data.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    this.data.set(key, value);
+    return this.flush();
+  }
+
+  removeItem(key: string): Promise<void> {
+    this.data.delete(key);
+    return this.flush();
+  }
+
+  clear(): Promise<void> {
+    this.data.clear();
+    return this.flush();
+  }
+
+  /**
+   * Resolves once everything changed so far is on disk
+   */
+  flush(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.data), null, 2);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const temporary = `${this.path}.tmp`;
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(temporary, snapshot, 'utf8');
+        await rename(temporary, this.path);
+      });
+    return this.writing;
+  }
+
+  private read(): Record<string, string> {
+    if (!existsSync(this.path)) return {};
+
+    const parsed = JSON.parse(readFileSync(this.path, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`${this.path} is not a Chess Hawk data file`);
+    }
+    return parsed;
+  }
+}
@@ -4,17 +4,28 @@
  */
 
 import type { ChessMove, Platform } from '../types'
+import type { ChessboardConfig as ChessboardJsConfig } from '../types/chess-hawk'
+import { AnnotationLayer, type BoardArrow, type SquareMark } from './annotations'
+import { PromotionPicker } from './promotion'
+import { applyBoardTheme, chessHawkThemes, type PieceSet } from './themes'
+import { isPromotionMove, type PromotionPiece } from '../utils/move-input'
 
 export interface ChessBoardConfig {
   position?: string // FEN string or 'start'
   orientation?: 'white' | 'black'
   showNotation?: boolean
-  pieceTheme?: string
+  pieceTheme?: PieceSet // explicit piece images, overrides pieceSet
+  boardTheme?: string // name in the theme registry, e.g. UserSettings.boardTheme
+  pieceSet?: string // name in the theme registry, e.g. UserSettings.pieceTheme
   onMove?: (move: ChessMove) => boolean | 'snapback'
   onPositionChange?: (fen: string) => void
   onDragStart?: (source: string, piece: string) => boolean
+  onSquareClick?: (square: string) => void // click-to-move, also fired for a piece picked up and put back
   interactive?: boolean
   highlights?: Array<{ square: string; color: string }>
+  drawable?: boolean // right-click arrows and square marks, on by default
+  onAnnotationsChange?: (annotations: { arrows: BoardArrow[]; marks: SquareMark[] }) => void
+  autoPromoteQueen?: boolean // promote to a queen instead of opening the promotion picker
   elementId?: string
 }
 
@@ -39,6 +50,10 @@ export abstract class ChessBoardAdapter {
     this.config = config
   }
 
+  setAutoPromoteQueen(enabled: boolean): void {
+    this.config.autoPromoteQueen = enabled
+  }
+
   abstract initialize(): Promise<ChessBoardInstance | null>
   abstract destroy(): void
   abstract updatePosition(fen: string): void
@@ -46,13 +61,21 @@ export abstract class ChessBoardAdapter {
   abstract setOrientation(orientation: 'white' | 'black'): void
   abstract highlightSquares(squares: Array<{ square: string; color: string }>): void
   abstract clearHighlights(): void
+  abstract drawArrow(from: string, to: string, color: string): void
+  abstract markSquare(square: string, color: string): void
+  abstract clearAnnotations(): void
+  abstract setTheme(theme: { boardTheme?: string; pieceSet?: string }): void
+  abstract choosePromotion(color: 'w' | 'b'): Promise<PromotionPiece | null>
   abstract makeMove(move: ChessMove): boolean
   abstract resize(): void
 }
 
 export class WebChessBoardAdapter extends ChessBoardAdapter {
   private board: any = null
-  private highlights: HTMLElement[] = []
+  private boardConfig: ChessboardJsConfig | null = null
+  private annotations: AnnotationLayer | null = null
+  private promotionPicker: PromotionPicker | null = null
+  private clickListener: ((event: Event) => void) | null = null
 
   async initialize(): Promise<ChessBoardInstance | null> {
     if (typeof window === 'undefined') {
@@ -76,20 +99,38 @@ export class WebChessBoardAdapter extends ChessBoardAdapter {
       }
 
       // Configure the board
-      const boardConfig: any = {
+      const boardConfig: ChessboardJsConfig = {
         position: this.config.position || 'start',
         orientation: this.config.orientation || 'white',
         showNotation: this.config.showNotation !== false,
-        pieceTheme: this.config.pieceTheme || '/img/chesspieces/wikipedia/{piece}.png',
+        pieceTheme: this.config.pieceTheme || chessHawkThemes.getPieceSet(this.config.pieceSet),
         moveSpeed: 'fast',
         snapbackSpeed: 500,
         snapSpeed: 100
       }
 
       // Add event handlers if provided
-      if (this.config.onMove) {
-        boardConfig.onDrop = (source: string, target: string, _piece: string) => {
+      if (this.config.onMove || this.config.onSquareClick) {
+        boardConfig.onDrop = (source: string, target: string, piece: string) => {
+          // chessboard.js turns a click on a piece into a drop on its own square
+          if (source === target) {
+            this.config.onSquareClick?.(source)
+            return 'snapback'
+          }
+          if (!this.config.onMove) return 'snapback'
+
           const move: ChessMove = { from: source, to: target }
+          if (this.isPromotionDrop(source, target, piece)) {
+            if (!this.config.autoPromoteQueen) {
+              // Snap back while the player picks; the store's new position redraws the board
+              this.choosePromotion(piece.charAt(0) as 'w' | 'b').then(promotion => {
+                if (promotion) this.config.onMove?.({ ...move, promotion })
+              })
+              return 'snapback'
+            }
+            move.promotion = 'q'
+          }
+
           const result = this.config.onMove!(move)
           return result === true ? undefined : 'snapback'
         }
@@ -101,8 +142,29 @@ export class WebChessBoardAdapter extends ChessBoardAdapter {
         }
       }
 
-      // Create the board
+      // Create the board, with the annotation overlay on top
       this.board = ChessBoardJS(elementId, boardConfig)
+      this.boardConfig = boardConfig
+      applyBoardTheme(this.element, chessHawkThemes.getBoardTheme(this.config.boardTheme))
+      this.annotations = new AnnotationLayer(this.element, {
+        orientation: boardConfig.orientation,
+        drawable: this.config.drawable,
+        onChange: this.config.onAnnotationsChange
+      })
+
+      this.promotionPicker = new PromotionPicker(this.element, { pieceTheme: boardConfig.pieceTheme })
+
+      // Clicks on empty squares never start a drag, so they arrive as plain DOM clicks
+      if (this.config.onSquareClick) {
+        this.clickListener = (event: Event) => {
+          const squareEl = (event.target as HTMLElement | null)?.closest?.('[data-square]')
+          const square = squareEl?.getAttribute('data-square')
+          if (square) {
+            this.config.onSquareClick!(square)
+          }
+        }
+        this.element.addEventListener('click', this.clickListener)
+      }
 
       // Apply initial highlights if any
       if (this.config.highlights && this.config.highlights.length > 0) {
@@ -116,6 +178,15 @@ export class WebChessBoardAdapter extends ChessBoardAdapter {
     }
   }
 
+  /**
+   * Whether a drop is a legal promotion. chessboard.js only knows the piece
+   * placement, so the side to move is taken from the dropped piece.
+   */
+  private isPromotionDrop(source: string, target: string, piece: string): boolean {
+    if (piece.charAt(1) !== 'P' || !this.board) return false
+    return isPromotionMove(`${this.board.fen()} ${piece.charAt(0)} - - 0 1`, source, target)
+  }
+
   private async waitForChessboard(timeout = 5000): Promise<void> {
     const start = Date.now()
     
@@ -140,7 +211,7 @@ export class WebChessBoardAdapter extends ChessBoardAdapter {
       },
       orientation: (color?: 'white' | 'black') => {
         if (color !== undefined) {
-          this.board.orientation(color)
+          this.setOrientation(color)
         } else {
           return this.board.orientation()
         }
@@ -160,10 +231,11 @@ export class WebChessBoardAdapter extends ChessBoardAdapter {
         this.destroy()
       },
       resize: () => {
-        this.board.resize()
+        this.resize()
       },
       flip: () => {
         this.board.flip()
+        this.annotations?.setOrientation(this.board.orientation())
       },
       fen: () => {
         return this.board.fen()
@@ -172,11 +244,19 @@ export class WebChessBoardAdapter extends ChessBoardAdapter {
   }
 
   destroy(): void {
-    this.clearHighlights()
+    this.annotations?.destroy()
+    this.annotations = null
+    this.promotionPicker?.destroy()
+    this.promotionPicker = null
+    if (this.clickListener) {
+      this.element?.removeEventListener('click', this.clickListener)
+      this.clickListener = null
+    }
     if (this.board && this.board.destroy) {
       this.board.destroy()
     }
     this.board = null
+    this.boardConfig = null
     this.element = null
   }
 
@@ -194,40 +274,58 @@ export class WebChessBoardAdapter extends ChessBoardAdapter {
     if (this.board) {
       this.board.orientation(orientation)
     }
+    this.annotations?.setOrientation(orientation)
   }
 
   highlightSquares(squares: Array<{ square: string; color: string }>): void {
-    this.clearHighlights()
-    
-    squares.forEach(({ square, color }) => {
-      const squareEl = this.element?.querySelector(`[data-square="${square}"]`) as HTMLElement
-      if (squareEl) {
-        const highlight = document.createElement('div')
-        highlight.className = 'chess-highlight'
-        highlight.style.cssText = `
-          position: absolute;
-          top: 0;
-          left: 0;
-          width: 100%;
-          height: 100%;
-          background-color: ${color};
-          opacity: 0.4;
-          pointer-events: none;
-          z-index: 2;
-        `
-        
-        squareEl.style.position = 'relative'
-        squareEl.appendChild(highlight)
-        this.highlights.push(highlight)
-      }
-    })
+    this.annotations?.setHighlights(squares)
   }
 
   clearHighlights(): void {
-    this.highlights.forEach(highlight => {
-      highlight.remove()
-    })
-    this.highlights = []
+    this.annotations?.setHighlights([])
+  }
+
+  drawArrow(from: string, to: string, color: string): void {
+    this.annotations?.drawArrow(from, to, color)
+  }
+
+  markSquare(square: string, color: string): void {
+    this.annotations?.markSquare(square, color)
+  }
+
+  clearAnnotations(): void {
+    this.annotations?.clear()
+  }
+
+  /**
+   * Switch square colours and pieces on the live board. chessboard.js keeps the
+   * config object it was created with and reads pieceTheme from it on every redraw.
+   */
+  setTheme(theme: { boardTheme?: string; pieceSet?: string }): void {
+    if (theme.boardTheme !== undefined) {
+      this.config.boardTheme = theme.boardTheme
+      if (this.element) {
+        applyBoardTheme(this.element, chessHawkThemes.getBoardTheme(theme.boardTheme))
+      }
+    }
+
+    if (theme.pieceSet !== undefined) {
+      const pieceTheme = chessHawkThemes.getPieceSet(theme.pieceSet)
+      this.config.pieceSet = theme.pieceSet
+      this.config.pieceTheme = pieceTheme
+      this.promotionPicker?.setPieceTheme(pieceTheme)
+      if (this.board && this.boardConfig) {
+        this.boardConfig.pieceTheme = pieceTheme
+        this.board.position(this.board.position(), false)
+      }
+    }
+  }
+
+  /**
+   * Ask which piece to promote to. Resolves with null when the player dismisses the picker.
+   */
+  choosePromotion(color: 'w' | 'b'): Promise<PromotionPiece | null> {
+    return this.promotionPicker ? this.promotionPicker.choose(color) : Promise.resolve('q')
   }
 
   makeMove(move: ChessMove): boolean {
@@ -244,6 +342,7 @@ export class WebChessBoardAdapter extends ChessBoardAdapter {
     if (this.board && this.board.resize) {
       this.board.resize()
     }
+    this.annotations?.render()
   }
 }
 
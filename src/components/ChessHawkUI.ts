@@ -6,6 +6,9 @@
 import { createChessBoardAdapter, type ChessBoardAdapter, type ChessBoardConfig } from './ChessBoard'
 import { useGameStore, type Puzzle } from '../stores/GameStore'
 import type { Platform, ChessMove } from '../types'
+import { buildSolutionFrames, SolutionPlayback, type SolutionFrame } from '../utils/playback'
+import { MAX_HINT_TIER, type Hint } from '../utils/hints'
+import { isPromotionMove, parseMoveInput } from '../utils/move-input'
 
 export interface ChessHawkUIConfig {
   // Container elements
@@ -38,6 +41,7 @@ export class ChessHawkUI {
   private unsubscribe: (() => void) | null = null
   private startTime: number = 0
   private moveCount: number = 0
+  private playback: SolutionPlayback | null = null
 
   constructor(config: ChessHawkUIConfig) {
     this.config = config
@@ -47,10 +51,15 @@ export class ChessHawkUI {
   async initialize(): Promise<void> {
     try {
       // Initialize board adapter
+      const { settings } = this.gameStore.getState()
       const boardConfig: ChessBoardConfig = {
         elementId: this.config.boardElementId,
         onMove: this.handleMove.bind(this),
         onDragStart: this.handleDragStart.bind(this),
+        onSquareClick: this.handleSquareClick.bind(this),
+        autoPromoteQueen: settings.autoPromoteQueen,
+        boardTheme: settings.boardTheme,
+        pieceSet: settings.pieceTheme,
         ...this.config.boardConfig
       }
 
@@ -58,10 +67,38 @@ export class ChessHawkUI {
       await this.boardAdapter.initialize()
 
       // Subscribe to game store changes
-      this.unsubscribe = this.gameStore.subscribe(
+      const unsubscribePuzzle = this.gameStore.subscribe(
         (state: any) => state.currentPuzzle,
         (puzzle: Puzzle | null) => this.handlePuzzleChange(puzzle)
       )
+      const unsubscribePosition = this.gameStore.subscribe(
+        (state: any) => state.position,
+        (position: string) => this.handlePositionChange(position)
+      )
+      const unsubscribeSelection = this.gameStore.subscribe(
+        (state: any) => state.selectedSquare,
+        (square: string | null) => this.handleSelectionChange(square)
+      )
+      const unsubscribePromotion = this.gameStore.subscribe(
+        (state: any) => state.settings.autoPromoteQueen,
+        (enabled: boolean) => this.boardAdapter?.setAutoPromoteQueen(enabled)
+      )
+      const unsubscribeBoardTheme = this.gameStore.subscribe(
+        (state: any) => state.settings.boardTheme,
+        (boardTheme: string) => this.boardAdapter?.setTheme({ boardTheme })
+      )
+      const unsubscribePieceSet = this.gameStore.subscribe(
+        (state: any) => state.settings.pieceTheme,
+        (pieceSet: string) => this.boardAdapter?.setTheme({ pieceSet })
+      )
+      this.unsubscribe = () => {
+        unsubscribePuzzle()
+        unsubscribePosition()
+        unsubscribeSelection()
+        unsubscribePromotion()
+        unsubscribeBoardTheme()
+        unsubscribePieceSet()
+      }
 
       // Initialize UI elements
       await this.initializeUI()
@@ -93,37 +130,72 @@ export class ChessHawkUI {
     await this.loadPuzzle()
   }
 
+  /**
+   * Reveal the next hint tier: theme, then piece, then target square, then the move
+   */
   showHint(): void {
-    const state = this.gameStore.getState()
-    if (state.currentPuzzle?.hint) {
-      this.updateStatus(`💡 Hint: ${state.currentPuzzle.hint}`)
+    this.gameStore.getState().showHint()
+
+    const hint: Hint | null = this.gameStore.getState().currentHint
+    if (!hint) return
+
+    this.updateStatus(`💡 Hint ${hint.tier}/${MAX_HINT_TIER}: ${hint.message}`)
+    if (this.boardAdapter) {
+      const [from, to] = hint.squares
+      this.boardAdapter.clearHighlights()
+      this.boardAdapter.clearAnnotations()
+      this.boardAdapter.highlightSquares(hint.squares.map((square, index) => ({
+        square,
+        color: index === 0 ? '#ffeb3b' : '#4caf50'
+      })))
+      if (hint.kind === 'move' && from && to) {
+        this.boardAdapter.drawArrow(from, to, '#ffeb3b')
+      }
     }
   }
 
+  /**
+   * Walk through the solution on the board, starting the animation right away
+   */
   showSolution(): void {
-    const state = this.gameStore.getState()
-    if (state.currentPuzzle?.solution) {
-      const solution = state.currentPuzzle.solution.join(', ')
-      this.updateStatus(`🔍 Solution: ${solution}`)
-      
-      // Highlight solution moves
-      if (this.boardAdapter && state.currentPuzzle.solution.length > 0) {
-        // This is a simplified version - a full implementation would
-        // step through each move in the solution
-        const firstMove = state.currentPuzzle.solution[0]
-        if (firstMove.length >= 4) {
-          const from = firstMove.substring(0, 2)
-          const to = firstMove.substring(2, 4)
-          this.boardAdapter.highlightSquares([
-            { square: from, color: '#ffeb3b' },
-            { square: to, color: '#4caf50' }
-          ])
-        }
-      }
+    const puzzle: Puzzle | null = this.gameStore.getState().currentPuzzle
+    if (!puzzle?.solution?.length) return
+
+    this.closeSolution()
+    try {
+      this.playback = new SolutionPlayback(buildSolutionFrames(puzzle), {
+        onChange: frame => this.renderSolutionFrame(frame)
+      })
+    } catch (error) {
+      console.error('Could not replay solution:', error)
+      this.updateStatus(`🔍 Solution: ${puzzle.solution.join(', ')}`)
+      return
+    }
+
+    this.setupPlaybackControls()
+    this.renderSolutionFrame(this.playback.current)
+    this.playback.play()
+  }
+
+  /**
+   * Stop the walkthrough and put the board back to the game position
+   */
+  closeSolution(): void {
+    if (!this.playback) return
+
+    this.playback.destroy()
+    this.playback = null
+    document.getElementById('solution-playback')?.remove()
+
+    if (this.boardAdapter) {
+      this.boardAdapter.clearHighlights()
+      this.boardAdapter.clearAnnotations()
+      this.boardAdapter.updatePosition(this.gameStore.getState().position)
     }
   }
 
   destroy(): void {
+    this.closeSolution()
     this.unsubscribe?.()
     this.boardAdapter?.destroy()
     this.boardAdapter = null
@@ -163,6 +235,10 @@ export class ChessHawkUI {
         <button id="solution-btn" class="chess-hawk-btn chess-hawk-btn-secondary">
           Show Solution
         </button>
+        <form id="move-input-form" class="chess-hawk-move-input">
+          <input id="move-input" type="text" placeholder="Type a move (Nf3 or g1f3)" autocomplete="off" aria-label="Move">
+          <button type="submit" class="chess-hawk-btn chess-hawk-btn-secondary">Play</button>
+        </form>
       </div>
     `
 
@@ -174,6 +250,74 @@ export class ChessHawkUI {
     newPuzzleBtn?.addEventListener('click', () => this.loadRandomPuzzle())
     hintBtn?.addEventListener('click', () => this.showHint())
     solutionBtn?.addEventListener('click', () => this.showSolution())
+
+    const moveForm = document.getElementById('move-input-form')
+    const moveInput = document.getElementById('move-input') as HTMLInputElement | null
+    moveForm?.addEventListener('submit', event => {
+      event.preventDefault()
+      if (moveInput && this.handleMoveText(moveInput.value)) {
+        moveInput.value = ''
+      }
+    })
+  }
+
+  private setupPlaybackControls(): void {
+    const controlsElement = this.config.controlsElementId
+      ? document.getElementById(this.config.controlsElementId)
+      : null
+
+    if (!controlsElement || this.config.showControls === false) return
+
+    const playbackElement = document.createElement('div')
+    playbackElement.id = 'solution-playback'
+    playbackElement.className = 'chess-hawk-playback'
+    playbackElement.innerHTML = `
+      <button id="solution-prev-btn" class="chess-hawk-btn chess-hawk-btn-secondary">⏮ Previous</button>
+      <button id="solution-play-btn" class="chess-hawk-btn chess-hawk-btn-primary">▶ Play</button>
+      <button id="solution-next-btn" class="chess-hawk-btn chess-hawk-btn-secondary">Next ⏭</button>
+      <button id="solution-close-btn" class="chess-hawk-btn chess-hawk-btn-secondary">✕ Close</button>
+      <span id="solution-ply" class="chess-hawk-playback-ply"></span>
+    `
+    controlsElement.appendChild(playbackElement)
+
+    document.getElementById('solution-prev-btn')?.addEventListener('click', () => this.playback?.prev())
+    document.getElementById('solution-play-btn')?.addEventListener('click', () => this.playback?.toggle())
+    document.getElementById('solution-next-btn')?.addEventListener('click', () => this.playback?.next())
+    document.getElementById('solution-close-btn')?.addEventListener('click', () => this.closeSolution())
+  }
+
+  private renderSolutionFrame(frame: SolutionFrame): void {
+    const playback = this.playback
+    if (!playback) return
+
+    if (this.boardAdapter) {
+      this.boardAdapter.updatePosition(frame.fen)
+      this.boardAdapter.clearHighlights()
+      this.boardAdapter.clearAnnotations()
+      if (frame.from && frame.to) {
+        this.boardAdapter.highlightSquares([
+          { square: frame.from, color: '#ffeb3b' },
+          { square: frame.to, color: '#4caf50' }
+        ])
+        this.boardAdapter.drawArrow(frame.from, frame.to, '#4caf50')
+      }
+    }
+
+    const plies = playback.frames.length - 1
+    const plyElement = document.getElementById('solution-ply')
+    if (plyElement) {
+      plyElement.textContent = `${frame.ply}/${plies}`
+    }
+    const playButton = document.getElementById('solution-play-btn')
+    if (playButton) {
+      playButton.textContent = playback.isPlaying ? '⏸ Pause' : '▶ Play'
+    }
+    document.getElementById('solution-prev-btn')?.toggleAttribute('disabled', playback.atStart)
+    document.getElementById('solution-next-btn')?.toggleAttribute('disabled', playback.atEnd)
+
+    this.updateStatus(frame.san
+      ? `🔍 Solution ${frame.ply}/${plies}: ${frame.san}`
+      : `🔍 Solution: ${playback.frames.slice(1).map(f => f.san).join(', ')}`)
   }
 
   private setupStatus(): void {
@@ -213,15 +357,14 @@ export class ChessHawkUI {
 
   private handleMove(move: ChessMove): boolean | 'snapback' {
     try {
-      const state = this.gameStore.getState()
-      const isValid = state.makeMove(move)
+      const isValid = this.gameStore.getState().makeMove(move)
       
       this.moveCount++
       this.config.onMoveAttempt?.(move, isValid)
 
       if (isValid) {
         // Check if puzzle is solved
-        if (state.gameStatus === 'solved') {
+        if (this.gameStore.getState().gameStatus === 'solved') {
           const timeSpent = Math.floor((Date.now() - this.startTime) / 1000)
           this.handlePuzzleComplete(true, timeSpent)
         }
@@ -236,11 +379,85 @@ export class ChessHawkUI {
     }
   }
 
+  /**
+   * Click-to-move: the first click selects a piece and shows where it can go,
+   * a click on one of those squares plays the move through handleMove like a drop
+   */
+  private handleSquareClick(square: string): void {
+    const state = this.gameStore.getState()
+    if (this.playback || (state.gameStatus !== 'playing' && state.gameStatus !== 'rush')) return
+
+    const { selectedSquare, highlightedSquares } = state
+    if (selectedSquare && selectedSquare !== square && highlightedSquares.includes(square)) {
+      state.setSelectedSquare(null)
+      void this.handleSquareMove(selectedSquare, square)
+    } else {
+      state.selectSquare(square)
+    }
+  }
+
+  /**
+   * Play a clicked move, asking for the piece first when a pawn promotes
+   * and queens are not automatic. A dismissed picker plays nothing.
+   */
+  private async handleSquareMove(from: string, to: string): Promise<void> {
+    const { position, settings } = this.gameStore.getState()
+
+    let promotion: ChessMove['promotion']
+    if (isPromotionMove(position, from, to)) {
+      promotion = settings.autoPromoteQueen || !this.boardAdapter
+        ? 'q'
+        : await this.boardAdapter.choosePromotion(position.split(' ')[1] === 'b' ? 'b' : 'w') || undefined
+      if (!promotion) return
+    }
+
+    this.handleMove({ from, to, promotion })
+  }
+
+  /**
+   * Typed SAN or UCI move. Returns whether it was played, or is waiting for a promotion choice.
+   */
+  private handleMoveText(text: string): boolean {
+    const state = this.gameStore.getState()
+    if (this.playback || !text.trim()) return false
+
+    const move = parseMoveInput(state.position, text)
+    if (!move) {
+      this.updateStatus(`❌ "${text.trim()}" is not a legal move here`)
+      return false
+    }
+    if (!move.promotion && isPromotionMove(state.position, move.from, move.to)) {
+      // No piece typed: promote as for a clicked move
+      void this.handleSquareMove(move.from, move.to)
+      return true
+    }
+    return this.handleMove({ from: move.from, to: move.to, promotion: move.promotion as ChessMove['promotion'] }) === true
+  }
+
+  private handleSelectionChange(square: string | null): void {
+    if (!this.boardAdapter || this.playback) return
+
+    if (!square) {
+      this.boardAdapter.clearHighlights()
+      return
+    }
+    const destinations: string[] = this.gameStore.getState().highlightedSquares
+    this.boardAdapter.highlightSquares([
+      { square, color: '#ffeb3b' },
+      ...destinations.map(destination => ({ square: destination, color: '#8bc34a' }))
+    ])
+  }
+
   private handleDragStart(_source: string, _piece: string): boolean {
     const state = this.gameStore.getState()
     
+    // The board shows the solution, not the game, during playback
+    if (this.playback) {
+      return false
+    }
+
     // Only allow moves when puzzle is active
-    if (state.gameStatus !== 'playing') {
+    if (state.gameStatus !== 'playing' && state.gameStatus !== 'rush') {
       return false
     }
 
@@ -249,11 +466,12 @@ export class ChessHawkUI {
   }
 
   private handlePuzzleChange(puzzle: Puzzle | null): void {
+    this.closeSolution()
     if (!puzzle || !this.boardAdapter) return
 
     try {
-      // Update board position
-      this.boardAdapter.updatePosition(puzzle.fen)
+      // Update board position (after any opponent setup move)
+      this.boardAdapter.updatePosition(this.gameStore.getState().position || puzzle.fen)
       this.boardAdapter.clearHighlights()
 
       // Update puzzle info
@@ -264,6 +482,17 @@ export class ChessHawkUI {
     }
   }
 
+  private handlePositionChange(position: string): void {
+    // Keeps the board in step with opponent replies played by the store
+    if (position && this.boardAdapter && !this.playback) {
+      this.boardAdapter.updatePosition(position)
+      if (!this.gameStore.getState().currentHint) {
+        this.boardAdapter.clearHighlights()
+        this.boardAdapter.clearAnnotations()
+      }
+    }
+  }
+
   private updatePuzzleInfo(puzzle: Puzzle): void {
     const infoElement = document.getElementById('puzzle-info')
     if (!infoElement) return
@@ -381,8 +610,69 @@ export const defaultStyles = `
   color: var(--chess-hawk-text-color, #000);
 }
 
-.chess-highlight {
-  border-radius: 3px;
+.chess-hawk-move-input {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.chess-hawk-move-input input {
+  padding: 0.5rem;
+  border: 1px solid #ced4da;
+  border-radius: 0.25rem;
+  font-size: 0.875rem;
+  width: 10rem;
+}
+
+.chess-hawk-playback {
+  display: flex;
+  gap: 0.5rem;
+  align-items: center;
+  flex-wrap: wrap;
+}
+
+.chess-hawk-playback-ply {
+  font-variant-numeric: tabular-nums;
+  color: var(--chess-hawk-text-color, #000);
+}
+
+.chess-hawk-btn:disabled {
+  opacity: 0.5;
+  cursor: default;
+}
+
+.chess-hawk-annotations {
+  overflow: visible;
+}
+
+.chess-hawk-promotion {
+  position: absolute;
+  inset: 0;
+  z-index: 10;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 0.5rem;
+  background-color: rgba(0, 0, 0, 0.4);
+}
+
+.chess-hawk-promotion-piece {
+  width: 12.5%;
+  aspect-ratio: 1;
+  padding: 0.25rem;
+  border: none;
+  border-radius: 50%;
+  background-color: #f8f9fa;
+  cursor: pointer;
+}
+
+.chess-hawk-promotion-piece:hover,
+.chess-hawk-promotion-piece:focus {
+  background-color: #ffeb3b;
+}
+
+.chess-hawk-promotion-piece img {
+  width: 100%;
+  height: 100%;
 }
 `
 
@@ -0,0 +1,173 @@
+/**
+ * Board Annotation Tests
+ * Square geometry for both orientations, right-click drawing and the SVG it renders
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { AnnotationLayer, ANNOTATION_COLORS, squareAtPoint, squareCenter } from './annotations'
+
+/**
+ * Minimal stand-in for a 400px board element, enough for the drawing handlers
+ */
+function createBoardElement() {
+  const listeners: Record<string, EventListener> = {}
+  const element = {
+    style: {} as Record<string, string>,
+    clientLeft: 0,
+    clientTop: 0,
+    clientWidth: 400,
+    addEventListener: (type: string, listener: EventListener) => { listeners[type] = listener },
+    removeEventListener: (type: string) => { delete listeners[type] },
+    querySelector: () => null,
+    getBoundingClientRect: () => ({ left: 0, top: 0, width: 400, height: 400 })
+  }
+
+  const mouse = (type: string, button: number, x: number, y: number, init: Partial<MouseEvent> = {}) => {
+    listeners[type]?.({ button, clientX: x, clientY: y, stopPropagation: () => {}, preventDefault: () => {}, ...init } as unknown as Event)
+  }
+  return { element: element as unknown as HTMLElement, mouse, listeners }
+}
+
+describe('board geometry', () => {
+  it('places squares from white and black', () => {
+    expect(squareCenter('a1')).toEqual({ x: 0.5, y: 7.5 })
+    expect(squareCenter('h8')).toEqual({ x: 7.5, y: 0.5 })
+    expect(squareCenter('a1', 'black')).toEqual({ x: 7.5, y: 0.5 })
+    expect(squareCenter('e4', 'black')).toEqual({ x: 3.5, y: 3.5 })
+    expect(squareCenter('i9')).toBeNull()
+  })
+
+  it('finds the square under a point', () => {
+    expect(squareAtPoint(10, 390, 400)).toBe('a1')
+    expect(squareAtPoint(10, 390, 400, 'black')).toBe('h8')
+    expect(squareAtPoint(225, 175, 400)).toBe('e5')
+    expect(squareAtPoint(400, 10, 400)).toBeNull()
+  })
+})
+
+describe('AnnotationLayer drawing', () => {
+  it('draws an arrow with right-click drag and a mark with right-click', () => {
+    const { element, mouse } = createBoardElement()
+    const onChange = vi.fn()
+    const layer = new AnnotationLayer(element, { onChange })
+
+    mouse('mousedown', 2, 225, 325) // e2
+    mouse('mouseup', 2, 225, 225) // e4
+    mouse('mousedown', 2, 25, 25, { shiftKey: true }) // a8
+    mouse('mouseup', 2, 25, 25, { shiftKey: true })
+
+    expect(layer.getAnnotations()).toEqual({
+      arrows: [{ from: 'e2', to: 'e4', color: ANNOTATION_COLORS.green }],
+      marks: [{ square: 'a8', color: ANNOTATION_COLORS.red }]
+    })
+    expect(onChange).toHaveBeenCalledTimes(2)
+  })
+
+  it('removes a shape drawn twice and clears the drawing on a normal click', () => {
+    const { element, mouse } = createBoardElement()
+    const layer = new AnnotationLayer(element)
+    layer.drawArrow('g1', 'f3', '#4caf50')
+
+    mouse('mousedown', 2, 225, 325)
+    mouse('mouseup', 2, 225, 225)
+    mouse('mousedown', 2, 225, 325)
+    mouse('mouseup', 2, 225, 225)
+    expect(layer.getAnnotations().arrows).toHaveLength(1)
+
+    mouse('mousedown', 2, 25, 25)
+    mouse('mouseup', 2, 25, 25)
+    mouse('mousedown', 0, 25, 25)
+    expect(layer.getAnnotations()).toEqual({ arrows: [{ from: 'g1', to: 'f3', color: '#4caf50' }], marks: [] })
+  })
+
+  it('reads drawn squares from the flipped board', () => {
+    const { element, mouse } = createBoardElement()
+    const layer = new AnnotationLayer(element)
+    layer.setOrientation('black')
+
+    mouse('mousedown', 2, 25, 25)
+    mouse('mouseup', 2, 25, 25)
+
+    expect(layer.getAnnotations().marks[0]?.square).toBe('h1')
+  })
+
+  it('stops listening once destroyed', () => {
+    const { element, listeners } = createBoardElement()
+    const layer = new AnnotationLayer(element)
+
+    layer.destroy()
+
+    expect(Object.keys(listeners)).toEqual([])
+  })
+})
+
+/**
+ * Just enough of an SVG DOM to inspect what a layer renders
+ */
+class FakeSvgNode {
+  attributes: Record<string, string> = {}
+  children: FakeSvgNode[] = []
+  style: Record<string, string> = {}
+  isConnected = true
+
+  constructor(public tagName: string) {}
+
+  setAttribute(name: string, value: string) { this.attributes[name] = value }
+  appendChild(child: FakeSvgNode) { this.children.push(child) }
+  replaceChildren(...children: FakeSvgNode[]) { this.children = children }
+  remove() { this.isConnected = false }
+
+  querySelector(selector: string): FakeSvgNode | null {
+    for (const child of this.children) {
+      if (selector === child.tagName || selector === `#${child.attributes.id}`) return child
+      const found = child.querySelector(selector)
+      if (found) return found
+    }
+    return null
+  }
+
+  all(tagName: string): FakeSvgNode[] {
+    return this.children.flatMap(child => [...(child.tagName === tagName ? [child] : []), ...child.all(tagName)])
+  }
+}
+
+describe('AnnotationLayer rendering', () => {
+  const createElementNS = document.createElementNS
+
+  beforeEach(() => {
+    document.createElementNS = ((_ns: string, tagName: string) => new FakeSvgNode(tagName)) as unknown as typeof document.createElementNS
+  })
+
+  afterEach(() => {
+    document.createElementNS = createElementNS
+  })
+
+  const renderedOverlay = () => {
+    const { element } = createBoardElement()
+    let overlay: FakeSvgNode | null = null
+    Object.assign(element, { appendChild: (node: FakeSvgNode) => { overlay = node } })
+    return { element, overlay: () => overlay! }
+  }
+
+  it('shows an arrow onto its own square as a mark', () => {
+    const { element, overlay } = renderedOverlay()
+    const layer = new AnnotationLayer(element, { drawable: false })
+
+    layer.drawArrow('e4', 'e4', ANNOTATION_COLORS.blue)
+
+    expect(overlay().all('line')).toEqual([])
+    expect(overlay().all('circle')[0]!.attributes).toMatchObject({ cx: '4.5', cy: '4.5', stroke: ANNOTATION_COLORS.blue })
+  })
+
+  it('gives each board its own arrowhead markers', () => {
+    const first = renderedOverlay()
+    const second = renderedOverlay()
+
+    new AnnotationLayer(first.element, { drawable: false }).drawArrow('e2', 'e4', ANNOTATION_COLORS.green)
+    new AnnotationLayer(second.element, { drawable: false }).drawArrow('e2', 'e4', ANNOTATION_COLORS.green)
+
+    const [firstId, secondId] = [first, second].map(({ overlay }) => overlay().all('marker')[0]!.attributes.id)
+    expect(firstId).not.toBe(secondId)
+    expect(second.overlay().all('line')[0]!.attributes['marker-end']).toBe(`url(#${secondId})`)
+  })
+})
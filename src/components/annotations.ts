@@ -0,0 +1,343 @@
+/**
+ * Board Annotations
+ * SVG overlay with arrows, square marks and highlights for chessboard.js boards
+ */
+
+export type BoardOrientation = 'white' | 'black'
+
+export interface BoardArrow {
+  from: string
+  to: string
+  color: string
+}
+
+export interface SquareMark {
+  square: string
+  color: string
+}
+
+export interface AnnotationLayerOptions {
+  orientation?: BoardOrientation
+  drawable?: boolean // right-click drag draws arrows, right-click marks a square
+  onChange?: (annotations: { arrows: BoardArrow[]; marks: SquareMark[] }) => void // user drawing only
+}
+
+// Right-click colours, picked with modifier keys as on Lichess
+export const ANNOTATION_COLORS = {
+  green: '#15781b',
+  red: '#882020',
+  blue: '#003088',
+  yellow: '#e68f00'
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+const FILES = 'abcdefgh'
+
+// Marker ids are document-wide, so each layer prefixes its own
+let layerCount = 0
+
+/**
+ * Centre of a square in board units (0-8 on both axes, top-left origin) as seen from `orientation`
+ */
+export function squareCenter(square: string, orientation: BoardOrientation = 'white'): { x: number; y: number } | null {
+  const file = FILES.indexOf(square.charAt(0))
+  const rank = Number(square.charAt(1))
+  if (square.length !== 2 || file < 0 || !(rank >= 1 && rank <= 8)) return null
+
+  return orientation === 'white'
+    ? { x: file + 0.5, y: 8 - rank + 0.5 }
+    : { x: 7 - file + 0.5, y: rank - 1 + 0.5 }
+}
+
+/**
+ * The square under a point on a board `size` pixels wide, or null outside the board
+ */
+export function squareAtPoint(x: number, y: number, size: number, orientation: BoardOrientation = 'white'): string | null {
+  if (size <= 0 || x < 0 || y < 0 || x >= size || y >= size) return null
+
+  const column = Math.floor((x / size) * 8)
+  const row = Math.floor((y / size) * 8)
+  return orientation === 'white'
+    ? `${FILES[column]}${8 - row}`
+    : `${FILES[7 - column]}${row + 1}`
+}
+
+/**
+ * Annotation overlay for one board element. Annotations are kept as data and
+ * redrawn from board coordinates, so they follow orientation flips and resizes.
+ */
+export class AnnotationLayer {
+  private element: HTMLElement
+  private orientation: BoardOrientation
+  private overlay: SVGSVGElement | null = null
+  private highlights: SquareMark[] = []
+  private arrows: BoardArrow[] = []
+  private marks: SquareMark[] = []
+  private userArrows: BoardArrow[] = []
+  private userMarks: SquareMark[] = []
+  private dragStart: string | null = null
+  private listeners: Array<[string, EventListener]> = []
+  private onChange?: AnnotationLayerOptions['onChange']
+  private markerPrefix = `chess-hawk-arrowhead-${++layerCount}`
+
+  constructor(element: HTMLElement, options: AnnotationLayerOptions = {}) {
+    this.element = element
+    this.orientation = options.orientation || 'white'
+    this.onChange = options.onChange
+
+    if (options.drawable !== false) {
+      this.enableDrawing()
+    }
+  }
+
+  setOrientation(orientation: BoardOrientation): void {
+    this.orientation = orientation
+    this.render()
+  }
+
+  setHighlights(squares: SquareMark[]): void {
+    this.highlights = squares
+    this.render()
+  }
+
+  drawArrow(from: string, to: string, color: string): void {
+    this.arrows.push({ from, to, color })
+    this.render()
+  }
+
+  markSquare(square: string, color: string): void {
+    this.marks.push({ square, color })
+    this.render()
+  }
+
+  /**
+   * Remove arrows and marks, both drawn by the app and by the user. Highlights stay.
+   */
+  clear(): void {
+    this.arrows = []
+    this.marks = []
+    this.userArrows = []
+    this.userMarks = []
+    this.render()
+  }
+
+  getAnnotations(): { arrows: BoardArrow[]; marks: SquareMark[] } {
+    return {
+      arrows: [...this.arrows, ...this.userArrows],
+      marks: [...this.marks, ...this.userMarks]
+    }
+  }
+
+  /**
+   * Redraw everything, e.g. after the board was resized
+   */
+  render(): void {
+    const overlay = this.getOverlay()
+    if (!overlay) return
+
+    this.fitToBoard(overlay)
+    overlay.replaceChildren(document.createElementNS(SVG_NS, 'defs'))
+
+    const { arrows, marks } = this.getAnnotations()
+    this.highlights.forEach(({ square, color }) => this.renderSquare(overlay, square, color, 'fill'))
+    marks.forEach(({ square, color }) => this.renderSquare(overlay, square, color, 'ring'))
+    arrows.forEach(arrow => this.renderArrow(overlay, arrow))
+  }
+
+  destroy(): void {
+    this.listeners.forEach(([type, listener]) => this.element.removeEventListener(type, listener, true))
+    this.listeners = []
+    this.overlay?.remove()
+    this.overlay = null
+  }
+
+  private enableDrawing(): void {
+    this.listen('contextmenu', event => event.preventDefault())
+
+    this.listen('mousedown', event => {
+      const mouse = event as MouseEvent
+      if (mouse.button === 2) {
+        // Keep chessboard.js from picking up the piece under the cursor
+        mouse.stopPropagation()
+        this.dragStart = this.squareFromEvent(mouse)
+      } else if (mouse.button === 0 && (this.userArrows.length > 0 || this.userMarks.length > 0)) {
+        // A normal click wipes the user's drawing, as on Lichess
+        this.userArrows = []
+        this.userMarks = []
+        this.render()
+        this.notify()
+      }
+    })
+
+    this.listen('mouseup', event => {
+      const mouse = event as MouseEvent
+      if (mouse.button !== 2 || !this.dragStart) return
+
+      const from = this.dragStart
+      const to = this.squareFromEvent(mouse)
+      this.dragStart = null
+      if (!to) return
+
+      const color = drawingColor(mouse)
+      if (from === to) {
+        this.userMarks = toggle(this.userMarks, { square: to, color }, mark => mark.square === to)
+      } else {
+        this.userArrows = toggle(this.userArrows, { from, to, color }, arrow => arrow.from === from && arrow.to === to)
+      }
+      this.render()
+      this.notify()
+    })
+  }
+
+  private listen(type: string, listener: EventListener): void {
+    // Capture phase, so the overlay sees the events before the board's own handlers
+    this.element.addEventListener(type, listener, true)
+    this.listeners.push([type, listener])
+  }
+
+  private notify(): void {
+    this.onChange?.({ arrows: [...this.userArrows], marks: [...this.userMarks] })
+  }
+
+  private squareFromEvent(event: MouseEvent): string | null {
+    const surface = this.boardSurface()
+    const rect = surface.getBoundingClientRect()
+    const x = event.clientX - rect.left - surface.clientLeft
+    const y = event.clientY - rect.top - surface.clientTop
+    return squareAtPoint(x, y, surface.clientWidth, this.orientation)
+  }
+
+  /**
+   * chessboard.js redraws its inner board on flips, so the overlay lives on the
+   * container and is fitted over the square area instead.
+   */
+  private boardSurface(): HTMLElement {
+    return this.element.querySelector<HTMLElement>('.board-b72b1') || this.element
+  }
+
+  private getOverlay(): SVGSVGElement | null {
+    // Nothing to draw on without an SVG-capable DOM, e.g. during server rendering
+    if (typeof document === 'undefined' || typeof document.createElementNS !== 'function') return null
+    if (this.overlay?.isConnected) return this.overlay
+
+    const overlay = document.createElementNS(SVG_NS, 'svg')
+    overlay.setAttribute('class', 'chess-hawk-annotations')
+    overlay.setAttribute('viewBox', '0 0 8 8')
+    overlay.setAttribute('preserveAspectRatio', 'none')
+    overlay.style.cssText = 'position: absolute; pointer-events: none; z-index: 3;'
+
+    if (!this.element.style.position) {
+      this.element.style.position = 'relative'
+    }
+    this.element.appendChild(overlay)
+    this.overlay = overlay
+    return overlay
+  }
+
+  private fitToBoard(overlay: SVGSVGElement): void {
+    const surface = this.boardSurface()
+    const container = this.element.getBoundingClientRect()
+    const board = surface.getBoundingClientRect()
+    const inset = surface === this.element ? 0 : surface.clientLeft // skip the board border
+
+    overlay.style.left = `${board.left - container.left + inset}px`
+    overlay.style.top = `${board.top - container.top + inset}px`
+    overlay.style.width = `${surface.clientWidth}px`
+    overlay.style.height = `${surface.clientHeight}px`
+  }
+
+  private renderSquare(overlay: SVGSVGElement, square: string, color: string, style: 'fill' | 'ring'): void {
+    const center = squareCenter(square, this.orientation)
+    if (!center) return
+
+    if (style === 'fill') {
+      const rect = document.createElementNS(SVG_NS, 'rect')
+      rect.setAttribute('x', String(center.x - 0.5))
+      rect.setAttribute('y', String(center.y - 0.5))
+      rect.setAttribute('width', '1')
+      rect.setAttribute('height', '1')
+      rect.setAttribute('fill', color)
+      rect.setAttribute('opacity', '0.4')
+      overlay.appendChild(rect)
+    } else {
+      const circle = document.createElementNS(SVG_NS, 'circle')
+      circle.setAttribute('cx', String(center.x))
+      circle.setAttribute('cy', String(center.y))
+      circle.setAttribute('r', '0.45')
+      circle.setAttribute('fill', 'none')
+      circle.setAttribute('stroke', color)
+      circle.setAttribute('stroke-width', '0.07')
+      circle.setAttribute('opacity', '0.8')
+      overlay.appendChild(circle)
+    }
+  }
+
+  private renderArrow(overlay: SVGSVGElement, { from, to, color }: BoardArrow): void {
+    // An arrow onto its own square has no direction; show it as a mark
+    if (from === to) {
+      this.renderSquare(overlay, from, color, 'ring')
+      return
+    }
+
+    const start = squareCenter(from, this.orientation)
+    const end = squareCenter(to, this.orientation)
+    if (!start || !end) return
+
+    // Stop short of the centre so the head ends inside the target square
+    const length = Math.hypot(end.x - start.x, end.y - start.y)
+    const shorten = Math.min(0.35, length / 2) / length
+
+    const line = document.createElementNS(SVG_NS, 'line')
+    line.setAttribute('x1', String(start.x))
+    line.setAttribute('y1', String(start.y))
+    line.setAttribute('x2', String(end.x - (end.x - start.x) * shorten))
+    line.setAttribute('y2', String(end.y - (end.y - start.y) * shorten))
+    line.setAttribute('stroke', color)
+    line.setAttribute('stroke-width', '0.16')
+    line.setAttribute('stroke-linecap', 'round')
+    line.setAttribute('opacity', '0.8')
+    line.setAttribute('marker-end', `url(#${this.getMarkerId(overlay, color)})`)
+    overlay.appendChild(line)
+  }
+
+  /**
+   * Arrow heads take the stroke colour, so each colour gets its own marker
+   */
+  private getMarkerId(overlay: SVGSVGElement, color: string): string {
+    const id = `${this.markerPrefix}-${color.replace(/[^a-zA-Z0-9]/g, '')}`
+    if (overlay.querySelector(`#${id}`)) return id
+
+    const marker = document.createElementNS(SVG_NS, 'marker')
+    marker.setAttribute('id', id)
+    marker.setAttribute('viewBox', '0 0 10 10')
+    marker.setAttribute('refX', '2')
+    marker.setAttribute('refY', '5')
+    marker.setAttribute('markerWidth', '2.5')
+    marker.setAttribute('markerHeight', '2.5')
+    marker.setAttribute('orient', 'auto')
+
+    const head = document.createElementNS(SVG_NS, 'path')
+    head.setAttribute('d', 'M 0 0 L 10 5 L 0 10 z')
+    head.setAttribute('fill', color)
+    marker.appendChild(head)
+
+    overlay.querySelector('defs')?.appendChild(marker)
+    return id
+  }
+}
+
+function drawingColor(event: MouseEvent): string {
+  if (event.shiftKey && event.altKey) return ANNOTATION_COLORS.yellow
+  if (event.shiftKey) return ANNOTATION_COLORS.red
+  if (event.altKey) return ANNOTATION_COLORS.blue
+  return ANNOTATION_COLORS.green
+}
+
+/**
+ * Drawing the same shape again removes it; drawing it in another colour replaces it
+ */
+function toggle<T extends { color: string }>(items: T[], item: T, same: (existing: T) => boolean): T[] {
+  const existing = items.find(same)
+  const rest = items.filter(other => !same(other))
+  return existing && existing.color === item.color ? rest : [...rest, item]
+}
@@ -3,6 +3,9 @@
  * Cross-platform component abstractions
  */
 
+import { AnnotationLayer } from './annotations'
+import { chessHawkThemes } from './themes'
+
 // Base component interfaces
 export interface ChessBoardProps {
   position?: string // FEN string
@@ -44,6 +47,9 @@ export abstract class ChessBoardComponent {
   abstract setOrientation(orientation: 'white' | 'black'): void
   abstract highlightSquares(squares: Array<{ square: string; color: string }>): void
   abstract clearHighlights(): void
+  abstract drawArrow(from: string, to: string, color: string): void
+  abstract markSquare(square: string, color: string): void
+  abstract clearAnnotations(): void
   abstract makeMove(move: { from: string; to: string; promotion?: string }): boolean
   abstract destroy(): void
 }
@@ -77,6 +83,7 @@ export abstract class GameControlsComponent {
 export class WebChessBoard extends ChessBoardComponent {
   private board: any
   private element: HTMLElement | null = null
+  private annotations: AnnotationLayer | null = null
 
   constructor(props: ChessBoardProps & { elementId?: string }) {
     super(props)
@@ -105,13 +112,18 @@ export class WebChessBoard extends ChessBoardComponent {
         position: this.props.position || 'start',
         orientation: this.props.orientation || 'white',
         showNotation: this.props.showNotation !== false,
-        pieceTheme: this.props.pieceTheme || '/img/chesspieces/wikipedia/{piece}.png',
+        pieceTheme: this.props.pieceTheme || chessHawkThemes.getPieceSet(),
         onDrop: this.props.onMove ? (source: string, target: string) => {
           if (this.props.onMove) {
             this.props.onMove({ from: source, to: target })
           }
         } : undefined
       })
+      this.annotations = new AnnotationLayer(this.element, { orientation: this.props.orientation })
+
+      if (this.props.highlights && this.props.highlights.length > 0) {
+        this.highlightSquares(this.props.highlights)
+      }
 
       return this.element
     } catch (error) {
@@ -130,16 +142,27 @@ export class WebChessBoard extends ChessBoardComponent {
     if (this.board) {
       this.board.orientation(orientation)
     }
+    this.annotations?.setOrientation(orientation)
   }
 
   highlightSquares(squares: Array<{ square: string; color: string }>): void {
-    // Implementation depends on chessboard.js capabilities
-    console.log('Highlighting squares:', squares)
+    this.annotations?.setHighlights(squares)
   }
 
   clearHighlights(): void {
-    // Implementation depends on chessboard.js capabilities
-    console.log('Clearing highlights')
+    this.annotations?.setHighlights([])
+  }
+
+  drawArrow(from: string, to: string, color: string): void {
+    this.annotations?.drawArrow(from, to, color)
+  }
+
+  markSquare(square: string, color: string): void {
+    this.annotations?.markSquare(square, color)
+  }
+
+  clearAnnotations(): void {
+    this.annotations?.clear()
   }
 
   makeMove(move: { from: string; to: string; promotion?: string }): boolean {
@@ -151,6 +174,8 @@ export class WebChessBoard extends ChessBoardComponent {
   }
 
   destroy(): void {
+    this.annotations?.destroy()
+    this.annotations = null
     if (this.board && this.board.destroy) {
       this.board.destroy()
     }
@@ -186,4 +211,7 @@ export class ComponentFactory {
 
 // Re-export types
 import type { Puzzle } from '../stores/GameStore'
-export type { Puzzle }
\ No newline at end of file
+export type { Puzzle }
+export { AnnotationLayer, ANNOTATION_COLORS, type BoardArrow, type SquareMark } from './annotations'
+export { PromotionPicker, type PromotionPickerOptions } from './promotion'
+export { ThemeRegistry, chessHawkThemes, applyBoardTheme, pieceImage, type BoardTheme, type PieceSet } from './themes'
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * Promotion Picker Tests
+ * Choosing, dismissing and replacing the promotion dialog
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { PromotionPicker } from './promotion'
+
+interface FakeElement {
+  tag: string
+  children: FakeElement[]
+  dataset: Record<string, string>
+  style: Record<string, string>
+  src?: string
+  parent?: FakeElement
+  listeners: Record<string, (event: unknown) => void>
+  setAttribute: (name: string, value: string) => void
+  addEventListener: (type: string, listener: (event: unknown) => void) => void
+  appendChild: (child: FakeElement) => void
+  querySelector: () => FakeElement | null
+  remove: () => void
+  focus: () => void
+}
+
+/**
+ * Just enough of the DOM for the picker: elements that keep their children and listeners
+ */
+function createFakeElement(tag: string): FakeElement {
+  const element: FakeElement = {
+    tag,
+    children: [],
+    dataset: {},
+    style: {},
+    listeners: {},
+    setAttribute: () => {},
+    addEventListener: (type, listener) => { element.listeners[type] = listener },
+    appendChild: child => {
+      child.parent = element
+      element.children.push(child)
+    },
+    querySelector: () => element.children[0] || null,
+    remove: () => {
+      if (element.parent) {
+        element.parent.children = element.parent.children.filter(child => child !== element)
+      }
+    },
+    focus: () => {}
+  }
+  return element
+}
+
+describe('PromotionPicker', () => {
+  let board: FakeElement
+  let keyListeners: Array<(event: unknown) => void>
+
+  beforeEach(() => {
+    board = createFakeElement('div')
+    keyListeners = []
+    vi.stubGlobal('document', {
+      createElement: createFakeElement,
+      addEventListener: (_type: string, listener: (event: unknown) => void) => keyListeners.push(listener),
+      removeEventListener: (_type: string, listener: (event: unknown) => void) => {
+        keyListeners = keyListeners.filter(other => other !== listener)
+      }
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const dialog = () => board.children[0]
+  const button = (piece: string) => dialog()?.children.find(child => child.dataset.piece === piece)
+
+  it('offers the four pieces in the mover\'s colour and resolves with the one clicked', async () => {
+    const picker = new PromotionPicker(board as unknown as HTMLElement, { pieceTheme: '/pieces/{piece}.svg' })
+    const choice = picker.choose('b')
+
+    expect(dialog()?.children.map(child => child.dataset.piece)).toEqual(['q', 'n', 'r', 'b'])
+    expect(button('n')?.children[0]?.src).toBe('/pieces/bN.svg')
+
+    button('n')?.listeners.click?.({})
+
+    await expect(choice).resolves.toBe('n')
+    expect(board.children).toEqual([])
+    expect(picker.isOpen).toBe(false)
+    expect(keyListeners).toEqual([])
+  })
+
+  it('resolves with null when dismissed with Escape or a click beside the pieces', async () => {
+    const picker = new PromotionPicker(board as unknown as HTMLElement)
+
+    const escaped = picker.choose('w')
+    keyListeners[0]?.({ key: 'Escape' })
+    await expect(escaped).resolves.toBeNull()
+
+    const clickedAway = picker.choose('w')
+    dialog()?.listeners.click?.({ target: dialog() })
+    await expect(clickedAway).resolves.toBeNull()
+  })
+
+  it('dismisses the open question when asked again', async () => {
+    const picker = new PromotionPicker(board as unknown as HTMLElement)
+
+    const first = picker.choose('w')
+    const second = picker.choose('w')
+    button('r')?.listeners.click?.({})
+
+    await expect(first).resolves.toBeNull()
+    await expect(second).resolves.toBe('r')
+    expect(board.children).toEqual([])
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Promotion Picker
+ * Dialog over a chessboard.js board for choosing the piece a pawn promotes to
+ */
+
+import { chessHawkThemes, pieceImage, type PieceSet } from './themes'
+import { PROMOTION_PIECES, type PromotionPiece } from '../utils/move-input'
+
+export interface PromotionPickerOptions {
+  pieceTheme?: PieceSet // defaults to the classic set
+  labels?: Partial<Record<PromotionPiece, string>>
+}
+
+const DEFAULT_LABELS: Record<PromotionPiece, string> = {
+  q: 'Dronning',
+  r: 'Tårn',
+  b: 'Løper',
+  n: 'Springer'
+}
+
+/**
+ * One picker per board element. `choose` opens the dialog and resolves with the
+ * chosen piece, or null when it is dismissed with Escape or a click beside the pieces.
+ */
+export class PromotionPicker {
+  private element: HTMLElement
+  private options: PromotionPickerOptions
+  private dialog: HTMLElement | null = null
+  private keyListener: ((event: KeyboardEvent) => void) | null = null
+  private resolve: ((piece: PromotionPiece | null) => void) | null = null
+
+  constructor(element: HTMLElement, options: PromotionPickerOptions = {}) {
+    this.element = element
+    this.options = options
+  }
+
+  get isOpen(): boolean {
+    return this.dialog !== null
+  }
+
+  setPieceTheme(pieceTheme: PieceSet): void {
+    this.options = { ...this.options, pieceTheme }
+  }
+
+  choose(color: 'w' | 'b'): Promise<PromotionPiece | null> {
+    // A new question dismisses the one still open
+    this.close()
+
+    // Nothing to ask with outside a browser, so promote to a queen as before
+    if (typeof document === 'undefined' || typeof document.createElement !== 'function') {
+      return Promise.resolve('q')
+    }
+
+    return new Promise(resolve => {
+      this.resolve = resolve
+      this.open(color)
+    })
+  }
+
+  /**
+   * Dismiss the dialog; a pending `choose` resolves with null
+   */
+  close(): void {
+    this.finish(null)
+  }
+
+  destroy(): void {
+    this.close()
+  }
+
+  private open(color: 'w' | 'b'): void {
+    const dialog = document.createElement('div')
+    dialog.className = 'chess-hawk-promotion'
+    dialog.setAttribute('role', 'dialog')
+    dialog.setAttribute('aria-label', 'Velg brikke')
+    dialog.addEventListener('click', event => {
+      if (event.target === dialog) this.finish(null)
+    })
+
+    PROMOTION_PIECES.forEach(piece => {
+      const label = this.options.labels?.[piece] || DEFAULT_LABELS[piece]
+      const button = document.createElement('button')
+      button.type = 'button'
+      button.className = 'chess-hawk-promotion-piece'
+      button.dataset.piece = piece
+      button.title = label
+      button.setAttribute('aria-label', label)
+
+      const image = document.createElement('img')
+      image.src = pieceImage(this.options.pieceTheme || chessHawkThemes.getPieceSet(), `${color}${piece.toUpperCase()}`)
+      image.alt = ''
+      button.appendChild(image)
+
+      button.addEventListener('click', () => this.finish(piece))
+      dialog.appendChild(button)
+    })
+
+    this.keyListener = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') this.finish(null)
+    }
+    document.addEventListener('keydown', this.keyListener)
+
+    if (!this.element.style.position) {
+      this.element.style.position = 'relative'
+    }
+    this.element.appendChild(dialog)
+    this.dialog = dialog
+    dialog.querySelector<HTMLButtonElement>('button')?.focus()
+  }
+
+  private finish(piece: PromotionPiece | null): void {
+    if (this.keyListener) {
+      document.removeEventListener('keydown', this.keyListener)
+      this.keyListener = null
+    }
+    this.dialog?.remove()
+    this.dialog = null
+
+    const resolve = this.resolve
+    this.resolve = null
+    resolve?.(piece)
+  }
+}
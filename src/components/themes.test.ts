@@ -0,0 +1,57 @@
+/**
+ * Board Theme Tests
+ * Built-in and registered themes, fallbacks and applying colours to a board
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ThemeRegistry, applyBoardTheme, chessHawkThemes, pieceImage } from './themes'
+
+describe('chessHawkThemes', () => {
+  it('covers every board theme in UserSettings and the bundled piece set', () => {
+    expect(chessHawkThemes.getBoardThemeNames()).toEqual(['brown', 'blue', 'green', 'purple'])
+    expect(chessHawkThemes.getPieceSetNames()).toEqual(['classic'])
+    expect(chessHawkThemes.getBoardTheme('brown')).toEqual({ lightSquare: '#f0d9b5', darkSquare: '#b58863' })
+    expect(pieceImage(chessHawkThemes.getPieceSet('classic'), 'wK')).toBe('src/img/chesspieces/wikipedia/wK.png')
+  })
+
+  it('falls back to the default theme and set for unknown names', () => {
+    expect(chessHawkThemes.getBoardTheme('tartan')).toBe(chessHawkThemes.getBoardTheme('brown'))
+    expect(chessHawkThemes.getPieceSet('tartan')).toBe(chessHawkThemes.getPieceSet('classic'))
+    expect(chessHawkThemes.getPieceSet('neo')).toBe(chessHawkThemes.getPieceSet('classic'))
+    expect(console.warn).toHaveBeenCalledWith("Unknown board theme 'tartan', using 'brown'")
+  })
+})
+
+describe('ThemeRegistry', () => {
+  it('serves themes and SVG piece sets registered by integrators', () => {
+    const registry = new ThemeRegistry()
+    registry.registerBoardTheme('brown', { lightSquare: '#eee', darkSquare: '#888' })
+    registry.registerBoardTheme('ice', { lightSquare: '#fff', darkSquare: '#9cf' })
+    registry.registerPieceSet('classic', '/pieces/{piece}.png')
+    registry.registerPieceSet('inline', piece => `data:image/svg+xml,<svg id="${piece}"/>`)
+
+    expect(registry.getBoardTheme('ice').darkSquare).toBe('#9cf')
+    expect(pieceImage(registry.getPieceSet('inline'), 'bN')).toBe('data:image/svg+xml,<svg id="bN"/>')
+    expect(pieceImage(registry.getPieceSet(), 'bN')).toBe('/pieces/bN.png')
+  })
+
+  it('throws when neither the name nor the default is registered', () => {
+    const registry = new ThemeRegistry()
+
+    expect(() => registry.getBoardTheme('ice')).toThrow("Board theme 'ice' is not registered")
+    expect(() => registry.getPieceSet('inline')).toThrow("Piece set 'inline' is not registered")
+  })
+})
+
+describe('applyBoardTheme', () => {
+  it('sets the square colours as CSS variables on the board element', () => {
+    const properties: Record<string, string> = {}
+    const element = {
+      style: { setProperty: (name: string, value: string) => { properties[name] = value } }
+    } as unknown as HTMLElement
+
+    applyBoardTheme(element, chessHawkThemes.getBoardTheme('green'))
+
+    expect(properties).toEqual({ '--chess-hawk-light-square': '#ffffdd', '--chess-hawk-dark-square': '#86a666' })
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Board Themes
+ * Registry of square colours and piece sets behind UserSettings.boardTheme and pieceTheme
+ */
+
+export interface BoardTheme {
+  lightSquare: string
+  darkSquare: string
+}
+
+/**
+ * Piece images in chessboard.js format: a URL template with `{piece}` (wK, bN, ...)
+ * or a function returning the image source, e.g. an SVG data URI
+ */
+export type PieceSet = string | ((piece: string) => string)
+
+export const DEFAULT_BOARD_THEME = 'brown'
+export const DEFAULT_PIECE_SET = 'classic'
+
+// Square classes chessboard.js gives its light and dark squares
+const LIGHT_SQUARE_CLASS = 'white-1e1d7'
+const DARK_SQUARE_CLASS = 'black-3c85d'
+const THEMED_CLASS = 'chess-hawk-themed'
+const STYLE_ID = 'chess-hawk-board-theme'
+
+/**
+ * Named board themes and piece sets. Integrators register their own next to the
+ * built-in ones and select them through the same settings.
+ */
+export class ThemeRegistry {
+  private boardThemes: Map<string, BoardTheme> = new Map()
+  private pieceSets: Map<string, PieceSet> = new Map()
+
+  registerBoardTheme(name: string, theme: BoardTheme): void {
+    this.boardThemes.set(name, theme)
+  }
+
+  registerPieceSet(name: string, pieceSet: PieceSet): void {
+    this.pieceSets.set(name, pieceSet)
+  }
+
+  /**
+   * The named theme, or the default one when nothing is registered under that name
+   */
+  getBoardTheme(name: string = DEFAULT_BOARD_THEME): BoardTheme {
+    const theme = this.boardThemes.get(name)
+    if (theme) return theme
+
+    const fallback = this.boardThemes.get(DEFAULT_BOARD_THEME)
+    if (!fallback) {
+      throw new Error(`Board theme '${name}' is not registered`)
+    }
+    console.warn(`Unknown board theme '${name}', using '${DEFAULT_BOARD_THEME}'`)
+    return fallback
+  }
+
+  getPieceSet(name: string = DEFAULT_PIECE_SET): PieceSet {
+    const pieceSet = this.pieceSets.get(name)
+    if (pieceSet) return pieceSet
+
+    const fallback = this.pieceSets.get(DEFAULT_PIECE_SET)
+    if (!fallback) {
+      throw new Error(`Piece set '${name}' is not registered`)
+    }
+    console.warn(`Unknown piece set '${name}', using '${DEFAULT_PIECE_SET}'`)
+    return fallback
+  }
+
+  getBoardThemeNames(): string[] {
+    return [...this.boardThemes.keys()]
+  }
+
+  getPieceSetNames(): string[] {
+    return [...this.pieceSets.keys()]
+  }
+}
+
+export const chessHawkThemes = new ThemeRegistry()
+
+chessHawkThemes.registerBoardTheme('brown', { lightSquare: '#f0d9b5', darkSquare: '#b58863' })
+chessHawkThemes.registerBoardTheme('blue', { lightSquare: '#dee3e6', darkSquare: '#8ca2ad' })
+chessHawkThemes.registerBoardTheme('green', { lightSquare: '#ffffdd', darkSquare: '#86a666' })
+chessHawkThemes.registerBoardTheme('purple', { lightSquare: '#e5e0f0', darkSquare: '#9c88b8' })
+
+// Only the wikipedia set ships with the app (served from src/img, as in the legacy
+// board); other UserSettings.pieceTheme values fall back to it until registered
+chessHawkThemes.registerPieceSet('classic', 'src/img/chesspieces/wikipedia/{piece}.png')
+
+/**
+ * Image source for one piece (e.g. 'wQ') in a set
+ */
+export function pieceImage(pieceSet: PieceSet, piece: string): string {
+  return typeof pieceSet === 'function' ? pieceSet(piece) : pieceSet.replace('{piece}', piece)
+}
+
+/**
+ * Colour the squares of a chessboard.js board. The colours are CSS variables on
+ * the board element, so redrawn squares (flips, resizes) keep the theme.
+ */
+export function applyBoardTheme(element: HTMLElement, theme: BoardTheme): void {
+  ensureThemeStyles()
+  element.classList?.add(THEMED_CLASS)
+  element.style.setProperty('--chess-hawk-light-square', theme.lightSquare)
+  element.style.setProperty('--chess-hawk-dark-square', theme.darkSquare)
+}
+
+function ensureThemeStyles(): void {
+  if (typeof document === 'undefined' || !document.head) return
+  if (document.getElementById(STYLE_ID)) return
+
+  const style = document.createElement('style')
+  style.id = STYLE_ID
+  style.textContent = `
+.${THEMED_CLASS} .${LIGHT_SQUARE_CLASS} {
+  background-color: var(--chess-hawk-light-square);
+  color: var(--chess-hawk-dark-square);
+}
+
+.${THEMED_CLASS} .${DARK_SQUARE_CLASS} {
+  background-color: var(--chess-hawk-dark-square);
+  color: var(--chess-hawk-light-square);
+}
+`
+  document.head.appendChild(style)
+}
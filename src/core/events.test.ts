@@ -0,0 +1,105 @@
+/**
+ * Event Bus Tests
+ * Subscription, one-off handlers and isolation of failing handlers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ChessHawkEventBus, chessHawkEvents } from './events'
+import { chessHawk } from './index'
+
+describe('ChessHawkEventBus', () => {
+  it('calls handlers with the typed event until they unsubscribe', () => {
+    const bus = new ChessHawkEventBus()
+    const handler = vi.fn()
+    const unsubscribe = bus.on('game_paused', handler)
+
+    bus.emit('game_paused', { timestamp: 1 })
+    unsubscribe()
+    bus.emit('game_paused', { timestamp: 2 })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith({ type: 'game_paused', timestamp: 1 })
+  })
+
+  it('removes a handler with off', () => {
+    const bus = new ChessHawkEventBus()
+    const handler = vi.fn()
+    bus.on('hint_requested', handler)
+    bus.off('hint_requested', handler)
+
+    bus.emit('hint_requested', {})
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(bus.listenerCount('hint_requested')).toBe(0)
+  })
+
+  it('calls once handlers a single time', () => {
+    const bus = new ChessHawkEventBus()
+    const handler = vi.fn()
+    bus.once('puzzle_solved', handler)
+
+    bus.emit('puzzle_solved', { success: true })
+    bus.emit('puzzle_solved', { success: true })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps calling other handlers when one throws', () => {
+    const bus = new ChessHawkEventBus()
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const handler = vi.fn()
+    bus.on('move_made', () => { throw new Error('boom') })
+    bus.on('move_made', handler)
+
+    bus.emit('move_made', { success: true })
+
+    expect(handler).toHaveBeenCalled()
+    expect(errorSpy).toHaveBeenCalled()
+    errorSpy.mockRestore()
+  })
+})
+
+describe('ChessHawkCore events', () => {
+  afterEach(() => {
+    chessHawkEvents.removeAllListeners()
+  })
+
+  it('exposes the shared bus through on, once and off', () => {
+    const handler = vi.fn()
+    const onceHandler = vi.fn()
+    chessHawk.on('game_started', handler)
+    chessHawk.once('game_started', onceHandler)
+
+    chessHawkEvents.emit('game_started', { timestamp: 1 })
+    chessHawk.off('game_started', handler)
+    chessHawkEvents.emit('game_started', { timestamp: 2 })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(onceHandler).toHaveBeenCalledTimes(1)
+  })
+
+  it('removes only its own handlers on destroy', async () => {
+    const own = vi.fn()
+    const other = vi.fn()
+    chessHawk.on('puzzle_loaded', own)
+    chessHawkEvents.on('puzzle_loaded', other)
+
+    await chessHawk.destroy()
+    chessHawkEvents.emit('puzzle_loaded', {})
+
+    expect(own).not.toHaveBeenCalled()
+    expect(other).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not remove a handler added to the bus after the core let it go', async () => {
+    const handler = vi.fn()
+    chessHawk.on('puzzle_loaded', handler)
+    chessHawk.off('puzzle_loaded', handler)
+    chessHawkEvents.on('puzzle_loaded', handler)
+
+    await chessHawk.destroy()
+    chessHawkEvents.emit('puzzle_loaded', {})
+
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+})
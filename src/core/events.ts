@@ -0,0 +1,93 @@
+/**
+ * Chess Hawk Event Bus
+ * Typed puzzle and game events for embedding apps
+ */
+
+import type { PuzzleEvent, GameEvent } from '../types'
+
+export type PuzzleEventType = PuzzleEvent['type']
+export type GameEventType = GameEvent['type']
+export type ChessHawkEventType = PuzzleEventType | GameEventType
+
+export type ChessHawkEventMap = {
+  [K in PuzzleEventType]: PuzzleEvent & { type: K }
+} & {
+  [K in GameEventType]: GameEvent & { type: K }
+}
+
+export type ChessHawkEvent = ChessHawkEventMap[ChessHawkEventType]
+
+export type ChessHawkEventHandler<K extends ChessHawkEventType> = (event: ChessHawkEventMap[K]) => void
+
+type AnyEventHandler = (event: ChessHawkEvent) => void
+
+interface Listener {
+  handler: AnyEventHandler
+  once: boolean
+}
+
+export class ChessHawkEventBus {
+  private listeners: Map<ChessHawkEventType, Listener[]> = new Map()
+
+  /**
+   * Subscribe to an event. Returns a function that unsubscribes.
+   */
+  on<K extends ChessHawkEventType>(type: K, handler: ChessHawkEventHandler<K>): () => void {
+    return this.add(type, handler, false)
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends ChessHawkEventType>(type: K, handler: ChessHawkEventHandler<K>): () => void {
+    return this.add(type, handler, true)
+  }
+
+  off<K extends ChessHawkEventType>(type: K, handler: ChessHawkEventHandler<K>): void {
+    const remaining = (this.listeners.get(type) || []).filter(listener => listener.handler !== handler)
+    this.listeners.set(type, remaining)
+  }
+
+  /**
+   * Call every handler for the event. A throwing handler is logged and does not stop the others.
+   */
+  emit<K extends ChessHawkEventType>(type: K, event: Omit<ChessHawkEventMap[K], 'type'>): void {
+    const listeners = this.listeners.get(type)
+    if (!listeners || listeners.length === 0) return
+
+    this.listeners.set(type, listeners.filter(listener => !listener.once))
+
+    const payload = { ...event, type } as ChessHawkEventMap[K]
+    listeners.forEach(listener => {
+      try {
+        listener.handler(payload)
+      } catch (error) {
+        console.error(`Chess Hawk ${type} handler failed:`, error)
+      }
+    })
+  }
+
+  listenerCount(type: ChessHawkEventType): number {
+    return this.listeners.get(type)?.length || 0
+  }
+
+  /**
+   * Remove the handlers for one event, or for all events
+   */
+  removeAllListeners(type?: ChessHawkEventType): void {
+    if (type) {
+      this.listeners.delete(type)
+    } else {
+      this.listeners.clear()
+    }
+  }
+
+  private add<K extends ChessHawkEventType>(type: K, handler: ChessHawkEventHandler<K>, once: boolean): () => void {
+    // Only events of type K are ever passed to this handler
+    this.listeners.set(type, [...(this.listeners.get(type) || []), { handler: handler as AnyEventHandler, once }])
+    return () => this.off(type, handler)
+  }
+}
+
+// Shared bus: GameStore emits here, ChessHawkCore exposes it
+export const chessHawkEvents = new ChessHawkEventBus()
@@ -3,10 +3,22 @@
  * Central orchestrator and legacy compatibility layer
  */
 
+import { chessHawkEvents, type ChessHawkEventBus, type ChessHawkEventHandler, type ChessHawkEventType } from './events'
+import { legacyModulesPlugin, sortPlugins, type ChessHawkPlugin, type ChessHawkPluginContext } from './plugins'
+import { ServiceInitializationError } from '../types'
+import type { PuzzleServiceConfig } from '../services/PuzzleService'
+
+export * from './events'
+export * from './plugins'
+
 export class ChessHawkCore {
   private static instance: ChessHawkCore
   private modules: Map<string, unknown> = new Map()
   private initialized = false
+  private events: ChessHawkEventBus = chessHawkEvents
+  private subscriptions: Map<() => void, { type: ChessHawkEventType; handler: unknown }> = new Map() // made through on/once, removed on destroy
+  private plugins: ChessHawkPlugin[] = []
+  private activePlugins: ChessHawkPlugin[] = [] // in setup order
 
   private constructor() {}
 
@@ -28,12 +40,14 @@ export class ChessHawkCore {
 
     try {
       // Initialize services
-      await this.initializeServices(config)
+      const context = await this.initializeServices(config)
       
-      // Initialize UI components (if in browser)
-      if (typeof window !== 'undefined') {
-        await this.initializeUI(config)
+      // Legacy UI modules load as a plugin (if in browser)
+      const plugins = [...this.plugins, ...(config.plugins || [])]
+      if (typeof window !== 'undefined' && config.enableLegacyUI !== false) {
+        plugins.unshift(legacyModulesPlugin)
       }
+      await this.setupPlugins(sortPlugins(plugins), context)
 
       this.initialized = true
       console.log('✅ Chess Hawk Core initialized successfully')
@@ -43,6 +57,31 @@ export class ChessHawkCore {
     }
   }
 
+  /**
+   * Tear down plugins in reverse setup order and return to the uninitialized state.
+   * Teardown errors are logged so every plugin gets the chance to clean up.
+   */
+  async destroy(): Promise<void> {
+    await this.teardownPlugins()
+
+    // The bus is shared, so only this core's own handlers are removed
+    this.subscriptions.forEach((_, unsubscribe) => unsubscribe())
+    this.subscriptions.clear()
+    this.modules.clear()
+    this.initialized = false
+  }
+
+  /**
+   * Add a plugin to set up on initialize
+   */
+  use(plugin: ChessHawkPlugin): this {
+    if (this.initialized) {
+      throw new ServiceInitializationError(`plugin ${plugin.name}`, new Error('Plugins must be added before initialize()'))
+    }
+    this.plugins.push(plugin)
+    return this
+  }
+
   /**
    * Get a module by name
    */
@@ -57,6 +96,28 @@ export class ChessHawkCore {
     this.modules.set(name, module)
   }
 
+  /**
+   * Subscribe to a puzzle or game event. Returns a function that unsubscribes.
+   */
+  on<K extends ChessHawkEventType>(type: K, handler: ChessHawkEventHandler<K>): () => void {
+    return this.track(type, handler, this.events.on(type, handler))
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends ChessHawkEventType>(type: K, handler: ChessHawkEventHandler<K>): () => void {
+    return this.track(type, handler, this.events.once(type, handler))
+  }
+
+  off<K extends ChessHawkEventType>(type: K, handler: ChessHawkEventHandler<K>): void {
+    // Forget the subscription too, so destroy can't remove a handler added to the bus later
+    this.subscriptions.forEach((subscription, remove) => {
+      if (subscription.type === type && subscription.handler === handler) this.subscriptions.delete(remove)
+    })
+    this.events.off(type, handler)
+  }
+
   /**
    * Check if core is initialized
    */
@@ -64,7 +125,16 @@ export class ChessHawkCore {
     return this.initialized
   }
 
-  private async initializeServices(config: ChessHawkConfig): Promise<void> {
+  private track(type: ChessHawkEventType, handler: unknown, unsubscribe: () => void): () => void {
+    const remove = () => {
+      this.subscriptions.delete(remove)
+      unsubscribe()
+    }
+    this.subscriptions.set(remove, { type, handler })
+    return remove
+  }
+
+  private async initializeServices(config: ChessHawkConfig): Promise<ChessHawkPluginContext> {
     // Import and initialize services
     const { PuzzleServiceFactory } = await import('../services/PuzzleService')
     const { useGameStore } = await import('../stores/GameStore')
@@ -76,54 +146,52 @@ export class ChessHawkCore {
 
     this.registerModule('puzzleService', puzzleService)
     this.registerModule('gameStore', useGameStore)
+    this.registerModule('events', this.events)
+
+    return {
+      puzzleService,
+      store: useGameStore,
+      events: this.events,
+      config,
+      registerModule: (name, module) => this.registerModule(name, module),
+      getModule: name => this.getModule(name)
+    }
   }
 
-  private async initializeUI(config: ChessHawkConfig): Promise<void> {
-    // Legacy UI initialization for web
-    if (config.enableLegacyUI !== false) {
+  /**
+   * Set up plugins in dependency order. If one fails, the ones already set up
+   * are torn down again and the failure is reported as ServiceInitializationError.
+   */
+  private async setupPlugins(plugins: ChessHawkPlugin[], context: ChessHawkPluginContext): Promise<void> {
+    for (const plugin of plugins) {
       try {
-        // Import legacy modules if available
-        const legacyModules = await this.loadLegacyModules()
-        Object.entries(legacyModules).forEach(([name, module]) => {
-          this.registerModule(name, module)
-        })
+        await plugin.setup(context)
+        this.activePlugins.push(plugin)
       } catch (error) {
-        console.warn('Legacy UI modules not available:', error)
+        await this.teardownPlugins()
+        throw new ServiceInitializationError(`plugin ${plugin.name}`, error instanceof Error ? error : new Error(String(error)))
       }
     }
   }
 
-  private async loadLegacyModules(): Promise<Record<string, any>> {
-    // Try to load legacy modules if they exist
-    try {
-      const modules: Record<string, any> = {}
-      
-      // These imports will fail gracefully if files don't exist
-      const moduleNames = ['core-manager', 'board-manager', 'problem-manager', 'game-logic', 'ui-manager']
-      
-      for (const moduleName of moduleNames) {
-        try {
-          const module = await import(`../js/${moduleName}.js`)
-          modules[moduleName.replace('-', '')] = module.default || module
-        } catch {
-          // Module not available, skip
-        }
+  private async teardownPlugins(): Promise<void> {
+    const plugins = this.activePlugins.reverse()
+    this.activePlugins = []
+
+    for (const plugin of plugins) {
+      try {
+        await plugin.teardown?.()
+      } catch (error) {
+        console.error(`Failed to tear down plugin ${plugin.name}:`, error)
       }
-      
-      return modules
-    } catch {
-      return {}
     }
   }
 }
 
 export interface ChessHawkConfig {
-  puzzleService?: {
-    type: 'local' | 'api'
-    baseUrl?: string
-    apiKey?: string
-  }
+  puzzleService?: PuzzleServiceConfig
   enableLegacyUI?: boolean
+  plugins?: ChessHawkPlugin[] // set up after the services, in dependency order
   theme?: 'light' | 'dark' | 'auto'
   language?: 'en' | 'no'
 }
@@ -133,4 +201,5 @@ export const chessHawk = ChessHawkCore.getInstance()
 
 // Convenience functions
 export const initializeChessHawk = (config?: ChessHawkConfig) => chessHawk.initialize(config)
+export const destroyChessHawk = () => chessHawk.destroy()
 export const getChessHawkModule = <T = any>(name: string): T | undefined => chessHawk.getModule<T>(name)
\ No newline at end of file
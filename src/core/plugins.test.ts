@@ -0,0 +1,84 @@
+/**
+ * Plugin Host Tests
+ * Dependency ordering, lifecycle and failure handling
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { sortPlugins, type ChessHawkPlugin } from './plugins'
+import { chessHawk } from './index'
+import { ServiceInitializationError } from '../types'
+
+const plugin = (name: string, dependencies: string[] = [], extra: Partial<ChessHawkPlugin> = {}): ChessHawkPlugin => ({
+  name,
+  dependencies,
+  setup: vi.fn(),
+  teardown: vi.fn(),
+  ...extra
+})
+
+describe('sortPlugins', () => {
+  it('puts dependencies before the plugins that need them', () => {
+    const sorted = sortPlugins([plugin('coaching', ['analytics', 'sound']), plugin('sound'), plugin('analytics', ['sound'])])
+
+    expect(sorted.map(p => p.name)).toEqual(['sound', 'analytics', 'coaching'])
+  })
+
+  it('rejects missing dependencies, cycles and duplicate names', () => {
+    expect(() => sortPlugins([plugin('coaching', ['analytics'])])).toThrow('Missing dependency: analytics')
+    expect(() => sortPlugins([plugin('a', ['b']), plugin('b', ['a'])])).toThrow('Circular dependency: a -> b -> a')
+    expect(() => sortPlugins([plugin('a'), plugin('a')])).toThrow(ServiceInitializationError)
+  })
+})
+
+describe('ChessHawkCore plugins', () => {
+  afterEach(async () => {
+    await chessHawk.destroy()
+  })
+
+  it('sets plugins up in dependency order with the shared context', async () => {
+    const order: string[] = []
+    const analytics = plugin('analytics', ['sound'], {
+      setup: vi.fn(ctx => {
+        order.push('analytics')
+        ctx.registerModule('analytics', { tracked: true })
+      })
+    })
+    const sound = plugin('sound', [], { setup: vi.fn(() => { order.push('sound') }) })
+
+    await chessHawk.initialize({ enableLegacyUI: false, plugins: [analytics, sound], language: 'en' })
+
+    expect(order).toEqual(['sound', 'analytics'])
+    const ctx = vi.mocked(analytics.setup).mock.calls[0]![0]
+    expect(ctx.config.language).toBe('en')
+    expect(ctx.puzzleService).toBe(chessHawk.getModule('puzzleService'))
+    expect(ctx.store).toBe(chessHawk.getModule('gameStore'))
+    expect(ctx.events).toBe(chessHawk.getModule('events'))
+    expect(chessHawk.getModule('analytics')).toEqual({ tracked: true })
+  })
+
+  it('tears plugins down in reverse order on destroy', async () => {
+    const order: string[] = []
+    const sound = plugin('sound', [], { teardown: vi.fn(() => { order.push('sound') }) })
+    const analytics = plugin('analytics', ['sound'], { teardown: vi.fn(() => { order.push('analytics') }) })
+
+    await chessHawk.initialize({ enableLegacyUI: false, plugins: [sound, analytics] })
+    await chessHawk.destroy()
+
+    expect(order).toEqual(['analytics', 'sound'])
+    expect(chessHawk.isInitialized()).toBe(false)
+    expect(chessHawk.getModule('puzzleService')).toBeUndefined()
+  })
+
+  it('reports a failing setup as ServiceInitializationError and undoes the plugins already set up', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const sound = plugin('sound')
+    const broken = plugin('analytics', ['sound'], { setup: vi.fn(() => { throw new Error('no network') }) })
+
+    const initializing = chessHawk.initialize({ enableLegacyUI: false, plugins: [sound, broken] })
+
+    await expect(initializing).rejects.toThrow(ServiceInitializationError)
+    await expect(initializing).rejects.toThrow('Failed to initialize plugin analytics: no network')
+    expect(sound.teardown).toHaveBeenCalled()
+    expect(chessHawk.isInitialized()).toBe(false)
+  })
+})
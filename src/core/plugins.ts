@@ -0,0 +1,91 @@
+/**
+ * Chess Hawk Plugins
+ * Plugin contract and dependency ordering for ChessHawkCore
+ */
+
+import { ServiceInitializationError } from '../types'
+import type { IPuzzleService } from '../services/PuzzleService'
+import type { useGameStore } from '../stores/GameStore'
+import type { ChessHawkEventBus } from './events'
+import type { ChessHawkConfig } from './index'
+
+/**
+ * What a plugin gets to work with during setup
+ */
+export interface ChessHawkPluginContext {
+  puzzleService: IPuzzleService
+  store: typeof useGameStore
+  events: ChessHawkEventBus
+  config: ChessHawkConfig
+  registerModule(name: string, module: unknown): void
+  getModule<T = any>(name: string): T | undefined
+}
+
+export interface ChessHawkPlugin {
+  name: string
+  dependencies?: string[] // names of plugins that must be set up first
+  setup(ctx: ChessHawkPluginContext): void | Promise<void>
+  teardown?(): void | Promise<void>
+}
+
+/**
+ * Order plugins so every plugin comes after its dependencies.
+ * Throws ServiceInitializationError for duplicate names, missing dependencies and cycles.
+ */
+export function sortPlugins(plugins: ChessHawkPlugin[]): ChessHawkPlugin[] {
+  const byName = new Map<string, ChessHawkPlugin>()
+  plugins.forEach(plugin => {
+    if (byName.has(plugin.name)) {
+      throw new ServiceInitializationError(`plugin ${plugin.name}`, new Error('Plugin registered twice'))
+    }
+    byName.set(plugin.name, plugin)
+  })
+
+  const sorted: ChessHawkPlugin[] = []
+  const done = new Set<string>()
+  const visiting: string[] = []
+
+  const visit = (plugin: ChessHawkPlugin): void => {
+    if (done.has(plugin.name)) return
+    if (visiting.includes(plugin.name)) {
+      const cycle = [...visiting.slice(visiting.indexOf(plugin.name)), plugin.name].join(' -> ')
+      throw new ServiceInitializationError(`plugin ${plugin.name}`, new Error(`Circular dependency: ${cycle}`))
+    }
+
+    visiting.push(plugin.name)
+    for (const name of plugin.dependencies || []) {
+      const dependency = byName.get(name)
+      if (!dependency) {
+        throw new ServiceInitializationError(`plugin ${plugin.name}`, new Error(`Missing dependency: ${name}`))
+      }
+      visit(dependency)
+    }
+    visiting.pop()
+
+    done.add(plugin.name)
+    sorted.push(plugin)
+  }
+
+  plugins.forEach(visit)
+  return sorted
+}
+
+/**
+ * Loads the legacy modules from src/js into the core module registry
+ */
+export const legacyModulesPlugin: ChessHawkPlugin = {
+  name: 'legacy-modules',
+
+  async setup(ctx) {
+    const moduleNames = ['core-manager', 'board-manager', 'problem-manager', 'game-logic', 'ui-manager']
+
+    for (const moduleName of moduleNames) {
+      try {
+        const module = await import(`../js/${moduleName}.js`)
+        ctx.registerModule(moduleName.replace('-', ''), module.default || module)
+      } catch {
+        // Module not available, skip
+      }
+    }
+  }
+}
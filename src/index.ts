@@ -9,6 +9,9 @@ export * from './stores/GameStore'
 
 // Service layer exports  
 export * from './services/PuzzleService'
+export * from './services/ApiSchema'
+export * from './services/PuzzleOutbox'
+export * from './services/CachedPuzzleService'
 
 // Type definitions
 export * from './types'
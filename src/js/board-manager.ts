@@ -5,7 +5,13 @@
  * TypeScript version with proper type safety
  */
 
+import type { Chess, Move } from 'chess.js';
 import type { ChessInstance, ChessboardInstance, ChessboardConfig } from '../types/chess-hawk';
+import { AnnotationLayer } from '../components/annotations';
+import { PromotionPicker } from '../components/promotion';
+import { applyBoardTheme, chessHawkThemes } from '../components/themes';
+import { applySquareClick, isPromotionMove, parseMoveInput } from '../utils/move-input';
+import { useGameStore } from '../stores/GameStore';
 
 // Color constants for square highlighting
 const whiteSquareGrey = '#a9a9a9';
@@ -17,7 +23,13 @@ const blackSquareGrey = '#696969';
 class BoardManager {
     #board: ChessboardInstance | null = null;
     #config: ChessboardConfig | null = null;
+    #annotations: AnnotationLayer | null = null;
+    #promotionPicker: PromotionPicker | null = null;
+    #autoPromoteQueen: boolean = false;
     #mobileHandlers: Map<string, EventListener> = new Map();
+    #inputHandlers: Array<[EventTarget, string, EventListener]> = [];
+    #settingsSubscriptions: Array<() => void> = [];
+    #selectedSquare: string | null = null;
     // #isWaitingForOpponentMove: boolean = false; // TODO: Implement multiplayer functionality
 
     constructor() {
@@ -57,7 +69,7 @@ class BoardManager {
             draggable: true,
             position: 'start',
             orientation: 'white',
-            pieceTheme: 'src/img/chesspieces/wikipedia/{piece}.png',
+            pieceTheme: chessHawkThemes.getPieceSet(),
             onDrop: this.onDrop.bind(this) as (source: string, target: string, piece: string, newPos: any, oldPos: any, orientation: string) => string,
             onSnapEnd: this.onSnapEnd.bind(this),
             onMouseoutSquare: this.onMouseoutSquare.bind(this),
@@ -86,7 +98,17 @@ class BoardManager {
         
         console.log('✅ Chessboard initialized successfully');
         
+        // Piler og markeringer over brettet, høyreklikk for å tegne selv
+        this.#annotations?.destroy();
+        this.#annotations = new AnnotationLayer(boardElement, { orientation: this.#config?.orientation });
+        
+        // Valg av brikke ved bondeforvandling
+        this.#promotionPicker?.destroy();
+        this.#promotionPicker = new PromotionPicker(boardElement, { pieceTheme: this.#config?.pieceTheme });
+        
         this.#initializeMobileTouchHandlers();
+        this.#initializeMoveInputHandlers();
+        this.#initializeSettings();
         return this.#board;
     }
 
@@ -122,6 +144,54 @@ class BoardManager {
         }
     }
 
+    /**
+     * Klikk-for-å-flytte og trekk skrevet i tekstfeltet (#moveInputForm)
+     */
+    #initializeMoveInputHandlers(): void {
+        const boardElement = document.getElementById('myBoard');
+        if (boardElement) {
+            // Tomme felt starter ikke et drag, så de kommer som vanlige klikk
+            const clickHandler = (e: Event) => {
+                const square = (e.target as HTMLElement | null)?.closest?.('[data-square]')?.getAttribute('data-square');
+                if (square) {
+                    this.onSquareClick(square);
+                }
+            };
+            boardElement.addEventListener('click', clickHandler);
+            this.#inputHandlers.push([boardElement, 'click', clickHandler]);
+        }
+        
+        const moveForm = document.getElementById('moveInputForm');
+        const moveInput = document.getElementById('moveInput') as HTMLInputElement | null;
+        if (moveForm && moveInput) {
+            const submitHandler = (e: Event) => {
+                e.preventDefault();
+                if (this.submitMoveText(moveInput.value)) {
+                    moveInput.value = '';
+                }
+            };
+            moveForm.addEventListener('submit', submitHandler);
+            this.#inputHandlers.push([moveForm, 'submit', submitHandler]);
+        }
+    }
+
+    /**
+     * Følg brukerinnstillingene i GameStore: gjeldende verdier nå, nye verdier når de endres
+     */
+    #initializeSettings(): void {
+        this.#settingsSubscriptions.forEach(unsubscribe => unsubscribe());
+        
+        const { settings } = useGameStore.getState();
+        this.setAutoPromoteQueen(settings.autoPromoteQueen);
+        this.setTheme({ boardTheme: settings.boardTheme, pieceSet: settings.pieceTheme });
+        
+        this.#settingsSubscriptions = [
+            useGameStore.subscribe(state => state.settings.autoPromoteQueen, enabled => this.setAutoPromoteQueen(enabled)),
+            useGameStore.subscribe(state => state.settings.boardTheme, boardTheme => this.setTheme({ boardTheme })),
+            useGameStore.subscribe(state => state.settings.pieceTheme, pieceSet => this.setTheme({ pieceSet }))
+        ];
+    }
+
     /**
      * Get board instance
      */
@@ -129,6 +199,40 @@ class BoardManager {
         return this.#board;
     }
 
+    /**
+     * Get the annotation overlay (arrows, marks and highlights)
+     */
+    get annotations(): AnnotationLayer | null {
+        return this.#annotations;
+    }
+
+    /**
+     * Forvandle alltid til dronning i stedet for å spørre (UserSettings.autoPromoteQueen)
+     */
+    setAutoPromoteQueen(enabled: boolean): void {
+        this.#autoPromoteQueen = enabled;
+    }
+
+    /**
+     * Bytt brettfarger og brikkesett uten å lage brettet på nytt (navn fra chessHawkThemes)
+     */
+    setTheme(theme: { boardTheme?: string; pieceSet?: string }): void {
+        const boardElement = document.getElementById('myBoard');
+        if (theme.boardTheme !== undefined && boardElement) {
+            applyBoardTheme(boardElement, chessHawkThemes.getBoardTheme(theme.boardTheme));
+        }
+        
+        if (theme.pieceSet !== undefined && this.#config) {
+            const pieceTheme = chessHawkThemes.getPieceSet(theme.pieceSet);
+            // Chessboard.js beholder konfigurasjonsobjektet og leser pieceTheme ved hver tegning
+            this.#config.pieceTheme = pieceTheme;
+            this.#promotionPicker?.setPieceTheme(pieceTheme);
+            this.#board?.position(this.#board.position(), false);
+        }
+        
+        console.log(`🎨 Theme updated:`, theme);
+    }
+
     /**
      * Set board orientation
      */
@@ -148,6 +252,7 @@ class BoardManager {
         
         try {
             (this.#board as any).orientation(orientation);
+            this.#annotations?.setOrientation(orientation);
             console.log(`   ✅ Board orientation updated successfully to: ${orientation}`);
         } catch (error) {
             console.error(`   ❌ ERROR setting board orientation:`, error);
@@ -167,22 +272,140 @@ class BoardManager {
         // Clean up dragging state
         document.body.classList.remove('dragging');
         
-        // Attempt to make the move
+        // Chessboard.js gjør et klikk på en brikke til et slipp på samme felt
+        if (source === target) {
+            this.onSquareClick(source);
+            return 'snapback';
+        }
+        
+        if (this.#needsPromotionChoice(source, target)) {
+            // Brikken går tilbake mens spilleren velger; trekket spilles etter valget
+            this.#playWithPromotionChoice(source, target);
+            console.log(`🎲 === onDrop() END (waiting for promotion choice) ===`);
+            return 'snapback';
+        }
+        
+        const result = this.#tryMove(source, target) ? '' : 'snapback';
+        console.log(`🎲 === onDrop() END ===`);
+        return result;
+    }
+
+    /**
+     * Handle square clicks: første klikk velger brikken og viser lovlige felt, andre klikk flytter
+     */
+    onSquareClick(square: string): void {
         const game = (window as any).game as ChessInstance;
-        const move = game?.move({
-            from: source,
-            to: target,
-            promotion: 'q'
+        if (!game || this.#isGameOver(game)) return;
+        
+        const selection = applySquareClick(game.fen(), this.#selectedSquare, square);
+        this.#showSelection(selection.selected, selection.destinations);
+        
+        if (!selection.move) return;
+        
+        if (this.#needsPromotionChoice(selection.move.from, selection.move.to)) {
+            this.#playWithPromotionChoice(selection.move.from, selection.move.to);
+        } else if (this.#tryMove(selection.move.from, selection.move.to)) {
+            this.#board?.position(game.fen());
+        }
+    }
+
+    /**
+     * Bondeforvandling der spilleren skal velge brikke selv
+     */
+    #needsPromotionChoice(source: string, target: string): boolean {
+        const game = (window as any).game as ChessInstance;
+        return !this.#autoPromoteQueen && !!game && isPromotionMove(game.fen(), source, target);
+    }
+
+    /**
+     * Vis brikkevelgeren og spill trekket med valgt brikke. Avbrutt valg lar stillingen stå.
+     */
+    #playWithPromotionChoice(source: string, target: string): void {
+        const game = (window as any).game as ChessInstance;
+        
+        this.#promotionPicker?.choose(game.turn()).then(piece => {
+            if (!piece) {
+                console.log(`↩️ Promotion cancelled: ${source} → ${target}`);
+                return;
+            }
+            if (this.#tryMove(source, target, piece)) {
+                this.#board?.position(game.fen());
+            }
         });
+    }
+
+    /**
+     * Marker valgt brikke og lovlige felt i annoteringslaget, så hover-gråingen ikke fjerner dem
+     */
+    #showSelection(square: string | null, destinations: string[] = []): void {
+        const hadSelection = this.#selectedSquare !== null;
+        this.#selectedSquare = square;
+        
+        if (square) {
+            this.#annotations?.setHighlights([
+                { square, color: '#ffeb3b' },
+                ...destinations.map(destination => ({ square: destination, color: '#8bc34a' }))
+            ]);
+        } else if (hadSelection) {
+            this.#annotations?.setHighlights([]);
+        }
+    }
+
+    /**
+     * Play a typed move in SAN (Nf3) or UCI (g1f3). Returns whether it was legal.
+     */
+    submitMoveText(text: string): boolean {
+        const game = (window as any).game as ChessInstance;
+        if (!game || !text.trim()) return false;
+        
+        const move = parseMoveInput(game.fen(), text);
+        if (!move) {
+            (window as any).uiManager?.showFeedback(`Ugyldig trekk: ${text.trim()}`, 'error');
+            return false;
+        }
+        
+        // Uten oppgitt brikke forvandles det bare automatisk når innstillingen er på
+        if (!move.promotion && this.#needsPromotionChoice(move.from, move.to)) {
+            this.#playWithPromotionChoice(move.from, move.to);
+            return true;
+        }
         
-        if (move === null) {
+        const played = this.#tryMove(move.from, move.to, move.promotion);
+        if (played) {
+            this.#board?.position(game.fen());
+        }
+        return played;
+    }
+
+    /**
+     * Felles validering for dratt, klikket og skrevet trekk. Dronning er standard
+     * bare fordi valget allerede er gjort: automatisk forvandling eller ingen forvandling.
+     */
+    #tryMove(source: string, target: string, promotion: string = 'q'): boolean {
+        const game = (window as any).game as Chess | undefined;
+        
+        // Attempt to make the move (chess.js 1.x throws on illegal moves)
+        let move: Move | null = null;
+        try {
+            move = game?.move({
+                from: source,
+                to: target,
+                promotion
+            }) ?? null;
+        } catch {
+            move = null;
+        }
+        
+        if (!move) {
             console.log(`❌ === ILLEGAL MOVE ===`);
-            return 'snapback';
+            return false;
         }
         
         console.log(`✅ === LEGAL MOVE made ===`);
         console.log(`   🎲 Move: ${move.san} (${source} → ${target})`);
         
+        this.#showSelection(null);
+        
         // Update status and check solution
         if ((window as any).updateStatus) {
             (window as any).updateStatus();
@@ -196,8 +419,7 @@ class BoardManager {
             }, 100);
         }
         
-        console.log(`🎲 === onDrop() END ===`);
-        return '';
+        return true;
     }
 
     /**
@@ -324,6 +546,15 @@ class BoardManager {
             }
         });
         this.#mobileHandlers.clear();
+        this.#inputHandlers.forEach(([target, event, handler]) => target.removeEventListener(event, handler));
+        this.#inputHandlers = [];
+        this.#settingsSubscriptions.forEach(unsubscribe => unsubscribe());
+        this.#settingsSubscriptions = [];
+        this.#selectedSquare = null;
+        this.#annotations?.destroy();
+        this.#annotations = null;
+        this.#promotionPicker?.destroy();
+        this.#promotionPicker = null;
     }
 }
 
@@ -16,6 +16,7 @@ import DebugTools from './debug-tools';
 import './chess-global-production';
 
 import type { ChessInstance, ChessPuzzle, GameState, ModuleManager } from '../types/chess-hawk';
+import { persistentStorage, STORAGE_KEYS } from '../utils/storage';
 
 /**
  * Production-compatible CoreManager
@@ -27,6 +28,7 @@ class ProductionCoreManager implements ModuleManager {
     #abortController: AbortController | null = null;
     #initRetries: number = 0;
     #maxRetries: number = 5;
+    #stateLoaded: Promise<void>;
     #gameState: GameState = {
         initialized: false,
         currentProblem: null,
@@ -47,7 +49,7 @@ class ProductionCoreManager implements ModuleManager {
         console.log('🚀 ChessHawk Production Mode - CoreManager initialized');
         
         this.#initializeModules();
-        this.#loadPersistedState();
+        this.#stateLoaded = this.#loadPersistedState();
         
         // Wait for DOM and Chess.js to be ready
         this.#waitForEnvironmentAndInit();
@@ -119,6 +121,9 @@ class ProductionCoreManager implements ModuleManager {
         console.log('🚀 === ChessHawk PRODUCTION INITIALIZATION START ===');
         
         try {
+            // Wait for persisted state before the game starts
+            await this.#stateLoaded;
+            
             // Check required libraries
             console.log('   📚 Checking required libraries...');
             if (!this.#checkLibraries()) {
@@ -457,11 +462,10 @@ class ProductionCoreManager implements ModuleManager {
     /**
      * Load persisted state
      */
-    #loadPersistedState(): void {
+    async #loadPersistedState(): Promise<void> {
         try {
-            const savedState = localStorage.getItem('chesshawk-state');
-            if (savedState) {
-                const parsedState = JSON.parse(savedState);
+            const parsedState = await persistentStorage.getJSON<any>(STORAGE_KEYS.coreState);
+            if (parsedState) {
                 this.#gameState = {
                     ...this.#gameState,
                     score: parsedState.playerScore || 0,
@@ -15,6 +15,7 @@ import ProblemManager from './problem-manager.ts';
 import GameLogic from './game-logic.ts';
 import UIManager from './ui-manager.ts';
 import DebugTools from './debug-tools.ts';
+import { persistentStorage, STORAGE_KEYS } from '../utils/storage';
 
 /**
  * CoreManager klasse - hovedorchestrator for Chess Hawk applikasjonen
@@ -26,6 +27,7 @@ class CoreManager implements ModuleManager {
     #abortController: AbortController | null = null;
     #initRetries: number = 0;
     #maxRetries: number = 5;
+    #stateLoaded: Promise<void>;
     #gameState: GameState = {
         initialized: false,
         currentProblem: null,
@@ -46,7 +48,7 @@ class CoreManager implements ModuleManager {
         console.log('🚀 CoreManager initialized');
         
         this.#initializeModules();
-        this.#loadPersistedState();
+        this.#stateLoaded = this.#loadPersistedState();
         
         // Wait for Chess.js to load, then start initialization
         this.#waitForChessAndInit();
@@ -117,6 +119,9 @@ class CoreManager implements ModuleManager {
         console.log('🚀 === ChessHawk INITIALIZATION START ===');
         
         try {
+            // Vent på lagret tilstand før spillet starter
+            await this.#stateLoaded;
+            
             // Sjekk om nødvendige biblioteker er lastet
             console.log('   📚 Checking required libraries...');
             if (!this.#checkLibraries()) {
@@ -614,13 +619,12 @@ class CoreManager implements ModuleManager {
     }
 
     /**
-     * Last inn persistent tilstand fra localStorage
+     * Last inn persistent tilstand fra lagringslaget
      */
-    #loadPersistedState(): void {
+    async #loadPersistedState(): Promise<void> {
         try {
-            const savedState = localStorage.getItem('chesshawk-state');
-            if (savedState) {
-                const parsedState = JSON.parse(savedState);
+            const parsedState = await persistentStorage.getJSON<any>(STORAGE_KEYS.coreState);
+            if (parsedState) {
                 
                 // Merge saved state with default state
                 this.#gameState = {
@@ -638,7 +642,7 @@ class CoreManager implements ModuleManager {
     }
 
     /**
-     * Lagre tilstand til localStorage
+     * Lagre tilstand til lagringslaget
      */
     #persistState(): void {
         try {
@@ -650,8 +654,9 @@ class CoreManager implements ModuleManager {
                 lastSaved: new Date().toISOString()
             };
             
-            localStorage.setItem('chesshawk-state', JSON.stringify(stateToSave));
-            console.log('💾 State persisted to localStorage');
+            persistentStorage.setJSON(STORAGE_KEYS.coreState, stateToSave)
+                .then(() => console.log('💾 State persisted'))
+                .catch(error => console.warn('⚠️ Could not persist state:', error));
         } catch (error) {
             console.warn('⚠️ Could not persist state:', error);
         }
@@ -689,7 +694,8 @@ class CoreManager implements ModuleManager {
      */
     clearPersistedData(): boolean {
         try {
-            localStorage.removeItem('chesshawk-state');
+            persistentStorage.removeItem(STORAGE_KEYS.coreState)
+                .catch(error => console.warn('⚠️ Could not clear persisted state:', error));
             
             // Reset game state
             this.#gameState = {
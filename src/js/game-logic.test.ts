@@ -0,0 +1,76 @@
+/**
+ * Game Logic Tests
+ * 
+ * Solution checking on the legacy board, including alternative lines.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Chess } from 'chess.js'
+import GameLogic from './game-logic'
+
+const problem = {
+  id: 'two_lines',
+  type: 'opening',
+  title: 'To veier',
+  description: 'Spill en av åpningene',
+  fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+  solution: ['e4', 'e5', 'Nf3'],
+  alternatives: [['d4', 'd5', 'c4']],
+  difficulty: 'beginner',
+  theme: 'opening',
+  points: 10,
+  rating: 800
+}
+
+describe('GameLogic.checkSolution', () => {
+  let logic: GameLogic
+  let game: Chess
+
+  beforeEach(() => {
+    logic = new GameLogic()
+    game = new Chess(problem.fen)
+    Object.assign(window, { currentProblem: problem, game, playerScore: 0, solvedProblems: [] })
+  })
+
+  const play = (...moves: string[]) => moves.map(move => {
+    game.move(move)
+    return logic.checkSolution()
+  })
+
+  it('accepts the main line and an alternative line played to the end', () => {
+    expect(play('e4', 'e5', 'Nf3')).toEqual([true, true, true])
+    expect((window as any).solvedProblems).toEqual(['two_lines'])
+
+    game = new Chess(problem.fen)
+    Object.assign(window, { game, solvedProblems: [] })
+    expect(play('d4', 'd5', 'c4')).toEqual([true, true, true])
+    expect((window as any).solvedProblems).toEqual(['two_lines'])
+  })
+
+  it('does not mix moves from different lines', () => {
+    expect(play('e4', 'd5')).toEqual([true, false])
+    expect((window as any).solvedProblems).toEqual([])
+  })
+})
+
+describe('GameLogic hints', () => {
+  it('starts every problem without hints used', () => {
+    const logic = new GameLogic()
+    const other = { ...problem, id: 'other' }
+    let game = new Chess(problem.fen)
+    Object.assign(window, { currentProblem: problem, game, playerScore: 0, solvedProblems: [] })
+
+    logic.showHint()
+    logic.showHint()
+    logic.showHint()
+
+    game = new Chess(other.fen)
+    Object.assign(window, { currentProblem: other, game })
+    for (const move of ['e4', 'e5', 'Nf3']) {
+      game.move(move)
+      logic.checkSolution()
+    }
+
+    expect((window as any).playerScore).toBe(other.points)
+  })
+})
@@ -6,6 +6,8 @@
  */
 
 import type { ChessInstance, ChessPuzzle, IGameLogic } from '../types/chess-hawk';
+import { isAcceptedMove, getSolutionLines } from '../utils/solution';
+import { applyHintPenalty, getHint, nextHintTier, MAX_HINT_TIER } from '../utils/hints';
 
 /**
  * GameLogic klasse for håndtering av spillogikk og løsningsvalidering
@@ -14,7 +16,8 @@ class GameLogic implements IGameLogic {
     game: ChessInstance | null = null;
     initialized: boolean = false;
     #currentMoveIndex: number = 0;
-    #currentHintIndex: number = 0;
+    #lines: { problemId: string; lines: string[][] } | null = null; // solution lines that match every move played so far
+    #hints: { problemId: string; tier: number; used: number } | null = null; // tier shown for the current move and highest tier reached
     #solutionTimer: NodeJS.Timeout | null = null;
 
     constructor() {
@@ -90,25 +93,37 @@ class GameLogic implements IGameLogic {
             return false;
         }
         
-        const lastMove = history[history.length - 1];
-        const playerMove = (lastMove as any).san;
+        const lastMove = history[history.length - 1] as any;
+        const playerMove = lastMove.san;
         
         console.log(`🎯 Player move: ${playerMove} (Index: ${this.#currentMoveIndex})`);
         console.log(`📋 Expected solution:`, currentProblem.solution);
         
-        const expectedMove = currentProblem.solution[this.#currentMoveIndex];
+        const lines = this.#followedLines(currentProblem);
+        const expectedMove = lines[0]?.[this.#currentMoveIndex];
         console.log(`🎯 Expected move at index ${this.#currentMoveIndex}: ${expectedMove}`);
         
-        if (expectedMove && playerMove === expectedMove) {
+        // Accept SAN/UCI variants and any mate in mate puzzles, but only from a line
+        // that also accepted every earlier move
+        const accepting = lines.filter(line => {
+            const move = line[this.#currentMoveIndex];
+            return !!move && isAcceptedMove({ theme: currentProblem.theme || '' }, lastMove.before, move, lastMove.lan);
+        });
+        const isCorrect = accepting.length > 0;
+        
+        if (isCorrect) {
+            this.#lines = { problemId: currentProblem.id, lines: accepting };
             this.#currentMoveIndex++;
+            this.#hintState(currentProblem).tier = 0;
+            (window as any).uiManager?.clearHint?.();
             console.log(`✅ Correct move! Moving to index ${this.#currentMoveIndex}`);
             
-            if (this.#currentMoveIndex >= currentProblem.solution.length) {
+            if (accepting.some(line => this.#currentMoveIndex >= line.length) || game.isCheckmate()) {
                 this.#handleSolutionComplete();
                 return true;
             }
             
-            this.#showFeedback(`✅ Riktig trekk! (${this.#currentMoveIndex}/${currentProblem.solution.length})`, 'success');
+            this.#showFeedback(`✅ Riktig trekk! (${this.#currentMoveIndex}/${accepting[0]!.length})`, 'success');
             return true;
             
         } else {
@@ -119,21 +134,37 @@ class GameLogic implements IGameLogic {
     }
 
     /**
-     * Show hint
+     * Show hint - hvert klikk avslører mer: tema, brikke, målfelt og til slutt trekket
      */
     showHint(): void {
         const currentProblem = (window as any).currentProblem as ChessPuzzle;
+        const game = (window as any).game as ChessInstance;
+        const expectedMove = currentProblem && this.#followedLines(currentProblem)[0]?.[this.#currentMoveIndex];
         
-        if (!currentProblem || !currentProblem.hints || currentProblem.hints.length === 0) {
+        if (!currentProblem || !game || !expectedMove) {
             this.#showFeedback('Ingen hint tilgjengelig for dette problemet', 'info');
             return;
         }
         
-        const hint = currentProblem.hints[this.#currentHintIndex % currentProblem.hints.length];
-        this.#showFeedback(`💡 Hint: ${hint}`, 'info', 5000);
+        const hints = this.#hintState(currentProblem);
+        const tier = nextHintTier(hints.tier) || MAX_HINT_TIER;
+        hints.tier = tier;
+        hints.used = Math.max(hints.used, tier);
         
-        this.#currentHintIndex++;
-        console.log(`💡 Hint shown: ${hint}`);
+        const hint = getHint(
+            { theme: currentProblem.theme || currentProblem.category || '', hint: currentProblem.hint || currentProblem.hints?.[0] },
+            game.fen(),
+            expectedMove,
+            tier
+        );
+        
+        const uiManager = (window as any).uiManager;
+        if (uiManager && typeof uiManager.showHint === 'function') {
+            uiManager.showHint(hint);
+        } else {
+            this.#showFeedback(`💡 Hint: ${hint.message}`, 'info', 5000);
+        }
+        console.log(`💡 Hint shown (tier ${hint.tier}): ${hint.message}`);
     }
 
     /**
@@ -172,7 +203,7 @@ class GameLogic implements IGameLogic {
         console.log('🎉 === SOLUTION COMPLETE ===');
         
         const currentProblem = (window as any).currentProblem as ChessPuzzle;
-        const points = currentProblem.points || 10;
+        const points = applyHintPenalty(currentProblem.points || 10, this.#hintState(currentProblem).used);
         
         // Update score
         const currentScore = (window as any).playerScore || 0;
@@ -194,7 +225,8 @@ class GameLogic implements IGameLogic {
         
         // Reset move index for next problem
         this.#currentMoveIndex = 0;
-        this.#currentHintIndex = 0;
+        this.#lines = null;
+        this.#hints = null;
     }
 
     /**
@@ -205,6 +237,24 @@ class GameLogic implements IGameLogic {
         
         // Reset move index
         this.#currentMoveIndex = 0;
+        this.#lines = null;
+    }
+
+    /**
+     * Lines still being followed, the main solution first
+     */
+    #followedLines(problem: ChessPuzzle): string[][] {
+        return this.#lines?.problemId === problem.id ? this.#lines.lines : getSolutionLines(problem);
+    }
+
+    /**
+     * Hint state for the problem, started fresh when another problem is loaded
+     */
+    #hintState(problem: ChessPuzzle): { problemId: string; tier: number; used: number } {
+        if (this.#hints?.problemId !== problem.id) {
+            this.#hints = { problemId: problem.id, tier: 0, used: 0 };
+        }
+        return this.#hints;
     }
 
     /**
@@ -227,7 +277,8 @@ class GameLogic implements IGameLogic {
             clearTimeout(this.#solutionTimer);
         }
         this.#currentMoveIndex = 0;
-        this.#currentHintIndex = 0;
+        this.#lines = null;
+        this.#hints = null;
         this.game = null;
         this.initialized = false;
     }
@@ -3,6 +3,8 @@
  * Importerer sjakk-taktikkproblemer fra Lichess API
  */
 
+import { deriveFromPgn, type DerivedPuzzlePosition } from './lichess-position';
+
 interface LichessPuzzleData {
   puzzles: LichessPuzzle[];
 }
@@ -13,6 +15,7 @@ interface LichessPuzzle {
     solution: string[];
     themes: string[];
     rating: number;
+    initialPly?: number; // Trekket i game.pgn der motstanderen setter opp oppgaven
   };
   game: {
     pgn: string;
@@ -26,6 +29,17 @@ interface SolutionStep {
   opponentResponse?: string;
 }
 
+interface ConvertedPuzzle {
+  id: string;
+  fen: string; // Stillingen etter motstanderens oppsettrekk, spilleren er i trekket
+  setupMove: string;
+  solution: SolutionStep[];
+  themes: string[];
+  rating: number;
+  difficulty: Difficulty;
+  category: Category;
+}
+
 type Difficulty = 'beginner' | 'intermediate' | 'advanced' | 'expert';
 type Category = 'fork' | 'pin' | 'skewer' | 'discovered_attack' | 'deflection' | 'decoy' | 'mate' | 'sacrifice' | 'opening' | 'middlegame' | 'endgame' | 'general';
 
@@ -33,11 +47,12 @@ export class LichessImporter {
   private readonly baseUrl = 'https://lichess.org/api/puzzle/batch';
 
   /**
-   * Importer problemer fra Lichess API
+   * Importer problemer fra Lichess API, konvertert til oppgavestillingen med løsningen i SAN.
+   * Problemer som ikke kan spilles ut hoppes over.
    * @param count - Antall problemer å hente (standard: 50)
    * @param theme - Tematisk filter (fork, pin, skewer, etc.)
    */
-  async importPuzzles(count = 50, theme: string | null = null): Promise<LichessPuzzle[]> {
+  async importPuzzles(count = 50, theme: string | null = null): Promise<ConvertedPuzzle[]> {
     console.log(`🌐 === Importing ${count} puzzles from Lichess ===`);
     
     try {
@@ -58,7 +73,14 @@ export class LichessImporter {
       console.log(`✅ Received ${data.puzzles?.length || 0} puzzles from Lichess`);
       
       if (data.puzzles && data.puzzles.length > 0) {
-        return data.puzzles;
+        return data.puzzles.flatMap(puzzle => {
+          const errors = this.validatePuzzle(puzzle);
+          if (errors.length > 0) {
+            console.warn(`⚠️ Skipping puzzle ${puzzle.puzzle?.id}: ${errors.join(', ')}`);
+            return [];
+          }
+          return [this.convertPuzzle(puzzle)];
+        });
       } else {
         console.warn('⚠️ No puzzles received from Lichess');
         return [];
@@ -71,8 +93,28 @@ export class LichessImporter {
   }
 
   /**
-   * Konverter Lichess løsning til vårt format
-   * @param moves - Array av trekk fra Lichess
+   * Konverter et Lichess-problem til oppgavestillingen, med løsningen i SAN.
+   * Kaster InvalidMoveError hvis et trekk i partiet eller løsningen er ulovlig.
+   */
+  convertPuzzle(puzzle: LichessPuzzle): ConvertedPuzzle {
+    const position = this.derivePosition(puzzle);
+    const themes = puzzle.puzzle.themes || [];
+
+    return {
+      id: `lichess_${puzzle.puzzle.id}`,
+      fen: position.fen,
+      setupMove: position.setupMove,
+      solution: this.convertSolution(position.solution),
+      themes,
+      rating: puzzle.puzzle.rating,
+      difficulty: this.mapRatingToDifficulty(puzzle.puzzle.rating),
+      category: this.mapThemeToCategory(themes[0] || 'general')
+    };
+  }
+
+  /**
+   * Konverter løsningen til vårt format
+   * @param moves - Løsningen fra oppgavestillingen, som fra derivePosition
    */
   convertSolution(moves: string[]): SolutionStep[] {
     const solution: SolutionStep[] = [];
@@ -99,6 +141,14 @@ export class LichessImporter {
     return solution;
   }
 
+  /**
+   * Finn oppgavestillingen ved å spille partiet frem til `initialPly`, med løsningen i SAN.
+   * Kaster InvalidMoveError hvis et trekk i partiet eller løsningen er ulovlig.
+   */
+  derivePosition(puzzle: LichessPuzzle): DerivedPuzzlePosition {
+    return deriveFromPgn(puzzle.game.pgn, puzzle.puzzle.solution, puzzle.puzzle.initialPly);
+  }
+
   /**
    * Map Lichess rating til vårt difficulty system
    */
@@ -183,12 +233,21 @@ export class LichessImporter {
       errors.push('Missing game PGN');
     }
     
+    // Alle trekk i løsningen må være lovlige fra oppgavestillingen
+    if (errors.length === 0) {
+      try {
+        this.derivePosition(puzzle);
+      } catch (error) {
+        errors.push(`Invalid position or solution: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    
     return errors;
   }
 }
 
 // Export for both browser and Node.js environments
-export type { LichessPuzzle, LichessPuzzleData, SolutionStep, Difficulty, Category };
+export type { LichessPuzzle, LichessPuzzleData, SolutionStep, ConvertedPuzzle, Difficulty, Category };
 
 // Browser compatibility
 if (typeof window !== 'undefined') {
@@ -0,0 +1,102 @@
+/**
+ * ChessHawk Lichess Position Derivation
+ * Rekonstruerer oppgavestillingen fra Lichess-data med chess.js
+ */
+
+import { Chess } from 'chess.js';
+import { InvalidMoveError } from '../../types';
+
+export interface DerivedPuzzlePosition {
+  fen: string; // Stillingen der spilleren er i trekket
+  solution: string[]; // Løsningen i SAN, inkludert motstanderens svar
+  setupMove: string; // Motstanderens trekk som satte opp oppgaven, i SAN
+}
+
+/**
+ * Spill ett trekk (SAN eller UCI) og returner SAN, eller kast InvalidMoveError
+ */
+function playMove(chess: Chess, move: string, ply: number): string {
+  try {
+    return chess.move(move).san;
+  } catch {
+    throw new InvalidMoveError(`${move} (ply ${ply + 1} from ${chess.fen()})`);
+  }
+}
+
+/**
+ * Hent trekkene fra en PGN - headere, kommentarer, varianter, trekknummer og resultat fjernes
+ */
+export function pgnMoves(pgn: string): string[] {
+  const movetext = pgn
+    .replace(/^\s*\[[^\]]*\]\s*$/gm, ' ')
+    .replace(/\{[^}]*\}/g, ' ')
+    .replace(/;[^\n]*/g, ' ');
+
+  // Nøstede varianter fjernes innenfra og ut
+  let withoutVariations = movetext;
+  while (/\([^()]*\)/.test(withoutVariations)) {
+    withoutVariations = withoutVariations.replace(/\([^()]*\)/g, ' ');
+  }
+
+  return withoutVariations
+    .split(/\s+/)
+    .map(token => token.replace(/^\d+\.(\.\.)?/, ''))
+    .filter(token => token && !/^\$\d+$/.test(token) && !['1-0', '0-1', '1/2-1/2', '*'].includes(token));
+}
+
+/**
+ * Spill en trekkliste fra en stilling og returner trekkene i SAN
+ */
+export function toSanLine(fen: string, moves: string[]): string[] {
+  const chess = new Chess(fen);
+  return moves.map((move, ply) => playMove(chess, move, ply));
+}
+
+/**
+ * CSV-format: FEN er stillingen før motstanderens trekk, og første trekk i
+ * `Moves` er motstanderens oppsettrekk. Resten er spillerens løsning i UCI.
+ */
+export function deriveFromCsv(fen: string, moves: string[]): DerivedPuzzlePosition {
+  const [setup, ...solution] = moves;
+  if (!setup || solution.length === 0) {
+    throw new Error('Moves must contain the setup move and at least one solution move');
+  }
+
+  const chess = new Chess(fen);
+  const setupMove = playMove(chess, setup, 0);
+  const puzzleFen = chess.fen();
+
+  return {
+    fen: puzzleFen,
+    solution: solution.map((move, index) => playMove(chess, move, index + 1)),
+    setupMove
+  };
+}
+
+/**
+ * API-format: partiets PGN spilles frem til `initialPly`, der trekket på
+ * `initialPly` er motstanderens oppsettrekk. Uten `initialPly` er siste trekk i PGN-en oppsettrekket.
+ */
+export function deriveFromPgn(pgn: string, solution: string[], initialPly?: number): DerivedPuzzlePosition {
+  const moves = pgnMoves(pgn);
+  const setupPly = initialPly ?? moves.length - 1;
+
+  if (setupPly < 0 || setupPly >= moves.length) {
+    throw new Error(`PGN has ${moves.length} plies, expected at least ${setupPly + 1}`);
+  }
+  if (solution.length === 0) {
+    throw new Error('Solution is empty');
+  }
+
+  const chess = new Chess();
+  const played = moves.slice(0, setupPly + 1).map((move, ply) => playMove(chess, move, ply));
+
+  const setupMove = played[played.length - 1] || '';
+  const puzzleFen = chess.fen();
+
+  return {
+    fen: puzzleFen,
+    solution: solution.map((move, index) => playMove(chess, move, setupPly + 1 + index)),
+    setupMove
+  };
+}
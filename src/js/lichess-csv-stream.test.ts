@@ -0,0 +1,142 @@
+/**
+ * Lichess CSV Streaming Tests
+ * Tests for line-by-line reading, filters, decompression and stratified sampling
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import {
+  parseLichessCsvRecord,
+  readLichessCsv,
+  sampleLichessCsv,
+  StratifiedSampler,
+  type ImportProgress,
+  type LichessCsvRecord
+} from '../../scripts/lichess-csv-stream';
+
+const HEADER = 'PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags';
+const FEN = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3';
+
+const csvLine = (id: string, rating: number, themes: string, popularity = 90, nbPlays = 500) =>
+  `${id},${FEN},f3e5 c6e5,${rating},80,${popularity},${nbPlays},${themes},https://lichess.org/${id},`;
+
+const csv = (...lines: string[]) => [HEADER, ...lines].join('\n') + '\n';
+
+async function collect(source: string | Readable, options = {}): Promise<LichessCsvRecord[]> {
+  const records: LichessCsvRecord[] = [];
+  for await (const record of readLichessCsv(source, options)) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe('Lichess CSV streaming', () => {
+  const tempFiles: string[] = [];
+
+  afterEach(() => {
+    tempFiles.splice(0).forEach(file => fs.rmSync(file, { force: true }));
+  });
+
+  it('should parse a CSV record', () => {
+    const record = parseLichessCsvRecord(csvLine('abc12', 1500, 'fork middlegame'));
+
+    expect(record).toMatchObject({
+      puzzleId: 'abc12',
+      fen: FEN,
+      moves: ['f3e5', 'c6e5'],
+      rating: 1500,
+      popularity: 90,
+      nbPlays: 500,
+      themes: ['fork', 'middlegame']
+    });
+    expect(parseLichessCsvRecord('broken,line')).toBeNull();
+  });
+
+  it('should filter by theme, rating, popularity and plays', async () => {
+    const source = Readable.from(csv(
+      csvLine('keep', 1500, 'fork'),
+      csvLine('theme', 1500, 'pin'),
+      csvLine('rating', 2900, 'fork'),
+      csvLine('unpopular', 1500, 'fork', 20),
+      csvLine('unplayed', 1500, 'fork', 90, 3)
+    ));
+
+    const records = await collect(source, {
+      filter: { themes: ['fork'], minRating: 1000, maxRating: 2500, minPopularity: 50, minPlays: 100 }
+    });
+
+    expect(records.map(r => r.puzzleId)).toEqual(['keep']);
+  });
+
+  it('should report progress', async () => {
+    const reports: ImportProgress[] = [];
+    const lines = Array.from({ length: 5 }, (_, i) => csvLine(`p${i}`, 1500, 'fork'));
+
+    await collect(Readable.from(csv(...lines)), { progressInterval: 2, onProgress: (p: ImportProgress) => reports.push(p) });
+
+    expect(reports.map(r => r.linesRead)).toEqual([2, 4, 6, 6]);
+    expect(reports[reports.length - 1]?.matched).toBe(5);
+  });
+
+  it('should read compressed files through a pluggable decompressor', async () => {
+    const file = path.join(os.tmpdir(), `chess-hawk-${Date.now()}.csv.gz`);
+    tempFiles.push(file);
+    fs.writeFileSync(file, zlib.gzipSync(csv(csvLine('zipped', 1500, 'fork'))));
+
+    const reports: ImportProgress[] = [];
+    const records = await collect(file, {
+      decompressors: { '.gz': (input: Readable) => input.pipe(zlib.createGunzip()) },
+      onProgress: (p: ImportProgress) => reports.push(p)
+    });
+
+    expect(records.map(r => r.puzzleId)).toEqual(['zipped']);
+    expect(reports[reports.length - 1]?.bytesRead).toBe(fs.statSync(file).size);
+  });
+
+  it('should keep at most the requested puzzles per theme and rating bucket', () => {
+    const sampler = new StratifiedSampler({ perStratum: 2, ratingBucketSize: 200, random: () => 0 });
+
+    for (let i = 0; i < 10; i++) {
+      sampler.offer(parseLichessCsvRecord(csvLine(`low${i}`, 1210, 'fork'))!);
+      sampler.offer(parseLichessCsvRecord(csvLine(`high${i}`, 1890, 'fork pin'))!);
+    }
+
+    expect(sampler.strata()).toEqual({ 'fork:1200': 2, 'fork:1800': 2, 'pin:1800': 2 });
+    // Later puzzles replace earlier ones, so the sample is not just the head of the file
+    expect(sampler.records().map(r => r.puzzleId)).toContain('low9');
+  });
+
+  it('should list a theme\'s puzzles from its own strata, one bucket at a time', () => {
+    const sampler = new StratifiedSampler({ perStratum: 2, ratingBucketSize: 200, random: () => 0.99 });
+
+    sampler.offer(parseLichessCsvRecord(csvLine('pin-only', 1210, 'pin'))!);
+    sampler.offer(parseLichessCsvRecord(csvLine('low1', 1210, 'fork'))!);
+    sampler.offer(parseLichessCsvRecord(csvLine('low2', 1220, 'fork pin'))!);
+    sampler.offer(parseLichessCsvRecord(csvLine('high1', 1890, 'fork'))!);
+    sampler.offer(parseLichessCsvRecord(csvLine('high2', 1895, 'fork'))!);
+
+    expect(sampler.themes()).toEqual(['pin', 'fork']);
+    expect(sampler.records('fork').map(r => r.puzzleId)).toEqual(['low1', 'high1', 'low2', 'high2']);
+    expect(sampler.records('pin').map(r => r.puzzleId)).toEqual(['pin-only', 'low2']);
+  });
+
+  it('should sample the whole file in a single pass', async () => {
+    const lines = Array.from({ length: 50 }, (_, i) => csvLine(`p${i}`, 1000 + i * 20, i % 2 ? 'fork' : 'pin'));
+
+    const sample = await sampleLichessCsv(
+      Readable.from(csv(...lines)),
+      { perStratum: 1, ratingBucketSize: 500 },
+      { filter: { themes: ['fork'] } }
+    );
+
+    expect(sample.matched).toBe(25);
+    expect(sample.linesRead).toBe(51);
+    expect(Object.keys(sample.strata).sort()).toEqual(['fork:1000', 'fork:1500']);
+    expect(sample.records).toHaveLength(2);
+    expect(Object.keys(sample.byTheme)).toEqual(['fork']);
+  });
+});
@@ -5,6 +5,8 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { QualityLichessImporter, type ChessHawkPuzzle } from '../../scripts/quality-lichess-import';
+import { LichessImporter } from './importers/lichess-importer.ts';
+import { pgnMoves } from './importers/lichess-position';
 
 // Mock fetch for testing
 global.fetch = vi.fn();
@@ -152,7 +154,7 @@ invalid,incomplete`;
       const lichessPuzzle: LichessPuzzleMock = {
         puzzle: {
           id: 'abc123',
-          solution: ['e4', 'e5'],
+          solution: ['a7a6', 'b5a4'],
           themes: ['fork', 'opening'],
           rating: 1500
         },
@@ -167,7 +169,8 @@ invalid,incomplete`;
       expect(converted).toMatchObject({
         id: 'lichess_abc123',
         theme: 'fork',
-        solution: ['e4', 'e5'],
+        fen: 'r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3',
+        solution: ['a6', 'Ba4'],
         rating: 1500,
         difficulty: 'intermediate', // 1500 rating = intermediate
         source: 'Lichess',
@@ -194,7 +197,7 @@ invalid,incomplete`;
         const lichessPuzzle: LichessPuzzleMock = {
           puzzle: {
             id: `test_${rating}`,
-            solution: ['e4'],
+            solution: ['g1f3'],
             themes: ['fork'],
             rating
           },
@@ -212,7 +215,7 @@ invalid,incomplete`;
       const lichessPuzzle: LichessPuzzleMock = {
         puzzle: {
           id: 'test_points',
-          solution: ['e4'],
+          solution: ['g1f3'],
           themes: ['fork'],
           rating: 1800 // Advanced level
         },
@@ -239,7 +242,7 @@ invalid,incomplete`;
         const lichessPuzzle: LichessPuzzleMock = {
           puzzle: {
             id: `test_${theme}`,
-            solution: ['e4'],
+            solution: ['g1f3'],
             themes: [theme],
             rating: 1500
           },
@@ -287,7 +290,7 @@ unique1,fen3,Nf3,1600,100,90,1000,fork tactical,url3,tag3`;
     it('should demonstrate import workflow readiness', () => {
       // This test shows that once a database is available, the import process will work
       const csvData = `PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
-test1,rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1,e2e4,1500,100,90,1000,fork opening,url1,tag1`;
+test1,rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1,e2e4 e7e5,1500,100,90,1000,fork opening,url1,tag1`;
       
       const puzzles = importer.parsePuzzlesFromCSV(csvData, 'fork', 1);
       expect(puzzles).toHaveLength(1);
@@ -351,7 +354,7 @@ test1,rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1,e2e4,1500,100,90,
   describe('Integration Tests', () => {
     it('should handle CSV to Chess Hawk conversion', () => {
       const csvData = `PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
-int_test1,rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1,e2e4,1400,100,90,1000,fork opening,url1,tag1`;
+int_test1,rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1,e2e4 e7e5,1400,100,90,1000,fork opening,url1,tag1`;
       
       const puzzles = importer.parsePuzzlesFromCSV(csvData, 'fork', 1);
       expect(puzzles).toHaveLength(1);
@@ -368,6 +371,37 @@ int_test1,rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1,e2e4,1400,100
       });
     });
 
+    it('should apply the setup move and convert the solution to SAN', () => {
+      const csvData = `PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+setup1,r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3,f1c4 g8f6 f3g5 d7d5,1500,100,90,1000,fork opening,url1,tag1`;
+
+      const [lichessPuzzle] = importer.parsePuzzlesFromCSV(csvData, 'fork', 1);
+      const converted = importer['convertPuzzle'](lichessPuzzle, 'fork');
+
+      expect(converted.fen).toBe('r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3');
+      expect(converted.solution).toEqual(['Nf6', 'Ng5', 'd5']);
+      expect(converted.firstMove).toBe('player');
+    });
+
+    it('should replay the game PGN up to the initial ply', () => {
+      const converted = importer['convertPuzzle']({
+        puzzle: { id: 'api1', solution: ['g8f6'], themes: ['fork'], rating: 1500, initialPly: 4 },
+        game: { pgn: '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. O-O *' }
+      } as any, 'fork');
+
+      expect(converted.fen).toBe('r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3');
+      expect(converted.solution).toEqual(['Nf6']);
+    });
+
+    it('should reject puzzles with illegal solution moves', () => {
+      const csvData = `PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+illegal1,rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1,e2e4 e7e4,1500,100,90,1000,fork opening,url1,tag1`;
+
+      const [lichessPuzzle] = importer.parsePuzzlesFromCSV(csvData, 'fork', 1);
+
+      expect(() => importer['convertPuzzle'](lichessPuzzle, 'fork')).toThrow('Invalid move: e7e4');
+    });
+
     it('should handle database unavailable gracefully', async () => {
       const fs = require('fs');
       vi.spyOn(fs, 'existsSync').mockReturnValue(false);
@@ -448,6 +482,50 @@ describe('Lichess API Integration Tests', () => {
   });
 });
 
+describe('LichessImporter position derivation', () => {
+  it('should read moves from annotated PGN', () => {
+    const pgn = '[Event "Casual"]\n\n1. e4 {best by test} e5 (1... c5 2. Nf3) 2. Nf3 $1 Nc6 1-0';
+
+    expect(pgnMoves(pgn)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+  });
+
+  it('should reject API puzzles whose solution is illegal at the initial ply', () => {
+    const importer = new LichessImporter();
+    const puzzle = {
+      puzzle: { id: 'api1', solution: ['g8f6'], themes: ['fork'], rating: 1500, initialPly: 4 },
+      game: { pgn: 'e4 e5 Nf3 Nc6 Bc4' }
+    };
+
+    expect(importer.validatePuzzle(puzzle)).toEqual([]);
+    expect(importer.derivePosition(puzzle).solution).toEqual(['Nf6']);
+
+    const errors = importer.validatePuzzle({ ...puzzle, puzzle: { ...puzzle.puzzle, solution: ['g8g6'] } });
+    expect(errors[0]).toContain('Invalid move: g8g6');
+  });
+
+  it('should import API puzzles at the position after the setup move', async () => {
+    const importer = new LichessImporter();
+    const puzzle = {
+      puzzle: { id: 'api2', solution: ['g8f6', 'd2d3'], themes: ['fork'], rating: 1500, initialPly: 4 },
+      game: { pgn: 'e4 e5 Nf3 Nc6 Bc4 Nf6' }
+    };
+    const broken = { ...puzzle, puzzle: { ...puzzle.puzzle, id: 'api3', solution: ['g8g6'] } };
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify({ puzzles: [puzzle, broken] })));
+
+    const imported = await importer.importPuzzles(2);
+
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({
+      id: 'lichess_api2',
+      fen: 'r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3',
+      setupMove: 'Bc4',
+      solution: [{ move: 'Nf6', opponentResponse: 'd3' }],
+      difficulty: 'intermediate',
+      category: 'fork'
+    });
+  });
+});
+
 // Helper functions for test data generation
 export const generateMockLichessPuzzle = (overrides: Partial<LichessPuzzleMock> = {}): LichessPuzzleMock => {
   return {
@@ -6,12 +6,16 @@
  */
 
 import type { ChessPuzzle, IUIManager, FeedbackType, NotificationOptions } from '../types/chess-hawk';
+import { buildSolutionFrames, SolutionPlayback, type SolutionFrame } from '../utils/playback';
+import type { AnnotationLayer } from '../components/annotations';
+import { MAX_HINT_TIER, type Hint } from '../utils/hints';
 
 /**
  * UIManager klasse for håndtering av brukergrensesnitt
  */
 class UIManager implements IUIManager {
     #feedbackTimer: NodeJS.Timeout | null = null;
+    #playback: SolutionPlayback | null = null;
     // #notificationQueue: Array<{ message: string; type: FeedbackType; duration: number }> = [];
 
     constructor() {
@@ -80,7 +84,7 @@ class UIManager implements IUIManager {
     }
 
     /**
-     * Show solution
+     * Show solution med gjennomgang trekk for trekk på brettet
      */
     showSolution(): void {
         const currentProblem = (window as any).currentProblem as ChessPuzzle;
@@ -99,9 +103,11 @@ class UIManager implements IUIManager {
         console.log(`📖 Displaying solution for problem: ${currentProblem.id}`);
         console.log(`   🎯 Solution moves:`, currentProblem.solution);
         
+        this.#stopPlayback();
+        
         const solutionMoves = currentProblem.solution || [];
         const movesHtml = solutionMoves.map((move, index) => 
-            `<span class="move-item">
+            `<span class="move-item" data-ply="${index + 1}">
                 <span class="move-number">${index + 1}.</span>
                 <span class="move-notation">${move}</span>
             </span>`
@@ -111,6 +117,12 @@ class UIManager implements IUIManager {
             <div class="solution-content">
                 <h4 class="solution-title">📖 Løsning:</h4>
                 <div class="solution-moves">${movesHtml}</div>
+                <div class="solution-playback">
+                    <button id="solution-prev" class="btn btn-secondary">⏮ Forrige</button>
+                    <button id="solution-play" class="btn btn-primary">▶ Spill av</button>
+                    <button id="solution-next" class="btn btn-secondary">Neste ⏭</button>
+                    <span id="solution-ply" class="solution-ply"></span>
+                </div>
                 <div class="solution-meta">
                     <span class="category">${currentProblem.category || currentProblem.theme || 'Ukjent'}</span>
                     <span class="difficulty">${currentProblem.difficulty}</span>
@@ -122,6 +134,24 @@ class UIManager implements IUIManager {
         solutionElement.style.display = 'block';
         solutionElement.classList.add('visible');
         
+        try {
+            this.#playback = new SolutionPlayback(buildSolutionFrames(currentProblem), {
+                onChange: frame => this.#renderSolutionFrame(frame)
+            });
+        } catch (error) {
+            // Ugyldig FEN - vis bare trekklisten
+            console.error('❌ Could not replay solution:', error);
+            solutionElement.querySelector('.solution-playback')?.remove();
+            return;
+        }
+        
+        document.getElementById('solution-prev')?.addEventListener('click', () => this.#playback?.prev());
+        document.getElementById('solution-play')?.addEventListener('click', () => this.#playback?.toggle());
+        document.getElementById('solution-next')?.addEventListener('click', () => this.#playback?.next());
+        
+        this.#renderSolutionFrame(this.#playback.current);
+        this.#playback.play();
+        
         console.log('   ✅ Solution displayed successfully');
     }
 
@@ -129,6 +159,8 @@ class UIManager implements IUIManager {
      * Clear solution display
      */
     clearSolution(): void {
+        this.#stopPlayback();
+        
         const solutionElement = document.getElementById('solution');
         if (solutionElement) {
             solutionElement.style.display = 'none';
@@ -137,6 +169,97 @@ class UIManager implements IUIManager {
         }
     }
 
+    /**
+     * Vis et hint og marker feltene det peker på
+     */
+    showHint(hint: Hint): void {
+        this.showFeedback(`💡 Hint ${hint.tier}/${MAX_HINT_TIER}: ${hint.message}`, 'info', 5000);
+        this.clearHint();
+        
+        const annotations = this.#annotations();
+        if (!annotations) return;
+        
+        annotations.setHighlights(hint.squares.map((square, index) => ({
+            square,
+            color: index === 0 ? '#ffeb3b' : '#4caf50'
+        })));
+        const [from, to] = hint.squares;
+        if (hint.kind === 'move' && from && to) {
+            annotations.drawArrow(from, to, '#ffeb3b');
+        }
+    }
+
+    /**
+     * Fjern hint-markeringer fra brettet
+     */
+    clearHint(): void {
+        this.#clearSolutionMarks();
+    }
+
+    /**
+     * Tegn én stilling fra løsningen: brett, markeringer, pil og knappestatus
+     */
+    #renderSolutionFrame(frame: SolutionFrame): void {
+        const playback = this.#playback;
+        if (!playback) return;
+        
+        (window as any).boardManager?.updatePosition(frame.fen);
+        this.#clearSolutionMarks();
+        
+        const annotations = this.#annotations();
+        if (annotations && frame.from && frame.to) {
+            annotations.setHighlights([
+                { square: frame.from, color: '#ffeb3b' },
+                { square: frame.to, color: '#4caf50' }
+            ]);
+            annotations.drawArrow(frame.from, frame.to, '#4caf50');
+        }
+        
+        document.querySelectorAll('#solution .move-item').forEach(item => {
+            item.classList.toggle('current', item.getAttribute('data-ply') === String(frame.ply));
+        });
+        
+        const plyElement = document.getElementById('solution-ply');
+        if (plyElement) {
+            plyElement.textContent = `${frame.ply}/${playback.frames.length - 1}`;
+        }
+        const playButton = document.getElementById('solution-play');
+        if (playButton) {
+            playButton.textContent = playback.isPlaying ? '⏸ Pause' : '▶ Spill av';
+        }
+        document.getElementById('solution-prev')?.toggleAttribute('disabled', playback.atStart);
+        document.getElementById('solution-next')?.toggleAttribute('disabled', playback.atEnd);
+    }
+
+    /**
+     * Stopp gjennomgangen og sett brettet tilbake til spillets stilling
+     */
+    #stopPlayback(): void {
+        if (!this.#playback) return;
+        
+        this.#playback.destroy();
+        this.#playback = null;
+        this.#clearSolutionMarks();
+        
+        const game = (window as any).game;
+        if (game) {
+            (window as any).boardManager?.updatePosition(game.fen());
+        }
+    }
+
+    /**
+     * Annoteringslaget til brettet, når BoardManager har satt det opp
+     */
+    #annotations(): AnnotationLayer | null {
+        return (window as any).boardManager?.annotations || null;
+    }
+
+    #clearSolutionMarks(): void {
+        const annotations = this.#annotations();
+        annotations?.setHighlights([]);
+        annotations?.clear();
+    }
+
     /**
      * Update game status
      */
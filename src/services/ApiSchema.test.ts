@@ -0,0 +1,105 @@
+/**
+ * API Schema Tests
+ * Component schemas, the validator and the OpenAPI document built from them
+ */
+
+import { describe, it, expect } from 'vitest';
+import { API_SCHEMAS, PUZZLE_API_SPEC, validateApiPayload, parseApiResponse, parseApiRequest } from './ApiSchema';
+import { InvalidApiRequestError, InvalidApiResponseError } from '../types';
+import { createRushRun } from '../utils/rush';
+import { startAttempt, finishAttempt } from '../utils/attempts';
+import problems from '../data/problems.json';
+
+const puzzle = {
+  id: 'schema_fork_1',
+  theme: 'fork',
+  title: 'Gaffel',
+  description: 'Angrip to brikker samtidig',
+  fen: 'rnbqkb1r/pppp1ppp/5n2/4p3/2B1P3/8/PPPP1PPP/RNBQK1NR w KQkq - 2 3',
+  solution: ['Nxe5'],
+  difficulty: 'beginner',
+  rating: 1200,
+  points: 10,
+  hint: 'Se etter gaffel-muligheter',
+  tags: ['fork'],
+  source: 'Test',
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('validateApiPayload', () => {
+  it('accepts the bundled puzzle database', () => {
+    expect(validateApiPayload('PuzzleList', problems)).toEqual([]);
+  });
+
+  it('accepts payloads built by the app itself', () => {
+    const attempt = finishAttempt(startAttempt('ola', puzzle, 1000), 'solved', 5000);
+
+    expect(validateApiPayload('RushRun', createRushRun('survival'))).toEqual([]);
+    expect(validateApiPayload('AttemptList', [attempt])).toEqual([]);
+    expect(validateApiPayload('ExportedUserData', { progress: null, settings: null, attempts: [attempt] })).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    const broken = { ...puzzle, fen: 42, difficulty: 'grandmaster', alternatives: [['Nxe5', '']] } as Record<string, unknown>;
+    delete broken.solution;
+
+    expect(validateApiPayload('PuzzleList', { puzzles: [broken], total: 1.5 })).toEqual([
+      { path: '$.puzzles[0].solution', message: 'is required' },
+      { path: '$.puzzles[0].fen', message: 'expected string, got number' },
+      { path: '$.puzzles[0].difficulty', message: 'expected one of beginner, intermediate, advanced, got grandmaster' },
+      { path: '$.puzzles[0].alternatives[0][1]', message: 'must not be empty' },
+      { path: '$.total', message: 'expected integer, got number' }
+    ]);
+  });
+
+  it('checks maps and nullable fields in user progress', () => {
+    const progress = {
+      userId: 'ola',
+      puzzlesSolved: [],
+      totalTime: 0,
+      averageRating: 0,
+      streaks: { current: 0, best: 0 },
+      themeProgress: { fork: { solved: 1, total: 'two', averageRating: 1200 } },
+      rating: null
+    };
+
+    expect(validateApiPayload('UserProgress', progress)).toEqual([
+      { path: '$.themeProgress.fork.total', message: 'expected number, got string' }
+    ]);
+    expect(validateApiPayload('UserProgress', null)).toEqual([{ path: '$', message: 'expected object, got null' }]);
+  });
+});
+
+describe('parseApiResponse and parseApiRequest', () => {
+  it('return conforming payloads unchanged', () => {
+    expect(parseApiResponse('Puzzle', puzzle, 'GET /puzzles/{id}')).toBe(puzzle);
+  });
+
+  it('throw typed errors with the endpoint and issues', () => {
+    const response = (() => {
+      try {
+        return parseApiResponse('SolutionResult', { success: 'yes' }, 'POST /users/{userId}/solutions');
+      } catch (error) {
+        return error;
+      }
+    })();
+
+    expect(response).toBeInstanceOf(InvalidApiResponseError);
+    expect(response).toMatchObject({
+      code: 'INVALID_API_RESPONSE',
+      message: 'Invalid SolutionResult from POST /users/{userId}/solutions: $.timeSpent is required; $.attempts is required; $.score is required (+1 more)',
+      context: { endpoint: 'POST /users/{userId}/solutions', schema: 'SolutionResult' }
+    });
+
+    expect(() => parseApiRequest('RushRun', {}, 'POST /users/{userId}/rush-runs')).toThrow(InvalidApiRequestError);
+  });
+});
+
+describe('PUZZLE_API_SPEC', () => {
+  it('refers only to schemas that exist', () => {
+    const refs = JSON.stringify(PUZZLE_API_SPEC).match(/#\/components\/schemas\/\w+/g) || [];
+
+    expect(refs.length).toBeGreaterThan(0);
+    refs.forEach(ref => expect(API_SCHEMAS[ref.split('/').pop()!]).toBeDefined());
+  });
+});
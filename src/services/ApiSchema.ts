@@ -0,0 +1,547 @@
+/**
+ * Chess Hawk Puzzle API Schema
+ * OpenAPI description of the puzzle API and runtime validators built from it.
+ * ApiPuzzleService checks every response and the reference server checks every
+ * request body against the same component schemas.
+ */
+
+import type { Puzzle } from '../stores/GameStore';
+import type { UserProgress, SolutionResult, RushRunResult, ExportedUserData } from './PuzzleService';
+import type { PuzzleAttempt } from '../utils/attempts';
+import type { RushRun } from '../utils/rush';
+import type { BrokenPuzzle } from '../utils/validation';
+import { InvalidApiRequestError, InvalidApiResponseError, CHESS_HAWK_VERSION } from '../types';
+
+/**
+ * The subset of OpenAPI 3.0 schema objects the validator understands
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  nullable?: boolean;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  minLength?: number;
+  pattern?: string;
+  format?: 'date-time';
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema; // schema = map of values, true/absent = extra keys allowed
+  items?: JsonSchema;
+  $ref?: string;
+}
+
+export interface ApiSchemaIssue {
+  path: string; // e.g. '$.puzzles[2].fen'
+  message: string;
+}
+
+export interface SolutionSubmission {
+  puzzleId: string;
+  solution: string[];
+  timeSpent: number;
+  attempts: number;
+  hintsUsed?: number | null;
+  attemptId?: string; // client id; the same id is graded once
+}
+
+export interface PuzzleStats {
+  solveRate: number;
+  averageTime: number;
+  averageAttempts: number;
+}
+
+export interface DatabaseValidationResult {
+  valid: boolean;
+  total?: number;
+  broken?: BrokenPuzzle[];
+}
+
+/**
+ * Payload type behind every named component schema
+ */
+export interface ApiPayloads {
+  Puzzle: Puzzle;
+  PuzzleList: { puzzles: Puzzle[]; total?: number };
+  DuePuzzles: { puzzles: Puzzle[] };
+  PuzzleStats: PuzzleStats;
+  UserProgress: UserProgress;
+  SolutionSubmission: SolutionSubmission;
+  SolutionResult: SolutionResult;
+  RushRun: RushRun;
+  RushRunResult: RushRunResult;
+  PuzzleAttempt: PuzzleAttempt;
+  AttemptList: PuzzleAttempt[];
+  ExportedUserData: ExportedUserData;
+  DatabaseValidationResult: DatabaseValidationResult;
+  Error: { error: string; issues?: ApiSchemaIssue[] };
+}
+
+export type ApiSchemaName = keyof ApiPayloads;
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const count: JsonSchema = { type: 'number', minimum: 0 };
+const timestamp: JsonSchema = { type: 'string', format: 'date-time' };
+const moves: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+/**
+ * Component schemas, including the nested ones the named payloads refer to
+ */
+export const API_SCHEMAS: Record<ApiSchemaName, JsonSchema> & Record<string, JsonSchema> = {
+  Puzzle: {
+    type: 'object',
+    required: ['id', 'theme', 'title', 'description', 'fen', 'solution', 'difficulty', 'rating', 'points', 'hint', 'tags', 'source', 'createdAt'],
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      theme: { type: 'string' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      fen: { type: 'string', minLength: 1 },
+      solution: { ...moves, description: 'SAN or UCI moves; opponent replies included' },
+      difficulty: { type: 'string', enum: ['beginner', 'intermediate', 'advanced'] },
+      rating: { type: 'number' },
+      ratingDeviation: count,
+      points: { type: 'number' },
+      hint: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' } },
+      source: { type: 'string' },
+      createdAt: { type: 'string' },
+      firstMove: { type: 'string', enum: ['player', 'opponent'] },
+      alternatives: { type: 'array', items: moves }
+    }
+  },
+  PuzzleList: {
+    type: 'object',
+    required: ['puzzles'],
+    properties: {
+      puzzles: { type: 'array', items: ref('Puzzle') },
+      total: { type: 'integer', minimum: 0, description: 'Matching puzzles before limit and offset' }
+    }
+  },
+  DuePuzzles: {
+    type: 'object',
+    required: ['puzzles'],
+    properties: { puzzles: { type: 'array', items: ref('Puzzle') } }
+  },
+  PuzzleStats: {
+    type: 'object',
+    required: ['solveRate', 'averageTime', 'averageAttempts'],
+    properties: { solveRate: count, averageTime: count, averageAttempts: count }
+  },
+  ThemeProgress: {
+    type: 'object',
+    required: ['solved', 'total', 'averageRating'],
+    properties: { solved: count, total: count, averageRating: { type: 'number' } }
+  },
+  ReviewCard: {
+    type: 'object',
+    required: ['puzzleId', 'interval', 'ease', 'repetitions', 'lapses', 'dueAt', 'lastReviewedAt'],
+    properties: {
+      puzzleId: { type: 'string' },
+      interval: count,
+      ease: count,
+      repetitions: count,
+      lapses: count,
+      dueAt: timestamp,
+      lastReviewedAt: timestamp
+    }
+  },
+  UserRating: {
+    type: 'object',
+    required: ['rating', 'deviation', 'volatility', 'history'],
+    properties: {
+      rating: { type: 'number' },
+      deviation: count,
+      volatility: count,
+      history: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['rating', 'deviation', 'puzzleId', 'success', 'timestamp'],
+          properties: {
+            rating: { type: 'number' },
+            deviation: count,
+            puzzleId: { type: 'string' },
+            success: { type: 'boolean' },
+            timestamp: timestamp
+          }
+        }
+      }
+    }
+  },
+  UserProgress: {
+    type: 'object',
+    required: ['userId', 'puzzlesSolved', 'totalTime', 'averageRating', 'streaks', 'themeProgress'],
+    properties: {
+      userId: { type: 'string' },
+      puzzlesSolved: { type: 'array', items: { type: 'string' } },
+      totalTime: count,
+      averageRating: { type: 'number' },
+      streaks: {
+        type: 'object',
+        required: ['current', 'best'],
+        properties: { current: count, best: count }
+      },
+      themeProgress: { type: 'object', additionalProperties: ref('ThemeProgress') },
+      reviewCards: { type: 'object', additionalProperties: ref('ReviewCard') },
+      rating: ref('UserRating'),
+      rushRuns: { type: 'array', items: ref('RushRun') },
+      rushBests: { type: 'object', additionalProperties: count }
+    }
+  },
+  SolutionSubmission: {
+    type: 'object',
+    required: ['puzzleId', 'solution', 'timeSpent', 'attempts'],
+    properties: {
+      puzzleId: { type: 'string', minLength: 1 },
+      solution: moves,
+      timeSpent: { ...count, description: 'Seconds' },
+      attempts: count,
+      hintsUsed: { ...count, nullable: true, description: 'Highest hint tier reached' },
+      attemptId: { type: 'string', minLength: 1, description: 'Client-generated; a replayed id returns the first result unchanged' }
+    }
+  },
+  SolutionResult: {
+    type: 'object',
+    required: ['success', 'timeSpent', 'attempts', 'score'],
+    properties: {
+      success: { type: 'boolean' },
+      timeSpent: count,
+      attempts: count,
+      score: count,
+      nextPuzzleId: { type: 'string' }
+    }
+  },
+  RushRun: {
+    type: 'object',
+    required: ['id', 'variant', 'startedAt', 'endedAt', 'endReason', 'score', 'strikes', 'entries'],
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      variant: { type: 'string', enum: ['threeMinute', 'fiveMinute', 'survival'] },
+      startedAt: timestamp,
+      endedAt: { ...timestamp, nullable: true },
+      endReason: { type: 'string', enum: ['time', 'strikes', 'abandoned'], nullable: true },
+      score: count,
+      strikes: count,
+      entries: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['puzzleId', 'rating', 'solved', 'timeSpent'],
+          properties: {
+            puzzleId: { type: 'string' },
+            rating: { type: 'number' },
+            solved: { type: 'boolean' },
+            timeSpent: count
+          }
+        }
+      }
+    }
+  },
+  RushRunResult: {
+    type: 'object',
+    required: ['personalBest', 'isPersonalBest'],
+    properties: { personalBest: count, isPersonalBest: { type: 'boolean' } }
+  },
+  PuzzleAttempt: {
+    type: 'object',
+    required: ['id', 'userId', 'puzzleId', 'theme', 'rating', 'startedAt', 'endedAt', 'result', 'timeSpent', 'wrongMoves', 'hintsUsed', 'events'],
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      userId: { type: 'string' },
+      puzzleId: { type: 'string', minLength: 1 },
+      theme: { type: 'string' },
+      rating: { type: 'number' },
+      startedAt: timestamp,
+      endedAt: { ...timestamp, nullable: true },
+      result: { type: 'string', enum: ['solved', 'failed', 'abandoned'], nullable: true },
+      timeSpent: count,
+      wrongMoves: count,
+      hintsUsed: count,
+      events: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['type', 'timestamp'],
+          properties: {
+            type: { type: 'string', enum: ['puzzle_loaded', 'move_made', 'puzzle_solved', 'puzzle_failed', 'hint_requested', 'solution_shown'] },
+            timestamp: { type: 'number' },
+            move: { type: 'string' },
+            correct: { type: 'boolean' },
+            timeMs: count,
+            tier: count
+          }
+        }
+      }
+    }
+  },
+  AttemptList: { type: 'array', items: ref('PuzzleAttempt') },
+  ExportedUserData: {
+    type: 'object',
+    properties: {
+      progress: { ...ref('UserProgress'), nullable: true },
+      settings: { type: 'object', nullable: true },
+      attempts: { type: 'array', items: ref('PuzzleAttempt') },
+      exportedAt: timestamp
+    }
+  },
+  DatabaseValidationResult: {
+    type: 'object',
+    required: ['valid'],
+    properties: {
+      valid: { type: 'boolean' },
+      total: { type: 'integer', minimum: 0 },
+      broken: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'theme', 'issues'],
+          properties: {
+            id: { type: 'string' },
+            theme: { type: 'string' },
+            issues: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['code', 'message'],
+                properties: { code: { type: 'string' }, message: { type: 'string' } }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['path', 'message'],
+          properties: { path: { type: 'string' }, message: { type: 'string' } }
+        }
+      }
+    }
+  }
+};
+
+const userIdSchema: JsonSchema = { type: 'string', pattern: '^[\\w.@-]{1,64}$' };
+const userId = { name: 'userId', in: 'path', required: true, schema: userIdSchema };
+const puzzleId = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+const query = (name: string, schema: JsonSchema, description?: string) => ({ name, in: 'query', schema, description });
+const puzzleFilter = [
+  query('theme', { type: 'string' }),
+  query('difficulty', API_SCHEMAS.Puzzle.properties!.difficulty!),
+  query('minRating', count),
+  query('maxRating', count),
+  { ...query('tags', { type: 'array', items: { type: 'string' } }, 'Any of these tags'), explode: true }
+];
+
+const body = (name: ApiSchemaName) => ({ required: true, content: { 'application/json': { schema: ref(name) } } });
+const ok = (name: ApiSchemaName, description = 'OK') => ({ description, content: { 'application/json': { schema: ref(name) } } });
+const failure = (description: string) => ({ description, content: { 'application/json': { schema: ref('Error') } } });
+const noContent = { description: 'Stored' };
+const badRequest = failure('Invalid parameters or body');
+const notFound = failure('Not found');
+
+/**
+ * OpenAPI 3.0 document for the puzzle API, served by the reference server at /openapi.json
+ */
+export const PUZZLE_API_SPEC = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Chess Hawk Puzzle API',
+    version: CHESS_HAWK_VERSION,
+    description: 'Puzzles, grading and user progress for ApiPuzzleService'
+  },
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/puzzles': {
+      get: {
+        operationId: 'getPuzzles',
+        parameters: [...puzzleFilter, query('limit', count), query('offset', count)],
+        responses: { 200: ok('PuzzleList'), 400: badRequest }
+      }
+    },
+    '/puzzles/random': {
+      get: {
+        operationId: 'getRandomPuzzle',
+        parameters: [...puzzleFilter, query('userId', userIdSchema, 'Pick adaptively for this user')],
+        responses: { 200: ok('Puzzle'), 400: badRequest, 404: failure('No puzzle matches the filter') }
+      }
+    },
+    '/puzzles/{id}': {
+      get: { operationId: 'getPuzzle', parameters: [puzzleId], responses: { 200: ok('Puzzle'), 404: notFound } }
+    },
+    '/puzzles/{id}/stats': {
+      get: { operationId: 'getPuzzleStats', parameters: [puzzleId], responses: { 200: ok('PuzzleStats'), 404: notFound } }
+    },
+    '/users/{userId}/progress': {
+      get: { operationId: 'getUserProgress', parameters: [userId], responses: { 200: ok('UserProgress'), 404: failure('No progress yet') } }
+    },
+    '/users/{userId}/solutions': {
+      post: {
+        operationId: 'submitSolution',
+        parameters: [userId],
+        requestBody: body('SolutionSubmission'),
+        responses: { 200: ok('SolutionResult', 'Graded; progress and puzzle statistics updated'), 400: badRequest, 404: notFound }
+      }
+    },
+    '/users/{userId}/reviews/due': {
+      get: { operationId: 'getDuePuzzles', parameters: [userId], responses: { 200: ok('DuePuzzles') } }
+    },
+    '/users/{userId}/rush-runs': {
+      post: {
+        operationId: 'saveRushRun',
+        parameters: [userId],
+        requestBody: body('RushRun'),
+        responses: { 200: ok('RushRunResult'), 400: badRequest }
+      }
+    },
+    '/users/{userId}/attempts': {
+      get: {
+        operationId: 'getAttemptHistory',
+        parameters: [
+          userId,
+          query('puzzleId', { type: 'string' }),
+          query('theme', { type: 'string' }),
+          query('result', { type: 'string', enum: ['solved', 'failed', 'abandoned'] }),
+          query('since', timestamp, 'Inclusive'),
+          query('until', timestamp, 'Exclusive'),
+          query('limit', count)
+        ],
+        responses: { 200: ok('AttemptList'), 400: badRequest }
+      },
+      post: {
+        operationId: 'recordAttempt',
+        parameters: [userId],
+        requestBody: body('PuzzleAttempt'),
+        responses: { 204: { description: 'Stored; an attempt with the same id is replaced' }, 400: badRequest }
+      }
+    },
+    '/users/{userId}/export': {
+      get: { operationId: 'exportUserData', parameters: [userId], responses: { 200: ok('ExportedUserData') } }
+    },
+    '/users/{userId}/import': {
+      post: {
+        operationId: 'importUserData',
+        parameters: [userId],
+        requestBody: body('ExportedUserData'),
+        responses: { 204: noContent, 400: badRequest }
+      }
+    },
+    '/admin/validate': {
+      get: { operationId: 'validatePuzzleDatabase', responses: { 200: ok('DatabaseValidationResult') } }
+    }
+  },
+  components: {
+    securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    schemas: API_SCHEMAS
+  }
+} as const;
+
+/**
+ * Check a payload against a component schema; an empty list means it conforms
+ */
+export function validateApiPayload(name: ApiSchemaName, value: unknown): ApiSchemaIssue[] {
+  const issues: ApiSchemaIssue[] = [];
+  checkValue(API_SCHEMAS[name], value, '$', issues);
+  return issues;
+}
+
+/**
+ * A server response as its payload type, or InvalidApiResponseError
+ */
+export function parseApiResponse<N extends ApiSchemaName>(name: N, value: unknown, endpoint: string): ApiPayloads[N] {
+  const issues = validateApiPayload(name, value);
+  if (issues.length > 0) throw new InvalidApiResponseError(endpoint, name, issues);
+  return value as ApiPayloads[N];
+}
+
+/**
+ * A request body as its payload type, or InvalidApiRequestError
+ */
+export function parseApiRequest<N extends ApiSchemaName>(name: N, value: unknown, endpoint: string): ApiPayloads[N] {
+  const issues = validateApiPayload(name, value);
+  if (issues.length > 0) throw new InvalidApiRequestError(endpoint, name, issues);
+  return value as ApiPayloads[N];
+}
+
+function checkValue(schema: JsonSchema, value: unknown, path: string, issues: ApiSchemaIssue[]): void {
+  if (schema.$ref) {
+    const target = API_SCHEMAS[schema.$ref.replace('#/components/schemas/', '')];
+    if (!target) throw new Error(`Unknown schema reference: ${schema.$ref}`);
+    checkValue({ ...target, nullable: schema.nullable ?? target.nullable }, value, path, issues);
+    return;
+  }
+
+  if (value === null || value === undefined) {
+    if (!(value === null && schema.nullable)) {
+      issues.push({ path, message: `expected ${schema.type || 'a value'}, got ${value}` });
+    }
+    return;
+  }
+
+  if (schema.type && !hasType(schema.type, value)) {
+    issues.push({ path, message: `expected ${schema.type}, got ${Array.isArray(value) ? 'array' : typeof value}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `expected one of ${schema.enum.join(', ')}, got ${String(value)}` });
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    issues.push({ path, message: `must be at least ${schema.minimum}` });
+  }
+  if (schema.minLength !== undefined && typeof value === 'string' && value.length < schema.minLength) {
+    issues.push({ path, message: 'must not be empty' });
+  }
+  if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ path, message: `must match ${schema.pattern}` });
+  }
+  if (schema.format === 'date-time' && typeof value === 'string' && Number.isNaN(Date.parse(value))) {
+    issues.push({ path, message: `expected an ISO timestamp, got ${value}` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => checkValue(schema.items!, item, `${path}[${index}]`, issues));
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    schema.required?.forEach(key => {
+      if (!(key in record)) issues.push({ path: `${path}.${key}`, message: 'is required' });
+    });
+    Object.entries(record).forEach(([key, child]) => {
+      const property = schema.properties?.[key];
+      if (property) {
+        // Optional fields may be null or missing; required ones follow their schema
+        if (child === undefined || (child === null && !schema.required?.includes(key) && !property.nullable)) return;
+        checkValue(property, child, `${path}.${key}`, issues);
+      } else if (typeof schema.additionalProperties === 'object') {
+        checkValue(schema.additionalProperties, child, `${path}.${key}`, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${key}`, message: 'is not allowed' });
+      }
+    });
+  }
+}
+
+function hasType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Cached Puzzle Service Tests
+ * LRU by id, query TTL, prefetching, invalidation and selection through the factory
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CachedPuzzleService } from './CachedPuzzleService';
+import { ApiPuzzleService, LocalPuzzleService, PuzzleServiceFactory } from './PuzzleService';
+import { PuzzleOutbox } from './PuzzleOutbox';
+import { MemoryStorageAdapter, PersistentStorage } from '../utils/storage';
+import type { Puzzle } from '../stores/GameStore';
+
+const makePuzzle = (id: string, theme = 'fork', rating = 1200): Puzzle => ({
+  id,
+  theme,
+  title: `Oppgave ${id}`,
+  description: 'Finn det beste trekket',
+  fen: 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2',
+  solution: ['d8h4'],
+  difficulty: 'beginner',
+  rating,
+  points: 5,
+  hint: 'Se etter sjakk',
+  tags: [theme],
+  source: 'Test',
+  createdAt: '2024-01-01T00:00:00.000Z'
+});
+
+const puzzles = [
+  makePuzzle('fork_1'),
+  makePuzzle('fork_2'),
+  makePuzzle('fork_3'),
+  makePuzzle('fork_4'),
+  makePuzzle('pin_1', 'pin', 1500)
+];
+
+describe('CachedPuzzleService', () => {
+  let inner: LocalPuzzleService;
+  let now: number;
+
+  beforeEach(() => {
+    inner = new LocalPuzzleService(undefined, new PersistentStorage({ adapter: new MemoryStorageAdapter(), legacy: null }), async () => puzzles);
+    vi.spyOn(inner, 'getPuzzle');
+    vi.spyOn(inner, 'getPuzzles');
+    now = 0;
+  });
+
+  const cached = (options = {}) => new CachedPuzzleService(inner, { now: () => now, prefetchCount: 0, ...options });
+
+  it('serves puzzles by id from the cache and shares concurrent loads', async () => {
+    const service = cached();
+
+    const [first, second] = await Promise.all([service.getPuzzle('pin_1'), service.getPuzzle('pin_1')]);
+    expect(await service.getPuzzle('pin_1')).toBe(first);
+    expect(second).toBe(first);
+    expect(inner.getPuzzle).toHaveBeenCalledTimes(1);
+  });
+
+  it('forgets the least recently used puzzle when full', async () => {
+    const service = cached({ maxPuzzles: 2 });
+
+    await service.getPuzzle('fork_1');
+    await service.getPuzzle('fork_2');
+    await service.getPuzzle('fork_1');
+    await service.getPuzzle('fork_3'); // evicts fork_2
+    await service.getPuzzle('fork_1');
+    await service.getPuzzle('fork_2');
+
+    expect(vi.mocked(inner.getPuzzle).mock.calls.map(([id]) => id)).toEqual(['fork_1', 'fork_2', 'fork_3', 'fork_2']);
+  });
+
+  it('serves filtered queries until their time to live runs out', async () => {
+    const service = cached({ queryTtlMs: 1000 });
+
+    const forks = await service.getPuzzles({ theme: 'fork', tags: ['fork', 'pin'] });
+    forks.pop();
+    now = 999;
+    expect(await service.getPuzzles({ tags: ['pin', 'fork'], theme: 'fork', userId: 'ola' })).toHaveLength(4);
+    expect(inner.getPuzzles).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    await service.getPuzzles({ theme: 'fork', tags: ['fork', 'pin'] });
+    expect(inner.getPuzzles).toHaveBeenCalledTimes(2);
+
+    // Puzzles from a query are cached by id as well
+    await service.getPuzzle('fork_3');
+    expect(inner.getPuzzle).not.toHaveBeenCalled();
+  });
+
+  it('prefetches the puzzles after the one being played and the suggested next one', async () => {
+    const service = cached({ maxPuzzles: 2, prefetchCount: 2 });
+    await service.getPuzzles({ theme: 'fork' }); // only fork_3 and fork_4 stay cached
+
+    await service.getPuzzle('fork_1');
+    await vi.waitFor(() => expect(inner.getPuzzle).toHaveBeenCalledWith('fork_3'));
+    expect(vi.mocked(inner.getPuzzle).mock.calls.map(([id]) => id)).toEqual(['fork_1', 'fork_2', 'fork_3']);
+
+    vi.spyOn(inner, 'submitSolution').mockResolvedValueOnce({ success: true, timeSpent: 5, attempts: 1, score: 50, nextPuzzleId: 'pin_1' });
+    await service.submitSolution('ola', 'fork_1', ['d8h4'], 5, 1);
+    await vi.waitFor(() => expect(inner.getPuzzle).toHaveBeenCalledWith('pin_1'));
+  });
+
+  it('drops puzzles and queries on request', async () => {
+    const service = cached();
+    await service.getPuzzles({ theme: 'pin' });
+    await service.getPuzzles({ theme: 'fork' });
+
+    service.invalidatePuzzle('pin_1');
+    await service.getPuzzle('pin_1');
+    await service.getPuzzles({ theme: 'pin' });
+    await service.getPuzzles({ theme: 'fork' });
+    expect(inner.getPuzzle).toHaveBeenCalledTimes(1);
+    expect(inner.getPuzzles).toHaveBeenCalledTimes(3);
+
+    service.invalidateQueries();
+    await service.getPuzzles({ theme: 'fork' });
+    expect(inner.getPuzzles).toHaveBeenCalledTimes(4);
+
+    service.clear();
+    await service.getPuzzle('fork_1');
+    expect(inner.getPuzzle).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets a caller with its own signal cancel only itself', async () => {
+    const service = cached();
+    vi.mocked(inner.getPuzzle).mockImplementation((id, request) => new Promise((resolve, reject) => {
+      request?.signal?.addEventListener('abort', () => reject(request.signal!.reason));
+      setTimeout(() => resolve(makePuzzle(id)), 10);
+    }));
+    const controller = new AbortController();
+
+    const shared = service.getPuzzle('fork_1');
+    const own = service.getPuzzle('fork_1', { signal: controller.signal });
+    controller.abort();
+
+    await expect(own).rejects.toThrow();
+    expect(await shared).toMatchObject({ id: 'fork_1' });
+    expect(await service.getPuzzle('fork_1')).toMatchObject({ id: 'fork_1' });
+  });
+
+  it('does not cache missing puzzles or failed loads', async () => {
+    const service = cached();
+    vi.mocked(inner.getPuzzle).mockRejectedValueOnce(new Error('offline'));
+
+    await expect(service.getPuzzle('fork_1')).rejects.toThrow('offline');
+    expect(await service.getPuzzle('fork_1')).toMatchObject({ id: 'fork_1' });
+    expect(await service.getPuzzle('nope')).toBeNull();
+    expect(await service.getPuzzle('nope')).toBeNull();
+    expect(inner.getPuzzle).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('CachedPuzzleService around ApiPuzzleService', () => {
+  const mockFetch = vi.mocked(fetch);
+  const answer = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+  let service: CachedPuzzleService;
+
+  // Past the 30 s the API is skipped for after an outage
+  const backOnline = () => vi.setSystemTime(new Date(Date.now() + 30000));
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const memoryStorage = () => new PersistentStorage({ adapter: new MemoryStorageAdapter(), legacy: null });
+    const fallback = new LocalPuzzleService(undefined, memoryStorage(), async () => puzzles);
+    const api = new ApiPuzzleService('https://api.example.com', undefined, { retries: 0, fallback, outbox: new PuzzleOutbox(memoryStorage()) });
+    service = new CachedPuzzleService(api, { prefetchCount: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('passes request options, the outbox and the offline state through', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(service.getPuzzle('fork_1', { signal: controller.signal })).rejects.toBeDefined();
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await service.getPuzzle('fork_1');
+    expect(service.isOffline()).toBe(true);
+
+    await service.submitSolution('ola', 'pin_1', ['d8h4'], 5, 1, 0, 'a1');
+    expect((await service.getPendingWrites('ola')).map(entry => entry.id)).toEqual(['solution:a1']);
+
+    backOnline();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(answer({ success: true, timeSpent: 5, attempts: 1, score: 50 }));
+    expect((await service.flushOutbox()).delivered).toEqual(['solution:a1']);
+    expect(service.isOffline()).toBe(false);
+  });
+
+  it('does not cache puzzles served while offline', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+    expect(await service.getPuzzles({ theme: 'pin' })).toHaveLength(1);
+    expect(await service.getPuzzle('fork_2')).toMatchObject({ id: 'fork_2' });
+
+    backOnline();
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async url => String(url).includes('/puzzles?')
+      ? answer({ puzzles: [], total: 0 })
+      : answer(makePuzzle('fork_2', 'fork', 1250)));
+
+    expect(await service.getPuzzles({ theme: 'pin' })).toEqual([]);
+    expect((await service.getPuzzle('fork_2'))?.rating).toBe(1250);
+  });
+});
+
+describe('PuzzleServiceFactory with a cache', () => {
+  it('wraps the configured service when asked to', () => {
+    expect(PuzzleServiceFactory.createService({ type: 'local', cache: true })).toBeInstanceOf(CachedPuzzleService);
+    expect(PuzzleServiceFactory.createService({ type: 'api', baseUrl: 'https://api.example.com', cache: { maxPuzzles: 50 } }))
+      .toBeInstanceOf(CachedPuzzleService);
+    expect(PuzzleServiceFactory.createService({ type: 'local' })).toBeInstanceOf(LocalPuzzleService);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Chess Hawk Cached Puzzle Service
+ * Decorator that keeps puzzles and filtered queries in memory in front of any IPuzzleService
+ */
+
+import type { Puzzle } from '../stores/GameStore';
+import type {
+  IPuzzleService,
+  PuzzleFilter,
+  UserProgress,
+  SolutionResult,
+  RushRunResult,
+  ApiRequestOptions,
+  OutboxReplay
+} from './PuzzleService';
+import type { OutboxEntry } from './PuzzleOutbox';
+import type { RushRun } from '../utils/rush';
+import type { PuzzleAttempt, AttemptHistoryFilter } from '../utils/attempts';
+
+export interface PuzzleCacheOptions {
+  maxPuzzles?: number; // puzzles kept by id, least recently used dropped first; default 500
+  queryTtlMs?: number; // how long a getPuzzles result is served; default 5 min
+  maxQueries?: number; // filtered queries remembered; default 50
+  prefetchCount?: number; // puzzles loaded ahead of the one being played; default 3
+  now?: () => number;
+}
+
+/**
+ * The wrapped service as ApiPuzzleService shapes it: every method takes per-call
+ * request options last, and the outbox and offline state may be there. Other
+ * services ignore the extra argument.
+ */
+type WrappedService = {
+  [K in keyof IPuzzleService]: IPuzzleService[K] extends (...args: infer A) => infer R
+    ? (...args: [...A, ApiRequestOptions?]) => R
+    : never;
+} & {
+  flushOutbox?(request?: ApiRequestOptions): Promise<OutboxReplay>;
+  getPendingWrites?(userId?: string): Promise<OutboxEntry[]>;
+  isOffline?(): boolean;
+};
+
+interface CachedQuery {
+  puzzles: Puzzle[];
+  expiresAt: number;
+}
+
+const DEFAULT_CACHE_OPTIONS = {
+  maxPuzzles: 500,
+  queryTtlMs: 5 * 60 * 1000,
+  maxQueries: 50,
+  prefetchCount: 3
+};
+
+/**
+ * Map that forgets the least recently used key once it is full
+ */
+class LruCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(private capacity: number) {}
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: K): void {
+    this.entries.delete(key);
+  }
+
+  values(): V[] {
+    return Array.from(this.entries.values());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Serves puzzles by id from an LRU cache and getPuzzles results for `queryTtlMs`.
+ * After a puzzle is played, the next ones in the list it came from and the
+ * suggested next puzzle are fetched ahead of time. User data, random picks and
+ * statistics always go to the wrapped service, and nothing it serves while
+ * offline is cached. Request options, the outbox and the offline state are
+ * passed through to it.
+ */
+export class CachedPuzzleService implements IPuzzleService {
+  private puzzles: LruCache<string, Puzzle>;
+  private queries: LruCache<string, CachedQuery>;
+  private loading = new Map<string, Promise<Puzzle | null>>();
+  private options: typeof DEFAULT_CACHE_OPTIONS;
+  private now: () => number;
+  private inner: WrappedService;
+
+  constructor(inner: IPuzzleService, options: PuzzleCacheOptions = {}) {
+    this.inner = inner as WrappedService;
+    this.options = {
+      maxPuzzles: options.maxPuzzles ?? DEFAULT_CACHE_OPTIONS.maxPuzzles,
+      queryTtlMs: options.queryTtlMs ?? DEFAULT_CACHE_OPTIONS.queryTtlMs,
+      maxQueries: options.maxQueries ?? DEFAULT_CACHE_OPTIONS.maxQueries,
+      prefetchCount: options.prefetchCount ?? DEFAULT_CACHE_OPTIONS.prefetchCount
+    };
+    this.now = options.now || Date.now;
+    this.puzzles = new LruCache(this.options.maxPuzzles);
+    this.queries = new LruCache(this.options.maxQueries);
+  }
+
+  async getPuzzle(id: string, request?: ApiRequestOptions): Promise<Puzzle | null> {
+    const puzzle = await this.loadPuzzle(id, request);
+    if (puzzle) void this.prefetch(this.likelyNext(id));
+    return puzzle;
+  }
+
+  async getPuzzles(filter?: PuzzleFilter, request?: ApiRequestOptions): Promise<Puzzle[]> {
+    const key = queryKey(filter);
+    const cached = this.queries.get(key);
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.puzzles.slice();
+    }
+
+    const puzzles = await this.inner.getPuzzles(filter, request);
+    if (this.isOffline()) return puzzles.slice();
+
+    this.queries.set(key, { puzzles, expiresAt: this.now() + this.options.queryTtlMs });
+    puzzles.forEach(puzzle => this.puzzles.set(puzzle.id, puzzle));
+    return puzzles.slice();
+  }
+
+  async getRandomPuzzle(filter?: PuzzleFilter, request?: ApiRequestOptions): Promise<Puzzle | null> {
+    return this.remember(await this.inner.getRandomPuzzle(filter, request));
+  }
+
+  getUserProgress(userId: string, request?: ApiRequestOptions): Promise<UserProgress | null> {
+    return this.inner.getUserProgress(userId, request);
+  }
+
+  async submitSolution(
+    userId: string,
+    puzzleId: string,
+    solution: string[],
+    timeSpent: number,
+    attempts: number,
+    hintsUsed?: number,
+    attemptId?: string,
+    request?: ApiRequestOptions
+  ): Promise<SolutionResult> {
+    const result = await this.inner.submitSolution(userId, puzzleId, solution, timeSpent, attempts, hintsUsed, attemptId, request);
+    if (result.nextPuzzleId) void this.prefetch([result.nextPuzzleId]);
+    return result;
+  }
+
+  async getDuePuzzles(userId: string, request?: ApiRequestOptions): Promise<Puzzle[]> {
+    const puzzles = await this.inner.getDuePuzzles(userId, request);
+    puzzles.forEach(puzzle => this.remember(puzzle));
+    return puzzles;
+  }
+
+  saveRushRun(userId: string, run: RushRun, request?: ApiRequestOptions): Promise<RushRunResult> {
+    return this.inner.saveRushRun(userId, run, request);
+  }
+
+  recordAttempt(userId: string, attempt: PuzzleAttempt, request?: ApiRequestOptions): Promise<void> {
+    return this.inner.recordAttempt(userId, attempt, request);
+  }
+
+  getAttemptHistory(userId: string, filter?: AttemptHistoryFilter, request?: ApiRequestOptions): Promise<PuzzleAttempt[]> {
+    return this.inner.getAttemptHistory(userId, filter, request);
+  }
+
+  getPuzzleStats(puzzleId: string, request?: ApiRequestOptions): Promise<{
+    solveRate: number;
+    averageTime: number;
+    averageAttempts: number;
+  } | null> {
+    return this.inner.getPuzzleStats(puzzleId, request);
+  }
+
+  validatePuzzleDatabase(request?: ApiRequestOptions): Promise<boolean> {
+    return this.inner.validatePuzzleDatabase(request);
+  }
+
+  exportUserData(userId: string, request?: ApiRequestOptions): Promise<any> {
+    return this.inner.exportUserData(userId, request);
+  }
+
+  importUserData(userId: string, data: any, request?: ApiRequestOptions): Promise<void> {
+    return this.inner.importUserData(userId, data, request);
+  }
+
+  /**
+   * Replay the wrapped service's outbox; a service without one has nothing to replay
+   */
+  async flushOutbox(request?: ApiRequestOptions): Promise<OutboxReplay> {
+    if (!this.inner.flushOutbox) return { delivered: [], rejected: [], deferred: [], deadLettered: [] };
+    return this.inner.flushOutbox(request);
+  }
+
+  async getPendingWrites(userId?: string): Promise<OutboxEntry[]> {
+    return this.inner.getPendingWrites ? this.inner.getPendingWrites(userId) : [];
+  }
+
+  isOffline(): boolean {
+    return this.inner.isOffline?.() ?? false;
+  }
+
+  /**
+   * Load puzzles into the cache ahead of time. Failures are ignored; the
+   * puzzle is simply fetched again when it is asked for.
+   */
+  async prefetch(ids: string[]): Promise<void> {
+    const missing = ids.filter(id => !this.puzzles.has(id));
+    await Promise.all(missing.map(id => this.loadPuzzle(id).catch(() => null)));
+  }
+
+  /**
+   * Drop one puzzle, e.g. after it was edited, along with every query holding it
+   */
+  invalidatePuzzle(id: string): void {
+    this.puzzles.delete(id);
+    this.queries.values().forEach(query => {
+      if (query.puzzles.some(puzzle => puzzle.id === id)) query.expiresAt = 0;
+    });
+  }
+
+  /**
+   * Serve the next getPuzzles calls fresh, e.g. after puzzles were imported
+   */
+  invalidateQueries(): void {
+    this.queries.values().forEach(query => {
+      query.expiresAt = 0;
+    });
+  }
+
+  clear(): void {
+    this.puzzles.clear();
+    this.queries.clear();
+  }
+
+  private loadPuzzle(id: string, request?: ApiRequestOptions): Promise<Puzzle | null> {
+    const cached = this.puzzles.get(id);
+    if (cached) return Promise.resolve(cached);
+
+    // A call with its own signal or timeout gets its own request, so it can
+    // only cancel itself. Other calls for a puzzle on its way share one.
+    if (request?.signal || request?.timeoutMs !== undefined) {
+      return this.inner.getPuzzle(id, request).then(puzzle => this.remember(puzzle));
+    }
+
+    let loading = this.loading.get(id);
+    if (!loading) {
+      loading = this.inner.getPuzzle(id)
+        .then(puzzle => this.remember(puzzle))
+        .finally(() => this.loading.delete(id));
+      this.loading.set(id, loading);
+    }
+    return loading;
+  }
+
+  private remember(puzzle: Puzzle | null): Puzzle | null {
+    if (puzzle && !this.isOffline()) this.puzzles.set(puzzle.id, puzzle);
+    return puzzle;
+  }
+
+  /**
+   * The puzzles after `id` in the most recently used query that lists it, as
+   * when working through a theme. Expired queries still give the order.
+   */
+  private likelyNext(id: string): string[] {
+    if (this.options.prefetchCount <= 0) return [];
+
+    const queries = this.queries.values().reverse();
+    for (const query of queries) {
+      const index = query.puzzles.findIndex(puzzle => puzzle.id === id);
+      if (index !== -1) {
+        return query.puzzles.slice(index + 1, index + 1 + this.options.prefetchCount).map(puzzle => puzzle.id);
+      }
+    }
+    return [];
+  }
+}
+
+/**
+ * Same key for filters that select the same puzzles
+ */
+function queryKey(filter: PuzzleFilter = {}): string {
+  const { theme, difficulty, rating, tags, limit, offset } = filter;
+  return JSON.stringify([
+    theme ?? null,
+    difficulty ?? null,
+    rating?.min ?? null,
+    rating?.max ?? null,
+    tags && tags.length > 0 ? [...tags].sort() : null,
+    limit ?? null,
+    offset ?? null
+  ]);
+}
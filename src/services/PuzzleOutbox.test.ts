@@ -0,0 +1,255 @@
+/**
+ * Puzzle Outbox Tests
+ * Queue order and de-duplication, ordered replay through ApiPuzzleService and the progress merge policy
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PuzzleOutbox, createAttemptId, mergeUserProgress, MAX_OUTBOX_FAILURES } from './PuzzleOutbox';
+import { ApiPuzzleService, LocalPuzzleService, type UserProgress } from './PuzzleService';
+import { MemoryStorageAdapter, PersistentStorage } from '../utils/storage';
+import { createRushRun } from '../utils/rush';
+import { startAttempt, finishAttempt } from '../utils/attempts';
+import type { Puzzle } from '../stores/GameStore';
+
+global.fetch = vi.fn();
+
+const puzzle: Puzzle = {
+  id: 'outbox_mate_1',
+  theme: 'mateIn1',
+  title: 'Narrematt',
+  description: 'Sett matt i ett trekk',
+  fen: 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2',
+  solution: ['d8h4'],
+  difficulty: 'beginner',
+  rating: 800,
+  points: 5,
+  hint: 'Se på den svekkede diagonalen',
+  tags: ['mateIn1'],
+  source: 'Test',
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+const memoryStorage = () => new PersistentStorage({ adapter: new MemoryStorageAdapter(), legacy: null });
+
+const submission = (attemptId: string) => ({ puzzleId: puzzle.id, solution: ['d8h4'], timeSpent: 10, attempts: 1, attemptId });
+
+describe('PuzzleOutbox', () => {
+  let outbox: PuzzleOutbox;
+
+  beforeEach(() => {
+    outbox = new PuzzleOutbox(memoryStorage());
+  });
+
+  it('keeps entries in order and replaces an entry queued again', async () => {
+    await Promise.all([
+      outbox.enqueue({ type: 'solution', userId: 'ola', submission: submission('a1') }),
+      outbox.enqueue({ type: 'rushRun', userId: 'kari', run: createRushRun('survival', new Date('2024-03-01T10:00:00Z')) }),
+      outbox.enqueue({ type: 'solution', userId: 'ola', submission: { ...submission('a1'), timeSpent: 12 } })
+    ]);
+
+    const entries = await outbox.entries();
+    expect(entries.map(entry => entry.id)).toEqual(['solution:a1', 'rushRun:rush_survival_1709287200000']);
+    expect(entries[0]).toMatchObject({ submission: { timeSpent: 12 } });
+    expect((await outbox.entries('kari')).map(entry => entry.type)).toEqual(['rushRun']);
+
+    await outbox.remove('solution:a1');
+    expect(await outbox.entries('ola')).toEqual([]);
+  });
+
+  it('creates distinct attempt ids', () => {
+    expect(createAttemptId(1000)).toMatch(/^attempt_1000_/);
+    expect(createAttemptId(1000)).not.toBe(createAttemptId(1000));
+  });
+});
+
+describe('ApiPuzzleService with an outbox', () => {
+  let outbox: PuzzleOutbox;
+  let fallback: LocalPuzzleService;
+  let service: ApiPuzzleService;
+  const mockFetch = vi.mocked(fetch);
+  const result = { success: true, timeSpent: 10, attempts: 1, score: 100 };
+  const ok = (body?: unknown) => new Response(body === undefined ? null : JSON.stringify(body), { status: body === undefined ? 204 : 200 });
+
+  beforeEach(() => {
+    outbox = new PuzzleOutbox(memoryStorage());
+    fallback = new LocalPuzzleService(undefined, memoryStorage(), async () => [puzzle]);
+    service = new ApiPuzzleService('https://api.example.com', undefined, { retries: 0, fallback, outbox, offlineCooldownMs: 0 });
+  });
+
+  it('grades locally while offline and replays the queue in order later', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const offline = await service.submitSolution('ola', puzzle.id, ['Qh4#'], 10, 1, 0, 'a1');
+    const attempt = finishAttempt(startAttempt('ola', puzzle, 1000), 'solved', 5000);
+    await service.recordAttempt('ola', attempt);
+
+    expect(offline.success).toBe(true);
+    expect((await service.getPendingWrites('ola')).map(entry => entry.id)).toEqual(['solution:a1', `attempt:${attempt.id}`]);
+    expect(await service.getAttemptHistory('ola')).toEqual([attempt]);
+
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValueOnce(ok(result)).mockResolvedValueOnce(ok());
+
+    expect(await service.flushOutbox()).toEqual({ delivered: ['solution:a1', `attempt:${attempt.id}`], rejected: [], deferred: [], deadLettered: [] });
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.example.com/users/ola/solutions',
+      'https://api.example.com/users/ola/attempts'
+    ]);
+    expect(JSON.parse(String(mockFetch.mock.calls[0]![1]!.body))).toMatchObject({ solution: ['Qh4#'], attemptId: 'a1' });
+    expect(await service.getPendingWrites()).toEqual([]);
+  });
+
+  it('stops at the first unreachable entry so later ones never overtake it', async () => {
+    await outbox.enqueue({ type: 'solution', userId: 'ola', submission: submission('a1') });
+    await outbox.enqueue({ type: 'solution', userId: 'ola', submission: submission('a2') });
+    mockFetch.mockResolvedValueOnce(ok(result)).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const replay = await service.flushOutbox();
+
+    expect(replay.delivered).toEqual(['solution:a1']);
+    expect(replay.unreachable?.code).toBe('API_NETWORK_ERROR');
+    expect((await outbox.entries()).map(entry => entry.id)).toEqual(['solution:a2']);
+  });
+
+  it('drops entries the server refuses and reports them', async () => {
+    await outbox.enqueue({ type: 'solution', userId: 'ola', submission: submission('a1') });
+    await outbox.enqueue({ type: 'solution', userId: 'ola', submission: submission('a2') });
+    mockFetch.mockResolvedValueOnce(new Response('{"error":"Puzzle gone"}', { status: 404 })).mockResolvedValueOnce(ok(result));
+
+    const replay = await service.flushOutbox();
+
+    expect(replay.delivered).toEqual(['solution:a2']);
+    expect(replay.rejected.map(({ entry, error }) => [entry.id, (error as { code: string }).code])).toEqual([['solution:a1', 'API_NOT_FOUND']]);
+    expect(await outbox.entries()).toEqual([]);
+  });
+
+  it('holds back an entry the server fails on and dead-letters it after repeated failures', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2024-03-01T10:00:00Z'));
+      await outbox.enqueue({ type: 'solution', userId: 'ola', submission: submission('a1') });
+      await outbox.enqueue({ type: 'solution', userId: 'ola', submission: submission('a2') });
+      mockFetch.mockImplementation(async (_url, init) => JSON.parse(String(init!.body)).attemptId === 'a1'
+        ? new Response(null, { status: 500 })
+        : ok(result));
+
+      const first = await service.flushOutbox();
+      expect(first.delivered).toEqual(['solution:a2']);
+      expect(first.deferred.map(({ entry }) => [entry.id, entry.failures])).toEqual([['solution:a1', 1]]);
+
+      // Not tried again before its backoff runs out
+      await service.flushOutbox();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      let last = first;
+      for (let failure = 2; failure <= MAX_OUTBOX_FAILURES; failure++) {
+        vi.setSystemTime(new Date((await outbox.entries())[0]!.retryAt!));
+        last = await service.flushOutbox();
+      }
+
+      expect(last.deadLettered.map(({ entry }) => [entry.id, entry.failures])).toEqual([['solution:a1', MAX_OUTBOX_FAILURES]]);
+      expect(await outbox.entries()).toEqual([]);
+      expect((await outbox.deadLetters('ola')).map(letter => letter.entry.id)).toEqual(['solution:a1']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('answers with the server result once delivered', async () => {
+    mockFetch.mockResolvedValueOnce(ok({ ...result, score: 42 }));
+
+    expect(await service.submitSolution('ola', puzzle.id, ['d8h4'], 10, 1)).toEqual({ ...result, score: 42 });
+    expect(JSON.parse(String(mockFetch.mock.calls[0]![1]!.body)).attemptId).toMatch(/^attempt_/);
+  });
+
+  it('merges queued local progress into the server progress', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+    await service.submitSolution('ola', puzzle.id, ['d8h4'], 10, 1, 0, 'a1');
+
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async url => String(url).endsWith('/progress')
+      ? ok({ userId: 'ola', puzzlesSolved: ['other_1'], totalTime: 300, averageRating: 0, streaks: { current: 0, best: 4 }, themeProgress: {} })
+      : new Response(null, { status: 503 }));
+
+    const progress = await service.getUserProgress('ola');
+    expect(progress).toMatchObject({
+      puzzlesSolved: ['other_1', puzzle.id],
+      totalTime: 310,
+      streaks: { current: 1, best: 4 },
+      themeProgress: { mateIn1: { solved: 1, total: 1, averageRating: 800 } }
+    });
+  });
+});
+
+describe('mergeUserProgress', () => {
+  const base: UserProgress = {
+    userId: 'ola',
+    puzzlesSolved: [],
+    totalTime: 0,
+    averageRating: 0,
+    streaks: { current: 0, best: 0 },
+    themeProgress: {}
+  };
+  const played = (timestamp: string, rating: number) => ({
+    rating,
+    deviation: 100,
+    volatility: 0.06,
+    history: [{ rating, deviation: 100, puzzleId: 'p', success: true, timestamp }]
+  });
+
+  it('keeps everything earned on either side', () => {
+    const card = (lastReviewedAt: string) => ({ puzzleId: 'p1', interval: 1, ease: 2.5, repetitions: 0, lapses: 1, dueAt: lastReviewedAt, lastReviewedAt });
+    const server: UserProgress = {
+      ...base,
+      puzzlesSolved: ['p1', 'p2'],
+      totalTime: 100,
+      streaks: { current: 5, best: 5 },
+      themeProgress: { fork: { solved: 3, total: 4, averageRating: 1200 }, pin: { solved: 1, total: 1, averageRating: 1300 } },
+      reviewCards: { p1: card('2024-03-01T00:00:00.000Z') },
+      rating: played('2024-03-01T00:00:00.000Z', 1500),
+      rushRuns: [{ ...createRushRun('survival', new Date('2024-03-01T00:00:00Z')), score: 9 }],
+      rushBests: { survival: 9 }
+    };
+    const local: UserProgress = {
+      ...base,
+      puzzlesSolved: ['p2', 'p3'],
+      totalTime: 80,
+      streaks: { current: 1, best: 3 },
+      themeProgress: { fork: { solved: 4, total: 5, averageRating: 1210 } },
+      reviewCards: { p1: card('2024-03-02T00:00:00.000Z') },
+      rating: played('2024-03-02T00:00:00.000Z', 1480),
+      rushRuns: [{ ...createRushRun('threeMinute', new Date('2024-03-02T00:00:00Z')), score: 14 }],
+      rushBests: { threeMinute: 14, survival: 7 }
+    };
+
+    const queued = [
+      { puzzle: { theme: 'fork', rating: 1300 }, solved: true, timeSpent: 15 },
+      { puzzle: { theme: 'skewer', rating: 1100 }, solved: false, timeSpent: 5 },
+      { puzzle: null, solved: false, timeSpent: 7 }
+    ];
+
+    const merged = mergeUserProgress(server, local, queued)!;
+
+    expect(merged.puzzlesSolved).toEqual(['p1', 'p2', 'p3']);
+    expect(merged.totalTime).toBe(127);
+    expect(merged.streaks).toEqual({ current: 1, best: 5 });
+    expect(merged.themeProgress).toEqual({
+      fork: { solved: 4, total: 5, averageRating: 1220 },
+      pin: server.themeProgress.pin,
+      skewer: { solved: 0, total: 1, averageRating: 1100 }
+    });
+    expect(merged.reviewCards?.p1?.lastReviewedAt).toBe('2024-03-02T00:00:00.000Z');
+    expect(merged.rating?.rating).toBe(1480);
+    expect(merged.rushRuns?.map(run => run.variant)).toEqual(['survival', 'threeMinute']);
+    expect(merged.rushBests).toEqual({ survival: 9, threeMinute: 14 });
+  });
+
+  it('lets the server decide when it played last, and passes a missing side through', () => {
+    const server = { ...base, streaks: { current: 0, best: 2 }, rating: played('2024-03-03T00:00:00.000Z', 1400) };
+    const local = { ...base, streaks: { current: 2, best: 2 }, rating: played('2024-03-02T00:00:00.000Z', 1450) };
+
+    expect(mergeUserProgress(server, local)).toMatchObject({ streaks: { current: 0 }, rating: { rating: 1400 } });
+    expect(mergeUserProgress(null, local)).toBe(local);
+    expect(mergeUserProgress(server, null)).toBe(server);
+  });
+});
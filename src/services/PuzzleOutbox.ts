@@ -0,0 +1,270 @@
+/**
+ * Chess Hawk Puzzle Outbox
+ * Writes for the puzzle API are stored locally first and replayed in order once
+ * the server can be reached, so nothing solved offline is lost
+ */
+
+import type { UserProgress } from './PuzzleService';
+import type { SolutionSubmission } from './ApiSchema';
+import type { PuzzleAttempt } from '../utils/attempts';
+import type { RushRun } from '../utils/rush';
+import type { ReviewCard } from '../utils/review';
+import type { Puzzle } from '../stores/GameStore';
+import { persistentStorage, STORAGE_KEYS, type PersistentStorage } from '../utils/storage';
+
+export type OutboxItem =
+  | { type: 'solution'; userId: string; submission: SolutionSubmission & { attemptId: string } }
+  | { type: 'rushRun'; userId: string; run: RushRun }
+  | { type: 'attempt'; userId: string; attempt: PuzzleAttempt };
+
+export type OutboxEntry = OutboxItem & {
+  id: string; // type and client id, e.g. 'solution:attempt_…'
+  queuedAt: string;
+  failures?: number; // server errors (5xx) so far
+  retryAt?: string; // not replayed before this after a server error
+};
+
+/**
+ * A queued solution as the local service graded it
+ */
+export interface QueuedSolution {
+  puzzle: Pick<Puzzle, 'theme' | 'rating'> | null; // null when the puzzle isn't known locally
+  solved: boolean;
+  timeSpent: number;
+}
+
+export interface DeadLetter {
+  entry: OutboxEntry;
+  error: string;
+  deadAt: string;
+}
+
+// Server errors an entry may get before it is dead-lettered
+export const MAX_OUTBOX_FAILURES = 5;
+
+// Wait before replaying an entry after its first server error; doubles with each one
+export const OUTBOX_RETRY_DELAY_MS = 30000;
+
+// Rush runs kept when merging progress, as in LocalPuzzleService
+const MAX_MERGED_RUSH_RUNS = 50;
+
+/**
+ * Client-generated id for a solution submission. The server grades each id
+ * once, so replaying a submission never counts it twice.
+ */
+export function createAttemptId(now: number = Date.now()): string {
+  const random = typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2, 12);
+  return `attempt_${now}_${random}`;
+}
+
+export function outboxEntryId(item: OutboxItem): string {
+  switch (item.type) {
+    case 'solution':
+      return `solution:${item.submission.attemptId}`;
+    case 'rushRun':
+      return `rushRun:${item.run.id}`;
+    case 'attempt':
+      return `attempt:${item.attempt.id}`;
+  }
+}
+
+/**
+ * Ordered queue of pending writes for all users, kept in persistent storage.
+ * Changes are serialized, so concurrent writes never drop an entry.
+ */
+export class PuzzleOutbox {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private storage: PersistentStorage = persistentStorage,
+    private key: string = STORAGE_KEYS.outbox,
+    private deadLetterKey: string = STORAGE_KEYS.outboxDeadLetters
+  ) {}
+
+  /**
+   * Entries in the order they were queued, optionally for one user
+   */
+  async entries(userId?: string): Promise<OutboxEntry[]> {
+    await this.pending.catch(() => undefined);
+    const entries = await this.load();
+    return userId === undefined ? entries : entries.filter(entry => entry.userId === userId);
+  }
+
+  /**
+   * Queue a write. Queuing the same id again replaces the entry in its place.
+   */
+  enqueue(item: OutboxItem, now: Date = new Date()): Promise<OutboxEntry> {
+    const entry = { ...item, id: outboxEntryId(item), queuedAt: now.toISOString() } as OutboxEntry;
+
+    return this.update(entries => {
+      const index = entries.findIndex(existing => existing.id === entry.id);
+      if (index === -1) return [...entries, entry];
+
+      const updated = [...entries];
+      updated[index] = { ...entry, queuedAt: entries[index]!.queuedAt };
+      return updated;
+    }).then(() => entry);
+  }
+
+  remove(id: string): Promise<void> {
+    return this.update(entries => entries.filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Count a server error for an entry and hold it back with exponential backoff.
+   * Resolves with the updated entry, or null when it isn't queued.
+   */
+  async recordFailure(id: string, now: Date = new Date()): Promise<OutboxEntry | null> {
+    let updated: OutboxEntry | null = null;
+
+    await this.update(entries => entries.map(entry => {
+      if (entry.id !== id) return entry;
+
+      const failures = (entry.failures || 0) + 1;
+      const delay = OUTBOX_RETRY_DELAY_MS * 2 ** (failures - 1);
+      updated = { ...entry, failures, retryAt: new Date(now.getTime() + delay).toISOString() };
+      return updated;
+    }));
+
+    return updated;
+  }
+
+  /**
+   * Move an entry the server keeps failing on out of the queue, keeping it for inspection
+   */
+  deadLetter(entry: OutboxEntry, error: unknown, now: Date = new Date()): Promise<void> {
+    const letter: DeadLetter = {
+      entry,
+      error: error instanceof Error ? error.message : String(error),
+      deadAt: now.toISOString()
+    };
+
+    return this.update(entries => entries.filter(existing => existing.id !== entry.id), async () => {
+      await this.storage.setJSON(this.deadLetterKey, [...await this.loadDeadLetters(), letter]);
+    });
+  }
+
+  /**
+   * Dead-lettered entries, oldest first, optionally for one user
+   */
+  async deadLetters(userId?: string): Promise<DeadLetter[]> {
+    await this.pending.catch(() => undefined);
+    const letters = await this.loadDeadLetters();
+    return userId === undefined ? letters : letters.filter(letter => letter.entry.userId === userId);
+  }
+
+  private update(change: (entries: OutboxEntry[]) => OutboxEntry[], before?: () => Promise<void>): Promise<void> {
+    const next = this.pending
+      .catch(() => undefined)
+      .then(async () => {
+        await before?.();
+        await this.storage.setJSON(this.key, change(await this.load()));
+      });
+    this.pending = next;
+    return next;
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    try {
+      return await this.storage.getJSON<OutboxEntry[]>(this.key) || [];
+    } catch (error) {
+      console.warn('Failed to load the outbox from storage:', error);
+      return [];
+    }
+  }
+
+  private async loadDeadLetters(): Promise<DeadLetter[]> {
+    try {
+      return await this.storage.getJSON<DeadLetter[]>(this.deadLetterKey) || [];
+    } catch (error) {
+      console.warn('Failed to load dead-lettered outbox entries from storage:', error);
+      return [];
+    }
+  }
+}
+
+/**
+ * Combine server progress with progress recorded locally while offline. Nothing
+ * earned on either side is lost:
+ * - solved puzzles, rush runs and review cards are unioned; for the same review
+ *   card the later review wins
+ * - total time and per-theme counts are the server's plus the queued solutions
+ * - best streak and rush bests take the higher value
+ * - the current streak and rating come from the side that played last
+ */
+export function mergeUserProgress(
+  server: UserProgress | null,
+  local: UserProgress | null,
+  queued: QueuedSolution[] = []
+): UserProgress | null {
+  if (!server || !local) return server || local;
+
+  const localIsNewer = lastPlayedAt(local) > lastPlayedAt(server);
+  const recent = localIsNewer ? local : server;
+
+  const themeProgress = { ...server.themeProgress };
+  queued.forEach(({ puzzle, solved }) => {
+    if (!puzzle) return;
+
+    const existing = themeProgress[puzzle.theme] || { solved: 0, total: 0, averageRating: 0 };
+    const total = existing.total + 1;
+    themeProgress[puzzle.theme] = {
+      solved: existing.solved + (solved ? 1 : 0),
+      total,
+      averageRating: (existing.averageRating * existing.total + puzzle.rating) / total
+    };
+  });
+
+  const rushRuns = [...(server.rushRuns || [])];
+  (local.rushRuns || []).forEach(run => {
+    if (!rushRuns.some(existing => existing.id === run.id)) rushRuns.push(run);
+  });
+  rushRuns.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+  const rushBests = { ...server.rushBests };
+  Object.entries(local.rushBests || {}).forEach(([variant, score]) => {
+    const key = variant as keyof typeof rushBests;
+    rushBests[key] = Math.max(rushBests[key] || 0, score || 0);
+  });
+
+  const merged: UserProgress = {
+    ...server,
+    puzzlesSolved: [...server.puzzlesSolved, ...local.puzzlesSolved.filter(id => !server.puzzlesSolved.includes(id))],
+    totalTime: queued.reduce((total, solution) => total + solution.timeSpent, server.totalTime),
+    streaks: {
+      current: recent.streaks.current,
+      best: Math.max(server.streaks.best, local.streaks.best)
+    },
+    themeProgress,
+    reviewCards: mergeReviewCards(server.reviewCards, local.reviewCards),
+    rating: recent.rating || server.rating || local.rating
+  };
+
+  if (rushRuns.length > 0) merged.rushRuns = rushRuns.slice(-MAX_MERGED_RUSH_RUNS);
+  if (Object.keys(rushBests).length > 0) merged.rushBests = rushBests;
+  if (!merged.reviewCards) delete merged.reviewCards;
+  if (!merged.rating) delete merged.rating;
+
+  return merged;
+}
+
+function mergeReviewCards(
+  server: Record<string, ReviewCard> | undefined,
+  local: Record<string, ReviewCard> | undefined
+): Record<string, ReviewCard> | undefined {
+  if (!server || !local) return server || local;
+
+  const cards = { ...server };
+  Object.entries(local).forEach(([puzzleId, card]) => {
+    const existing = cards[puzzleId];
+    if (!existing || card.lastReviewedAt > existing.lastReviewedAt) cards[puzzleId] = card;
+  });
+  return cards;
+}
+
+function lastPlayedAt(progress: UserProgress): string {
+  const history = progress.rating?.history || [];
+  return history[history.length - 1]?.timestamp || '';
+}
@@ -0,0 +1,109 @@
+/**
+ * Puzzle Selector Tests
+ * Adaptive selection around a target success probability
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AdaptivePuzzleSelector, RandomPuzzleSelector, findWeakestTheme } from './PuzzleSelector';
+import type { Puzzle } from '../stores/GameStore';
+
+const makePuzzle = (id: string, theme: string, rating: number): Puzzle => ({
+  id,
+  theme,
+  title: id,
+  description: '',
+  fen: '8/8/8/8/8/8/8/8 w - - 0 1',
+  solution: ['e4'],
+  difficulty: 'intermediate',
+  rating,
+  points: 10,
+  hint: '',
+  tags: [theme],
+  source: 'Test',
+  createdAt: '2024-01-01T00:00:00.000Z'
+});
+
+const puzzles = [
+  makePuzzle('easy_fork', 'fork', 900),
+  makePuzzle('fit_fork', 'fork', 1310),
+  makePuzzle('fit_pin', 'pin', 1310),
+  makePuzzle('hard_pin', 'pin', 2200)
+];
+
+describe('PuzzleSelector', () => {
+  describe('findWeakestTheme', () => {
+    it('should pick the theme with the lowest success rate', () => {
+      expect(findWeakestTheme({
+        fork: { solved: 4, total: 5 },
+        pin: { solved: 1, total: 4 }
+      })).toBe('pin');
+    });
+
+    it('should ignore themes with too few attempts', () => {
+      expect(findWeakestTheme({ pin: { solved: 0, total: 2 } })).toBeNull();
+    });
+  });
+
+  describe('AdaptivePuzzleSelector', () => {
+    it('should target the configured success probability', () => {
+      const selector = new AdaptivePuzzleSelector({ random: () => 0.5 });
+      const probability = selector.successProbability(puzzles[1]!, 1500);
+
+      expect(probability).toBeGreaterThan(0.7);
+      expect(probability).toBeLessThan(0.8);
+
+      const counts: Record<string, number> = {};
+      const seeded = new AdaptivePuzzleSelector({ random: sequence() });
+      for (let i = 0; i < 200; i++) {
+        const picked = seeded.select(puzzles, { userRating: 1500 })!;
+        counts[picked.id] = (counts[picked.id] || 0) + 1;
+      }
+
+      expect((counts.fit_fork || 0) + (counts.fit_pin || 0)).toBeGreaterThan(150);
+      expect(counts.hard_pin || 0).toBeLessThan(5);
+    });
+
+    it('should favour the weakest theme', () => {
+      const selector = new AdaptivePuzzleSelector({ random: () => 0.6, weakThemeBoost: 10 });
+
+      const picked = selector.select(puzzles, {
+        userRating: 1500,
+        themeStats: { fork: { solved: 0, total: 5 }, pin: { solved: 5, total: 5 } }
+      });
+
+      expect(picked?.id).toBe('fit_fork');
+    });
+
+    it('should respect preferred themes and skip recent puzzles', () => {
+      const selector = new AdaptivePuzzleSelector({ random: () => 0 });
+
+      const picked = selector.select(puzzles, {
+        userRating: 1500,
+        preferredThemes: ['pin'],
+        recentPuzzleIds: ['fit_pin']
+      });
+
+      expect(picked?.id).toBe('hard_pin');
+    });
+
+    it('should fall back to recent puzzles when nothing else is left', () => {
+      const selector = new AdaptivePuzzleSelector({ random: () => 0 });
+
+      expect(selector.select([puzzles[0]!], { recentPuzzleIds: ['easy_fork'] })?.id).toBe('easy_fork');
+      expect(selector.select([])).toBeNull();
+    });
+  });
+
+  describe('RandomPuzzleSelector', () => {
+    it('should pick uniformly from the candidates', () => {
+      expect(new RandomPuzzleSelector(() => 0.99).select(puzzles)?.id).toBe('hard_pin');
+      expect(new RandomPuzzleSelector().select([])).toBeNull();
+    });
+  });
+});
+
+// Deterministic spread of values in [0, 1)
+function sequence(): () => number {
+  let i = 0;
+  return () => ((i++ * 0.618034) % 1);
+}
@@ -0,0 +1,145 @@
+/**
+ * Chess Hawk Puzzle Selection
+ * Strategies for picking the next puzzle, shared by the game store and puzzle services
+ */
+
+import type { Puzzle } from '../stores/GameStore';
+import { expectedScore, DEFAULT_RATING } from '../utils/rating';
+
+export interface ThemeRecord {
+  solved: number;
+  total: number;
+}
+
+export interface PuzzleSelectionContext {
+  userRating?: number;
+  themeStats?: Record<string, ThemeRecord>;
+  recentPuzzleIds?: string[];
+  solvedPuzzleIds?: string[];
+  preferredThemes?: string[];
+}
+
+export interface PuzzleSelector {
+  select(candidates: Puzzle[], context?: PuzzleSelectionContext): Puzzle | null;
+}
+
+export interface AdaptiveSelectorOptions {
+  targetSuccessRate: number; // expected chance of solving the picked puzzle
+  tolerance: number; // spread around the target, in success probability
+  weakThemeBoost: number; // weight multiplier for the weakest theme
+  minThemeAttempts: number; // attempts before a theme can count as weak
+  random: () => number;
+}
+
+const DEFAULT_SELECTOR_OPTIONS: AdaptiveSelectorOptions = {
+  targetSuccessRate: 0.75,
+  tolerance: 0.15,
+  weakThemeBoost: 3,
+  minThemeAttempts: 3,
+  random: Math.random
+};
+
+/**
+ * Theme with the lowest success rate among themes with enough attempts
+ */
+export function findWeakestTheme(themeStats: Record<string, ThemeRecord>, minAttempts = 3): string | null {
+  let lowestSuccessRate = 1.0;
+  let weakestTheme: string | null = null;
+
+  for (const [theme, stats] of Object.entries(themeStats)) {
+    const successRate = stats.solved / stats.total;
+    if (successRate < lowestSuccessRate && stats.total >= minAttempts) {
+      lowestSuccessRate = successRate;
+      weakestTheme = theme;
+    }
+  }
+
+  return weakestTheme;
+}
+
+/**
+ * Uniform random choice - the behaviour for fixed difficulty levels
+ */
+export class RandomPuzzleSelector implements PuzzleSelector {
+  constructor(private random: () => number = Math.random) {}
+
+  select(candidates: Puzzle[]): Puzzle | null {
+    if (candidates.length === 0) return null;
+    return candidates[Math.floor(this.random() * candidates.length)] || null;
+  }
+}
+
+/**
+ * Picks puzzles the user is expected to solve with roughly the target probability,
+ * favouring their weakest theme and skipping recently seen or already solved puzzles.
+ */
+export class AdaptivePuzzleSelector implements PuzzleSelector {
+  private options: AdaptiveSelectorOptions;
+
+  constructor(options: Partial<AdaptiveSelectorOptions> = {}) {
+    this.options = { ...DEFAULT_SELECTOR_OPTIONS, ...options };
+  }
+
+  select(candidates: Puzzle[], context: PuzzleSelectionContext = {}): Puzzle | null {
+    const pool = this.narrow(candidates, context);
+    if (pool.length === 0) return null;
+
+    const userRating = context.userRating ?? DEFAULT_RATING.rating;
+    const weakestTheme = context.themeStats
+      ? findWeakestTheme(context.themeStats, this.options.minThemeAttempts)
+      : null;
+
+    const weights = pool.map(puzzle => this.weigh(puzzle, userRating, weakestTheme));
+    return this.pickWeighted(pool, weights);
+  }
+
+  /**
+   * Expected chance of solving the puzzle at the given rating
+   */
+  successProbability(puzzle: Puzzle, userRating: number): number {
+    return expectedScore({ rating: userRating }, { rating: puzzle.rating, deviation: puzzle.ratingDeviation });
+  }
+
+  private narrow(candidates: Puzzle[], context: PuzzleSelectionContext): Puzzle[] {
+    let pool = candidates;
+
+    // Each narrowing step is skipped when it would leave nothing to pick
+    const preferred = context.preferredThemes || [];
+    if (preferred.length > 0) {
+      pool = fallbackIfEmpty(pool, pool.filter(p => preferred.includes(p.theme)));
+    }
+
+    const recent = new Set(context.recentPuzzleIds || []);
+    pool = fallbackIfEmpty(pool, pool.filter(p => !recent.has(p.id)));
+
+    const solved = new Set(context.solvedPuzzleIds || []);
+    pool = fallbackIfEmpty(pool, pool.filter(p => !solved.has(p.id)));
+
+    return pool;
+  }
+
+  private weigh(puzzle: Puzzle, userRating: number, weakestTheme: string | null): number {
+    const distance = this.successProbability(puzzle, userRating) - this.options.targetSuccessRate;
+    const fit = Math.exp(-(distance * distance) / (2 * this.options.tolerance * this.options.tolerance));
+    return puzzle.theme === weakestTheme ? fit * this.options.weakThemeBoost : fit;
+  }
+
+  private pickWeighted(pool: Puzzle[], weights: number[]): Puzzle | null {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let threshold = this.options.random() * total;
+
+    for (let i = 0; i < pool.length; i++) {
+      threshold -= weights[i] || 0;
+      if (threshold <= 0) return pool[i] || null;
+    }
+
+    return pool[pool.length - 1] || null;
+  }
+}
+
+function fallbackIfEmpty(pool: Puzzle[], narrowed: Puzzle[]): Puzzle[] {
+  return narrowed.length > 0 ? narrowed : pool;
+}
+
+// Shared default strategy
+export const adaptivePuzzleSelector = new AdaptivePuzzleSelector();
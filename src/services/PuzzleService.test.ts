@@ -7,6 +7,9 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { LocalPuzzleService, ApiPuzzleService, PuzzleServiceFactory } from './PuzzleService';
 import type { PuzzleFilter, UserProgress, SolutionResult } from './PuzzleService';
 import type { Puzzle } from '../stores/GameStore';
+import { createRushRun } from '../utils/rush';
+import { startAttempt, recordAttemptMove, finishAttempt } from '../utils/attempts';
+import { ApiAuthError, ApiServerError } from '../types';
 
 // Mock fetch for API service tests
 global.fetch = vi.fn();
@@ -39,7 +42,7 @@ const mockPuzzleData = {
       theme: "fork",
       title: "Gaffel-test 1",
       description: "Angrip to brikker samtidig",
-      fen: "rnbqkb1r/pppp1ppp/5n2/4p3/2B1P3/8/PPPP1PPP/RNBQK1NR w KQkq - 2 3",
+      fen: "rnbqkb1r/pppp1ppp/5n2/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4",
       solution: ["Nxe5"],
       difficulty: "beginner" as const,
       rating: 1200,
@@ -69,8 +72,8 @@ const mockPuzzleData = {
       theme: "mate",
       title: "Matt-test 1",
       description: "Oppnå sjakkmatt",
-      fen: "rnbqkb1r/pppp1ppp/5n2/4p3/2B1P2Q/8/PPPP1PPP/RNB1K1NR w KQkq - 2 3",
-      solution: ["Qh5"],
+      fen: "r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4",
+      solution: ["Qxf7#"],
       difficulty: "advanced" as const,
       rating: 1800,
       points: 25,
@@ -289,6 +292,15 @@ describe('LocalPuzzleService', () => {
       expect(fastResult.score).toBeGreaterThan(slowResult.score);
     });
 
+    it('should cost more score for higher hint tiers', async () => {
+      const noHints = await service.submitSolution('hint_user1', 'test_fork_1', ['Nxe5'], 30, 1);
+      const themeHint = await service.submitSolution('hint_user2', 'test_fork_1', ['Nxe5'], 30, 1, 1);
+      const moveHint = await service.submitSolution('hint_user3', 'test_fork_1', ['Nxe5'], 30, 1, 4);
+
+      expect(themeHint.score).toBeLessThan(noHints.score);
+      expect(moveHint.score).toBeLessThan(themeHint.score);
+    });
+
     it('should update user progress after submission', async () => {
       await service.submitSolution('progress_user', 'test_fork_1', ['Nxe5'], 30, 1);
       
@@ -306,6 +318,116 @@ describe('LocalPuzzleService', () => {
     });
   });
 
+  describe('Spaced Repetition and Rating', () => {
+    beforeEach(() => {
+      // mockReset clears the shared mock's implementation, so back it with a local store
+      const store: Record<string, string> = {};
+      localStorageMock.getItem.mockImplementation((key: string) => store[key] || null);
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => {
+        store[key] = value;
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should schedule failed puzzles for review', async () => {
+      await service.submitSolution('review_user', 'test_pin_1', ['e4'], 30, 1);
+      
+      const progress = await service.getUserProgress('review_user');
+      expect(progress?.reviewCards?.test_pin_1).toMatchObject({ interval: 1, lapses: 1 });
+    });
+
+    it('should not schedule puzzles solved first time', async () => {
+      await service.submitSolution('review_user', 'test_fork_1', ['Nxe5'], 30, 1);
+      
+      const progress = await service.getUserProgress('review_user');
+      expect(progress?.reviewCards).toBeUndefined();
+    });
+
+    it('should expose the Glicko-2 rating through user progress', async () => {
+      await service.submitSolution('review_user', 'test_fork_1', ['Nxe5'], 30, 1);
+      await service.submitSolution('review_user', 'test_pin_1', ['e4'], 30, 1);
+      
+      const progress = await service.getUserProgress('review_user');
+      expect(progress?.rating?.history.map(entry => entry.success)).toEqual([true, false]);
+      expect(progress?.rating?.deviation).toBeLessThan(350);
+    });
+
+    it('should return puzzles once they are due', async () => {
+      await service.submitSolution('review_user', 'test_pin_1', ['e4'], 30, 1);
+      expect(await service.getDuePuzzles('review_user')).toEqual([]);
+      
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + 2 * 24 * 60 * 60 * 1000);
+      
+      const due = await service.getDuePuzzles('review_user');
+      expect(due.map(p => p.id)).toEqual(['test_pin_1']);
+    });
+  });
+
+  describe('Puzzle Rush', () => {
+    beforeEach(() => {
+      const store: Record<string, string> = {};
+      localStorageMock.getItem.mockImplementation((key: string) => store[key] || null);
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => {
+        store[key] = value;
+      });
+    });
+
+    it('should save runs and track the personal best per variant', async () => {
+      const run = { ...createRushRun('threeMinute'), score: 12 };
+      
+      expect(await service.saveRushRun('rush_user', run)).toEqual({ personalBest: 12, isPersonalBest: true });
+      expect(await service.saveRushRun('rush_user', { ...run, score: 8 })).toEqual({ personalBest: 12, isPersonalBest: false });
+      expect(await service.saveRushRun('rush_user', { ...run, variant: 'survival', score: 3 })).toEqual({ personalBest: 3, isPersonalBest: true });
+      
+      const progress = await service.getUserProgress('rush_user');
+      expect(progress?.rushRuns).toHaveLength(3);
+      expect(progress?.rushBests).toEqual({ threeMinute: 12, survival: 3 });
+    });
+  });
+
+  describe('Attempt History', () => {
+    beforeEach(() => {
+      const store: Record<string, string> = {};
+      localStorageMock.getItem.mockImplementation((key: string) => store[key] || null);
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => {
+        store[key] = value;
+      });
+    });
+
+    it('should record attempts and query them with a filter', async () => {
+      const start = new Date('2025-01-01T12:00:00.000Z').getTime();
+      const fork = startAttempt('coach_user', mockPuzzleData.puzzles[0]!, start);
+      const pin = startAttempt('coach_user', mockPuzzleData.puzzles[1]!, start + 60000);
+      
+      await service.recordAttempt('coach_user', finishAttempt(recordAttemptMove(fork, 'Nc7+', false, start + 5000), 'failed', start + 10000));
+      await service.recordAttempt('coach_user', finishAttempt(pin, 'solved', start + 70000));
+      
+      const history = await service.getAttemptHistory('coach_user');
+      expect(history.map(attempt => attempt.puzzleId)).toEqual([mockPuzzleData.puzzles[1]!.id, mockPuzzleData.puzzles[0]!.id]);
+      
+      const failed = await service.getAttemptHistory('coach_user', { result: 'failed' });
+      expect(failed).toHaveLength(1);
+      expect(failed[0]?.events.find(event => event.type === 'move_made')).toEqual(
+        expect.objectContaining({ move: 'Nc7+', correct: false, timeMs: 5000 })
+      );
+    });
+
+    it('should replace an attempt recorded again under the same id', async () => {
+      const attempt = startAttempt('coach_user', mockPuzzleData.puzzles[0]!);
+      
+      await service.recordAttempt('coach_user', attempt);
+      await service.recordAttempt('coach_user', finishAttempt(attempt, 'solved'));
+      
+      const history = await service.getAttemptHistory('coach_user');
+      expect(history).toHaveLength(1);
+      expect(history[0]?.result).toBe('solved');
+    });
+  });
+
   describe('Database Validation', () => {
     it('should validate correct database structure', async () => {
       const isValid = await service.validatePuzzleDatabase();
@@ -343,6 +465,20 @@ describe('LocalPuzzleService', () => {
       const isValid = await newService.validatePuzzleDatabase();
       expect(isValid).toBe(false);
     });
+
+    it('should reject puzzles whose solution cannot be played', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          puzzles: [...mockPuzzleData.puzzles, { ...mockPuzzleData.puzzles[0], id: 'illegal', solution: ['Nxd7'] }]
+        })
+      } as Response);
+
+      const newService = new LocalPuzzleService();
+      const isValid = await newService.validatePuzzleDatabase();
+      expect(isValid).toBe(false);
+    });
   });
 
   describe('Data Import/Export', () => {
@@ -458,19 +594,129 @@ describe('ApiPuzzleService', () => {
     });
 
     it('should throw errors for other HTTP errors', async () => {
-      mockFetch.mockResolvedValueOnce({
+      mockFetch.mockResolvedValue({
         ok: false,
         status: 500
       } as Response);
 
       await expect(service.getPuzzle('test123')).rejects.toThrow('API error: 500');
+      await expect(service.getPuzzle('test123')).rejects.toBeInstanceOf(ApiServerError);
     });
 
-    it('should handle network errors', async () => {
-      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+    it('should not mistake network errors for missing puzzles', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
 
-      const puzzle = await service.getPuzzle('test123');
-      expect(puzzle).toBeNull();
+      await expect(service.getPuzzle('test123')).rejects.toMatchObject({
+        code: 'API_NETWORK_ERROR',
+        message: 'Network error on GET /puzzles/{id}: Network error'
+      });
+    });
+
+    it('should tell authentication failures apart', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401 } as Response);
+
+      await expect(service.getPuzzles()).rejects.toBeInstanceOf(ApiAuthError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Timeouts, Retries and Fallback', () => {
+    const ok = (body: unknown) => ({ ok: true, status: 200, json: async () => body } as Response);
+    const hangUntilAborted = (_url: unknown, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+
+    beforeEach(() => {
+      service = new ApiPuzzleService('https://api.example.com', 'test-api-key', { retryDelayMs: 1 });
+    });
+
+    it('should retry GET requests after server and network errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(ok(mockPuzzleData.puzzles[0]));
+
+      expect(await service.getPuzzle('test_fork_1')).toEqual(mockPuzzleData.puzzles[0]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry submissions', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 } as Response);
+
+      await expect(service.submitSolution('user123', 'puzzle123', ['e4'], 30, 1)).rejects.toBeInstanceOf(ApiServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out hanging requests', async () => {
+      mockFetch.mockImplementation(hangUntilAborted);
+
+      await expect(service.getPuzzle('test123', { timeoutMs: 5 })).rejects.toMatchObject({
+        code: 'API_NETWORK_ERROR',
+        timedOut: true,
+        message: 'Network error on GET /puzzles/{id}: timed out after 5 ms'
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop at once when the caller aborts', async () => {
+      mockFetch.mockImplementation(hangUntilAborted);
+      const controller = new AbortController();
+
+      const request = service.getPuzzles(undefined, { signal: controller.signal });
+      controller.abort();
+
+      await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer reads from the fallback while the API is unreachable', async () => {
+      const fallback = new LocalPuzzleService(undefined, undefined, async () => mockPuzzleData.puzzles);
+      const offline = new ApiPuzzleService('https://api.example.com', 'test-api-key', { retryDelayMs: 1, fallback });
+      mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      expect((await offline.getPuzzles({ theme: 'pin' })).map(puzzle => puzzle.id)).toEqual(['test_pin_1']);
+      expect(offline.isOffline()).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      // Within the cooldown the API is not tried again
+      expect(await offline.getPuzzle('test_mate_1')).toMatchObject({ id: 'test_mate_1' });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not fall back on missing puzzles or auth errors', async () => {
+      const fallback = new LocalPuzzleService(undefined, undefined, async () => mockPuzzleData.puzzles);
+      const api = new ApiPuzzleService('https://api.example.com', 'test-api-key', { fallback });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 404 } as Response)
+        .mockResolvedValueOnce({ ok: false, status: 403 } as Response);
+
+      expect(await api.getPuzzle('test_fork_1')).toBeNull();
+      await expect(api.getPuzzle('test_fork_1')).rejects.toBeInstanceOf(ApiAuthError);
+    });
+  });
+
+  describe('Response Validation', () => {
+    it('should reject puzzles that do not match the API schema', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ ...mockPuzzleData.puzzles[0], solution: 'Nxe5' })
+      } as Response);
+
+      await expect(service.getPuzzle('test_fork_1')).rejects.toMatchObject({
+        code: 'INVALID_API_RESPONSE',
+        context: { endpoint: 'GET /puzzles/{id}', issues: [{ path: '$.solution', message: 'expected array, got string' }] }
+      });
+    });
+
+    it('should reject bodies that are not JSON', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => { throw new SyntaxError('Unexpected token <'); }
+      } as unknown as Response);
+
+      await expect(service.getPuzzles()).rejects.toThrow('Invalid PuzzleList from GET /puzzles: $ body is not valid JSON');
     });
   });
 
@@ -498,6 +744,21 @@ describe('ApiPuzzleService', () => {
     });
   });
 
+  describe('Attempt History', () => {
+    it('should query attempt history with filter parameters', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => []
+      } as Response);
+
+      await service.getAttemptHistory('user123', { theme: 'fork', result: 'failed', since: '2025-01-01', limit: 20 });
+
+      const expectedUrl = 'https://api.example.com/users/user123/attempts?theme=fork&result=failed&since=2025-01-01&limit=20';
+      expect(mockFetch).toHaveBeenCalledWith(expectedUrl, expect.any(Object));
+    });
+  });
+
   describe('Solution Submission', () => {
     it('should submit solutions to API', async () => {
       const mockResult: SolutionResult = {
@@ -5,6 +5,26 @@
  */
 
 import type { Puzzle } from '../stores/GameStore';
+import { isSolutionLine } from '../utils/solution';
+import { gradeAttempt, scheduleReview, shouldSchedule, getDueCards, type ReviewCard } from '../utils/review';
+import { recordPuzzleResult, type UserRating } from '../utils/rating';
+import type { RushRun, RushVariant } from '../utils/rush';
+import { filterAttempts, type PuzzleAttempt, type AttemptHistoryFilter } from '../utils/attempts';
+import { applyHintPenalty } from '../utils/hints';
+import { validatePuzzleCollection } from '../utils/validation';
+import { persistentStorage, STORAGE_KEYS, type PersistentStorage } from '../utils/storage';
+import { adaptivePuzzleSelector, type PuzzleSelector, type PuzzleSelectionContext } from './PuzzleSelector';
+import { parseApiResponse, type ApiPayloads, type ApiSchemaName, type SolutionSubmission } from './ApiSchema';
+import { CachedPuzzleService, type PuzzleCacheOptions } from './CachedPuzzleService';
+import { createAttemptId, mergeUserProgress, outboxEntryId, PuzzleOutbox, MAX_OUTBOX_FAILURES, type OutboxEntry, type OutboxItem, type QueuedSolution } from './PuzzleOutbox';
+import {
+  ApiError,
+  ApiAuthError,
+  ApiNetworkError,
+  ApiNotFoundError,
+  ApiServerError,
+  InvalidApiResponseError
+} from '../types';
 
 export interface PuzzleFilter {
   theme?: string;
@@ -16,6 +36,7 @@ export interface PuzzleFilter {
   tags?: string[];
   limit?: number;
   offset?: number;
+  userId?: string; // getRandomPuzzle picks adaptively for this user
 }
 
 export interface UserProgress {
@@ -32,6 +53,10 @@ export interface UserProgress {
     total: number;
     averageRating: number;
   }>;
+  reviewCards?: Record<string, ReviewCard>;
+  rating?: UserRating;
+  rushRuns?: RushRun[]; // most recent last
+  rushBests?: Partial<Record<RushVariant, number>>;
 }
 
 export interface SolutionResult {
@@ -42,6 +67,11 @@ export interface SolutionResult {
   nextPuzzleId?: string;
 }
 
+export interface RushRunResult {
+  personalBest: number;
+  isPersonalBest: boolean;
+}
+
 export interface IPuzzleService {
   // Puzzle retrieval
   getPuzzle(id: string): Promise<Puzzle | null>;
@@ -50,7 +80,17 @@ export interface IPuzzleService {
   
   // User progress
   getUserProgress(userId: string): Promise<UserProgress | null>;
-  submitSolution(userId: string, puzzleId: string, solution: string[], timeSpent: number, attempts: number): Promise<SolutionResult>;
+  submitSolution(userId: string, puzzleId: string, solution: string[], timeSpent: number, attempts: number, hintsUsed?: number, attemptId?: string): Promise<SolutionResult>;
+  
+  // Spaced repetition
+  getDuePuzzles(userId: string): Promise<Puzzle[]>;
+  
+  // Puzzle Rush
+  saveRushRun(userId: string, run: RushRun): Promise<RushRunResult>;
+  
+  // Attempt history
+  recordAttempt(userId: string, attempt: PuzzleAttempt): Promise<void>;
+  getAttemptHistory(userId: string, filter?: AttemptHistoryFilter): Promise<PuzzleAttempt[]>;
   
   // Statistics
   getPuzzleStats(puzzleId: string): Promise<{
@@ -65,6 +105,41 @@ export interface IPuzzleService {
   importUserData(userId: string, data: any): Promise<void>;
 }
 
+/**
+ * Where LocalPuzzleService gets its puzzles from
+ */
+export type PuzzleSource = () => Promise<Puzzle[]>;
+
+/**
+ * The puzzle database bundled with the web app
+ */
+export async function fetchBundledPuzzles(): Promise<Puzzle[]> {
+  const response = await fetch('/src/data/problems.json');
+  if (!response || !response.ok) {
+    throw new Error(`Failed to fetch puzzle data: ${response?.status || 'Unknown error'}`);
+  }
+  const data = await response.json();
+  
+  if (!data.puzzles || !Array.isArray(data.puzzles)) {
+    throw new Error('Invalid puzzle database format');
+  }
+  return data.puzzles;
+}
+
+// Rush runs kept per user in local progress
+const MAX_RUSH_RUNS = 50;
+
+// Attempts kept per user in local storage, oldest dropped first
+const MAX_ATTEMPTS = 5000;
+
+// Graded submissions remembered per user for de-duplicating replays
+const MAX_RECEIPTS = 1000;
+
+interface SubmissionReceipt {
+  attemptId: string;
+  result: SolutionResult;
+}
+
 /**
  * Local JSON-based implementation (current)
  */
@@ -72,31 +147,32 @@ export class LocalPuzzleService implements IPuzzleService {
   private puzzles: Map<string, Puzzle> = new Map();
   private userProgress: Map<string, UserProgress> = new Map();
   private isInitialized = false;
+  private selector: PuzzleSelector;
+  private storage: PersistentStorage;
+  private source: PuzzleSource;
 
-  constructor() {
+  constructor(
+    selector: PuzzleSelector = adaptivePuzzleSelector,
+    storage: PersistentStorage = persistentStorage,
+    source: PuzzleSource = fetchBundledPuzzles
+  ) {
     // Don't auto-initialize - let callers control when to initialize
+    this.selector = selector;
+    this.storage = storage;
+    this.source = source;
   }
 
   private async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
     try {
-      const response = await fetch('/src/data/problems.json');
-      if (!response || !response.ok) {
-        throw new Error(`Failed to fetch puzzle data: ${response?.status || 'Unknown error'}`);
-      }
-      const data = await response.json();
+      const puzzles = await this.source();
+      puzzles.forEach(puzzle => {
+        this.puzzles.set(puzzle.id, puzzle);
+      });
       
-      if (data.puzzles && Array.isArray(data.puzzles)) {
-        data.puzzles.forEach((puzzle: Puzzle) => {
-          this.puzzles.set(puzzle.id, puzzle);
-        });
-        
-        console.log(`✅ Loaded ${this.puzzles.size} puzzles from local database`);
-        this.isInitialized = true;
-      } else {
-        throw new Error('Invalid puzzle database format');
-      }
+      console.log(`✅ Loaded ${this.puzzles.size} puzzles from local database`);
+      this.isInitialized = true;
     } catch (error) {
       console.error('❌ Failed to initialize puzzle service:', error);
       throw error;
@@ -154,19 +230,24 @@ export class LocalPuzzleService implements IPuzzleService {
     
     if (puzzles.length === 0) return null;
     
+    if (filter?.userId) {
+      const progress = await this.getUserProgress(filter.userId);
+      return this.selector.select(puzzles, this.getSelectionContext(progress));
+    }
+    
     const randomIndex = Math.floor(Math.random() * puzzles.length);
     return puzzles[randomIndex] || null;
   }
 
   async getUserProgress(userId: string): Promise<UserProgress | null> {
-    // In local implementation, load from localStorage
+    // In local implementation, load from the persistence layer
     try {
-      const stored = localStorage.getItem(`chess-hawk-progress-${userId}`);
+      const stored = await this.storage.getJSON<UserProgress>(STORAGE_KEYS.progress(userId));
       if (stored) {
-        return JSON.parse(stored);
+        return stored;
       }
     } catch (error) {
-      console.warn('Failed to load user progress from localStorage:', error);
+      console.warn('Failed to load user progress from storage:', error);
     }
     
     return null;
@@ -177,8 +258,32 @@ export class LocalPuzzleService implements IPuzzleService {
     puzzleId: string, 
     solution: string[], 
     timeSpent: number, 
-    attempts: number
+    attempts: number,
+    hintsUsed: number = 0,
+    attemptId?: string
   ): Promise<SolutionResult> {
+    const { result } = await this.gradeSubmission(userId, puzzleId, solution, timeSpent, attempts, hintsUsed, attemptId);
+    return result;
+  }
+
+  /**
+   * Grade a submission once per attempt id. A replay gets the first result back with `replayed` set
+   */
+  async gradeSubmission(
+    userId: string, 
+    puzzleId: string, 
+    solution: string[], 
+    timeSpent: number, 
+    attempts: number,
+    hintsUsed: number = 0,
+    attemptId?: string
+  ): Promise<{ result: SolutionResult; replayed: boolean }> {
+    if (attemptId) {
+      const receipts = await this.loadReceipts(userId);
+      const receipt = receipts.find(candidate => candidate.attemptId === attemptId);
+      if (receipt) return { result: receipt.result, replayed: true };
+    }
+    
     const puzzle = await this.getPuzzle(puzzleId);
     
     if (!puzzle) {
@@ -188,32 +293,52 @@ export class LocalPuzzleService implements IPuzzleService {
     // Check if solution is correct
     const isCorrect = this.validateSolution(puzzle, solution);
     
-    // Calculate score based on difficulty, time, and attempts
-    const score = this.calculateScore(puzzle, timeSpent, attempts, isCorrect);
+    // Calculate score based on difficulty, time and attempts, less the cost of any hints
+    const score = applyHintPenalty(this.calculateScore(puzzle, timeSpent, attempts, isCorrect), hintsUsed);
     
     // Update user progress
-    await this.updateUserProgress(userId, puzzleId, isCorrect, timeSpent, score);
+    await this.updateUserProgress(userId, puzzleId, isCorrect, timeSpent, attempts, score, hintsUsed);
     
     // Get next puzzle suggestion
     const nextPuzzleId = await this.getNextPuzzleSuggestion(userId, puzzle);
     
-    return {
+    const result: SolutionResult = {
       success: isCorrect,
       timeSpent,
       attempts,
       score,
       nextPuzzleId
     };
+    
+    if (attemptId) {
+      await this.saveSubmissionReceipt(userId, { attemptId, result });
+    }
+    
+    return { result, replayed: false };
   }
 
-  private validateSolution(puzzle: Puzzle, userSolution: string[]): boolean {
-    if (userSolution.length !== puzzle.solution.length) {
-      return false;
-    }
+  private async saveSubmissionReceipt(userId: string, receipt: SubmissionReceipt): Promise<void> {
+    const receipts = [...await this.loadReceipts(userId), receipt].slice(-MAX_RECEIPTS);
     
-    return userSolution.every((move, index) => 
-      move === puzzle.solution[index]
-    );
+    try {
+      await this.storage.setJSON(STORAGE_KEYS.receipts(userId), receipts);
+    } catch (error) {
+      console.warn('Failed to save submission receipt to storage:', error);
+    }
+  }
+
+  private async loadReceipts(userId: string): Promise<SubmissionReceipt[]> {
+    try {
+      return await this.storage.getJSON<SubmissionReceipt[]>(STORAGE_KEYS.receipts(userId)) || [];
+    } catch (error) {
+      console.warn('Failed to load submission receipts from storage:', error);
+      return [];
+    }
+  }
+
+  private validateSolution(puzzle: Puzzle, userSolution: string[]): boolean {
+    // Accepts SAN/UCI variants, alternative lines and, for mate themes, any mate
+    return isSolutionLine(puzzle, userSolution);
   }
 
   private calculateScore(puzzle: Puzzle, timeSpent: number, attempts: number, isCorrect: boolean): number {
@@ -242,20 +367,11 @@ export class LocalPuzzleService implements IPuzzleService {
     puzzleId: string, 
     solved: boolean, 
     timeSpent: number, 
-    _score: number
+    attempts: number,
+    _score: number,
+    hintsUsed: number
   ): Promise<void> {
-    let progress = await this.getUserProgress(userId);
-    
-    if (!progress) {
-      progress = {
-        userId,
-        puzzlesSolved: [],
-        totalTime: 0,
-        averageRating: 0,
-        streaks: { current: 0, best: 0 },
-        themeProgress: {}
-      };
-    }
+    const progress = await this.getUserProgress(userId) || this.createUserProgress(userId);
     
     if (solved && !progress.puzzlesSolved.includes(puzzleId)) {
       progress.puzzlesSolved.push(puzzleId);
@@ -267,9 +383,19 @@ export class LocalPuzzleService implements IPuzzleService {
     
     progress.totalTime += timeSpent;
     
-    // Update theme progress
+    // Failed puzzles enter the review queue; queued puzzles are rescheduled
+    const reviewCards = progress.reviewCards || {};
+    const wrongMoves = Math.max(0, attempts - 1); // tries before the one that counted
+    if (shouldSchedule(reviewCards[puzzleId], solved, wrongMoves, hintsUsed)) {
+      reviewCards[puzzleId] = scheduleReview(reviewCards[puzzleId], puzzleId, gradeAttempt(solved, wrongMoves, hintsUsed));
+      progress.reviewCards = reviewCards;
+    }
+    
+    // Update theme progress and the Glicko-2 rating
     const puzzle = await this.getPuzzle(puzzleId);
     if (puzzle) {
+      progress.rating = recordPuzzleResult(progress.rating, puzzle, solved);
+      
       if (!progress.themeProgress[puzzle.theme]) {
         progress.themeProgress[puzzle.theme] = {
           solved: 0,
@@ -291,67 +417,108 @@ export class LocalPuzzleService implements IPuzzleService {
       }
     }
     
-    // Save to localStorage
+    await this.saveUserProgress(userId, progress);
+  }
+
+  private createUserProgress(userId: string): UserProgress {
+    return {
+      userId,
+      puzzlesSolved: [],
+      totalTime: 0,
+      averageRating: 0,
+      streaks: { current: 0, best: 0 },
+      themeProgress: {}
+    };
+  }
+
+  private async saveUserProgress(userId: string, progress: UserProgress): Promise<void> {
     try {
-      localStorage.setItem(`chess-hawk-progress-${userId}`, JSON.stringify(progress));
+      await this.storage.setJSON(STORAGE_KEYS.progress(userId), progress);
     } catch (error) {
-      console.warn('Failed to save user progress to localStorage:', error);
+      console.warn('Failed to save user progress to storage:', error);
     }
     
     this.userProgress.set(userId, progress);
   }
 
-  private async getNextPuzzleSuggestion(userId: string, currentPuzzle: Puzzle): Promise<string | undefined> {
+  async getDuePuzzles(userId: string): Promise<Puzzle[]> {
     const progress = await this.getUserProgress(userId);
+    const dueCards = getDueCards(progress?.reviewCards);
     
-    if (!progress) {
-      // For new users, suggest similar difficulty
-      const similarPuzzles = await this.getPuzzles({
-        difficulty: currentPuzzle.difficulty,
-        limit: 10
-      });
-      
-      const unsolved = similarPuzzles.filter(p => 
-        p.id !== currentPuzzle.id
-      );
-      
-      return unsolved.length > 0 ? unsolved[0]?.id : undefined;
-    }
+    const puzzles = await Promise.all(dueCards.map(card => this.getPuzzle(card.puzzleId)));
+    return puzzles.filter((puzzle): puzzle is Puzzle => puzzle !== null);
+  }
+
+  async saveRushRun(userId: string, run: RushRun): Promise<RushRunResult> {
+    const progress = await this.getUserProgress(userId) || this.createUserProgress(userId);
     
-    // For experienced users, suggest based on weak themes or progressive difficulty
-    const weakestTheme = this.findWeakestTheme(progress);
+    const previousBest = progress.rushBests?.[run.variant] || 0;
     
-    if (weakestTheme) {
-      const themePuzzles = await this.getPuzzles({
-        theme: weakestTheme,
-        limit: 5
-      });
-      
-      const unsolved = themePuzzles.filter(p => 
-        !progress.puzzlesSolved.includes(p.id)
-      );
-      
-      if (unsolved.length > 0) {
-        return unsolved[Math.floor(Math.random() * unsolved.length)]?.id;
-      }
+    // The same run sent again (an outbox replay) is only stored once
+    const serialized = JSON.stringify(run);
+    if (progress.rushRuns?.some(saved => saved.id === run.id && JSON.stringify(saved) === serialized)) {
+      return { personalBest: previousBest, isPersonalBest: false };
     }
     
-    return undefined;
+    const isPersonalBest = run.score > previousBest;
+    
+    progress.rushRuns = [...(progress.rushRuns || []), run].slice(-MAX_RUSH_RUNS);
+    progress.rushBests = {
+      ...progress.rushBests,
+      [run.variant]: Math.max(previousBest, run.score)
+    };
+    
+    await this.saveUserProgress(userId, progress);
+    
+    return {
+      personalBest: Math.max(previousBest, run.score),
+      isPersonalBest
+    };
   }
 
-  private findWeakestTheme(progress: UserProgress): string | null {
-    let lowestSuccessRate = 1.0;
-    let weakestTheme: string | null = null;
+  async recordAttempt(userId: string, attempt: PuzzleAttempt): Promise<void> {
+    const attempts = await this.loadAttempts(userId);
     
-    for (const [theme, stats] of Object.entries(progress.themeProgress)) {
-      const successRate = stats.solved / stats.total;
-      if (successRate < lowestSuccessRate && stats.total >= 3) {
-        lowestSuccessRate = successRate;
-        weakestTheme = theme;
-      }
+    // Re-recording an attempt replaces it
+    const updated = [...attempts.filter(a => a.id !== attempt.id), attempt].slice(-MAX_ATTEMPTS);
+    
+    try {
+      await this.storage.setJSON(STORAGE_KEYS.attempts(userId), updated);
+    } catch (error) {
+      console.warn('Failed to save attempt history to storage:', error);
+    }
+  }
+
+  async getAttemptHistory(userId: string, filter?: AttemptHistoryFilter): Promise<PuzzleAttempt[]> {
+    return filterAttempts(await this.loadAttempts(userId), filter);
+  }
+
+  private async loadAttempts(userId: string): Promise<PuzzleAttempt[]> {
+    try {
+      return await this.storage.getJSON<PuzzleAttempt[]>(STORAGE_KEYS.attempts(userId)) || [];
+    } catch (error) {
+      console.warn('Failed to load attempt history from storage:', error);
+      return [];
     }
+  }
+
+  private async getNextPuzzleSuggestion(userId: string, currentPuzzle: Puzzle): Promise<string | undefined> {
+    const progress = await this.getUserProgress(userId);
+    const candidates = (await this.getPuzzles()).filter(p => p.id !== currentPuzzle.id);
     
-    return weakestTheme;
+    // Rating fit, weak themes and recently seen puzzles are weighed by the selector
+    return this.selector.select(candidates, this.getSelectionContext(progress))?.id;
+  }
+
+  private getSelectionContext(progress: UserProgress | null): PuzzleSelectionContext {
+    if (!progress) return {};
+    
+    return {
+      userRating: progress.rating?.rating,
+      themeStats: progress.themeProgress,
+      recentPuzzleIds: progress.rating?.history.slice(-20).map(entry => entry.puzzleId),
+      solvedPuzzleIds: progress.puzzlesSolved
+    };
   }
 
   async getPuzzleStats(_puzzleId: string): Promise<{
@@ -378,12 +545,14 @@ export class LocalPuzzleService implements IPuzzleService {
         return false;
       }
       
-      // Check for required fields
-      for (const puzzle of this.puzzles.values()) {
-        if (!puzzle.id || !puzzle.fen || !puzzle.solution || puzzle.solution.length === 0) {
-          console.error(`❌ Invalid puzzle: ${puzzle.id}`);
-          return false;
-        }
+      // Replay every puzzle, which also catches missing fields
+      const report = validatePuzzleCollection(Array.from(this.puzzles.values()));
+      if (report.broken.length > 0) {
+        report.broken.forEach(puzzle => {
+          console.error(`❌ Invalid puzzle: ${puzzle.id} (${puzzle.issues.map(issue => issue.message).join('; ')})`);
+        });
+        console.error(`❌ Database validation failed: ${report.broken.length} of ${report.total} puzzles broken`);
+        return false;
       }
       
       console.log(`✅ Database validation passed: ${this.puzzles.size} puzzles`);
@@ -396,11 +565,13 @@ export class LocalPuzzleService implements IPuzzleService {
 
   async exportUserData(userId: string): Promise<any> {
     const progress = await this.getUserProgress(userId);
-    const settings = localStorage.getItem(`chess-hawk-settings-${userId}`);
+    const settings = await this.storage.getJSON(STORAGE_KEYS.settings(userId));
+    const attempts = await this.loadAttempts(userId);
     
     return {
       progress,
-      settings: settings ? JSON.parse(settings) : null,
+      settings,
+      attempts,
       exportedAt: new Date().toISOString()
     };
   }
@@ -408,25 +579,88 @@ export class LocalPuzzleService implements IPuzzleService {
   async importUserData(userId: string, data: any): Promise<void> {
     if (data.progress) {
       this.userProgress.set(userId, data.progress);
-      localStorage.setItem(`chess-hawk-progress-${userId}`, JSON.stringify(data.progress));
+      await this.storage.setJSON(STORAGE_KEYS.progress(userId), data.progress);
     }
     
     if (data.settings) {
-      localStorage.setItem(`chess-hawk-settings-${userId}`, JSON.stringify(data.settings));
+      await this.storage.setJSON(STORAGE_KEYS.settings(userId), data.settings);
+    }
+    
+    if (data.attempts) {
+      await this.storage.setJSON(STORAGE_KEYS.attempts(userId), data.attempts);
     }
   }
 }
 
+export interface ApiPuzzleServiceOptions {
+  timeoutMs?: number; // per try, default 10 s
+  retries?: number; // extra tries for GET requests, default 2
+  retryDelayMs?: number; // first backoff, doubled for every retry; default 300 ms
+  fallback?: IPuzzleService; // answers reads while the API is unreachable
+  offlineCooldownMs?: number; // after falling back, skip the API for this long; default 30 s
+  outbox?: PuzzleOutbox; // queue writes locally and replay them in order, see ./PuzzleOutbox
+}
+
+/**
+ * What one outbox replay did
+ */
+export interface OutboxReplay {
+  delivered: string[]; // entry ids, in order
+  rejected: { entry: OutboxEntry; error: unknown }[]; // refused by the server and dropped
+  deferred: { entry: OutboxEntry; error: ApiServerError }[]; // server errors; kept and retried later
+  deadLettered: { entry: OutboxEntry; error: ApiServerError }[]; // server errors MAX_OUTBOX_FAILURES times
+  unreachable?: ApiError; // set when entries are still queued because the API is down
+}
+
+type OutboxOutcome = { value: unknown } | { error: unknown };
+
+/**
+ * Per-call options for ApiPuzzleService methods
+ */
+export interface ApiRequestOptions {
+  signal?: AbortSignal; // aborting rejects with the signal's reason and is never retried
+  timeoutMs?: number;
+}
+
+const DEFAULT_API_OPTIONS = {
+  timeoutMs: 10000,
+  retries: 2,
+  retryDelayMs: 300,
+  offlineCooldownMs: 30000
+};
+
 /**
- * Future API-based implementation
+ * HTTP implementation talking to a Chess Hawk API server (see server/ and ./ApiSchema)
  */
 export class ApiPuzzleService implements IPuzzleService {
   private baseUrl: string;
   private apiKey?: string;
+  private options: typeof DEFAULT_API_OPTIONS;
+  private fallback?: IPuzzleService;
+  private offlineUntil = 0;
+  private lastNetworkError?: ApiError;
+  private outbox?: PuzzleOutbox;
+  private replaying: Promise<unknown> = Promise.resolve();
+  private awaited = new Map<string, OutboxOutcome | null>(); // entries a write call is waiting on
 
-  constructor(baseUrl: string, apiKey?: string) {
+  constructor(baseUrl: string, apiKey?: string, options: ApiPuzzleServiceOptions = {}) {
     this.baseUrl = baseUrl;
     this.apiKey = apiKey;
+    this.options = {
+      timeoutMs: options.timeoutMs ?? DEFAULT_API_OPTIONS.timeoutMs,
+      retries: options.retries ?? DEFAULT_API_OPTIONS.retries,
+      retryDelayMs: options.retryDelayMs ?? DEFAULT_API_OPTIONS.retryDelayMs,
+      offlineCooldownMs: options.offlineCooldownMs ?? DEFAULT_API_OPTIONS.offlineCooldownMs
+    };
+    this.fallback = options.fallback;
+    this.outbox = options.outbox;
+    
+    if (this.outbox && typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      window.addEventListener('online', () => {
+        this.offlineUntil = 0;
+        this.flushOutbox().catch(error => console.warn('Failed to replay the outbox:', error));
+      });
+    }
   }
 
   private getHeaders(): Record<string, string> {
@@ -441,218 +675,506 @@ export class ApiPuzzleService implements IPuzzleService {
     return headers;
   }
 
-  async getPuzzle(id: string): Promise<Puzzle | null> {
-    try {
-      const response = await fetch(`${this.baseUrl}/puzzles/${id}`, {
-        headers: this.getHeaders()
-      });
-      
-      if (!response.ok) {
-        if (response.status === 404) return null;
-        throw new Error(`API error: ${response.status}`);
+  /**
+   * Send a request, retrying GETs with exponential backoff on network errors,
+   * 5xx and 429. Resolves with an ok response or rejects with an ApiError.
+   */
+  private async send(
+    method: 'GET' | 'POST',
+    url: string,
+    endpoint: string,
+    request: ApiRequestOptions & { body?: unknown } = {}
+  ): Promise<Response> {
+    const tries = method === 'GET' ? this.options.retries + 1 : 1;
+    
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendOnce(method, url, endpoint, request);
+      } catch (error) {
+        if (attempt >= tries || !isRetryable(error)) throw error;
+        const backoff = this.options.retryDelayMs * 2 ** (attempt - 1);
+        await wait(backoff * (0.5 + Math.random() / 2), request.signal);
       }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to fetch puzzle:', error);
-      return null;
     }
   }
 
-  async getPuzzles(filter?: PuzzleFilter): Promise<Puzzle[]> {
+  private async sendOnce(
+    method: 'GET' | 'POST',
+    url: string,
+    endpoint: string,
+    request: ApiRequestOptions & { body?: unknown }
+  ): Promise<Response> {
+    const { signal, body } = request;
+    const timeoutMs = request.timeoutMs ?? this.options.timeoutMs;
+    signal?.throwIfAborted();
+    
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    signal?.addEventListener('abort', abort);
+    
+    let response: Response | undefined;
     try {
-      const params = new URLSearchParams();
-      
-      if (filter) {
-        if (filter.theme) params.append('theme', filter.theme);
-        if (filter.difficulty) params.append('difficulty', filter.difficulty);
-        if (filter.rating?.min) params.append('minRating', filter.rating.min.toString());
-        if (filter.rating?.max) params.append('maxRating', filter.rating.max.toString());
-        if (filter.limit) params.append('limit', filter.limit.toString());
-        if (filter.offset) params.append('offset', filter.offset.toString());
-        if (filter.tags) filter.tags.forEach(tag => params.append('tags', tag));
-      }
-      
-      const response = await fetch(`${this.baseUrl}/puzzles?${params}`, {
-        headers: this.getHeaders()
+      response = await fetch(url, {
+        method,
+        headers: this.getHeaders(),
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal
       });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      return data.puzzles || [];
     } catch (error) {
-      console.error('Failed to fetch puzzles:', error);
-      return [];
+      signal?.throwIfAborted();
+      const reason = timedOut ? `timed out after ${timeoutMs} ms` : error instanceof Error ? error.message : String(error);
+      throw new ApiNetworkError(endpoint, `Network error on ${endpoint}: ${reason}`, timedOut, error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+    
+    if (!response) {
+      throw new ApiNetworkError(endpoint, `Network error on ${endpoint}: no response`);
+    }
+    if (!response.ok) {
+      throw httpError(endpoint, response.status);
     }
+    return response;
   }
 
-  async getRandomPuzzle(filter?: PuzzleFilter): Promise<Puzzle | null> {
+  /**
+   * Parse the body and check it against the API schema instead of trusting the cast
+   */
+  private async readResponse<N extends ApiSchemaName>(response: Response, schema: N, endpoint: string): Promise<ApiPayloads[N]> {
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new InvalidApiResponseError(endpoint, schema, [{ path: '$', message: 'body is not valid JSON' }]);
+    }
+    return parseApiResponse(schema, body, endpoint);
+  }
+
+  private async get<N extends ApiSchemaName>(url: string, endpoint: string, schema: N, request: ApiRequestOptions): Promise<ApiPayloads[N]> {
+    return this.readResponse(await this.send('GET', url, endpoint, request), schema, endpoint);
+  }
+
+  /**
+   * Run a read against the API, or against the fallback service while the API
+   * is unreachable. Other failures (404, auth, bad responses) are not masked.
+   */
+  private async read<T>(call: () => Promise<T>, offline: (fallback: IPuzzleService) => Promise<T>): Promise<T> {
+    const fallback = this.fallback;
+    if (fallback && Date.now() < this.offlineUntil) {
+      return offline(fallback);
+    }
+    
     try {
-      const params = new URLSearchParams();
+      const result = await call();
+      this.markOnline();
+      return result;
+    } catch (error) {
+      if (!fallback || !isUnreachable(error)) throw error;
       
-      if (filter) {
-        if (filter.theme) params.append('theme', filter.theme);
-        if (filter.difficulty) params.append('difficulty', filter.difficulty);
-        if (filter.rating?.min) params.append('minRating', filter.rating.min.toString());
-        if (filter.rating?.max) params.append('maxRating', filter.rating.max.toString());
+      console.warn(`⚠️ Puzzle API unreachable, using local puzzles: ${error.message}`);
+      this.markOffline(error);
+      return offline(fallback);
+    }
+  }
+
+  private markOffline(error: ApiError): void {
+    this.lastNetworkError = error;
+    if (this.fallback) {
+      this.offlineUntil = Date.now() + this.options.offlineCooldownMs;
+    }
+  }
+
+  private markOnline(): void {
+    const wasOffline = this.offlineUntil > 0;
+    this.offlineUntil = 0;
+    
+    if (wasOffline && this.outbox) {
+      this.flushOutbox().catch(error => console.warn('Failed to replay the outbox:', error));
+    }
+  }
+
+  /**
+   * Replay queued writes in order. Stops at the first entry the API can't be
+   * reached for, so later entries never overtake it. Entries the server refuses
+   * (4xx, bad responses) are dropped and reported. An entry that gets a server
+   * error (5xx) stays queued and is held back with backoff while later entries
+   * go on; after MAX_OUTBOX_FAILURES of them it is dead-lettered.
+   */
+  flushOutbox(request: ApiRequestOptions = {}): Promise<OutboxReplay> {
+    const replay = this.replaying
+      .catch(() => undefined)
+      .then(() => this.replayOutbox(request));
+    this.replaying = replay;
+    return replay;
+  }
+
+  /**
+   * Writes still waiting for the server, oldest first
+   */
+  async getPendingWrites(userId?: string): Promise<OutboxEntry[]> {
+    return this.outbox ? this.outbox.entries(userId) : [];
+  }
+
+  private async replayOutbox(request: ApiRequestOptions): Promise<OutboxReplay> {
+    const result: OutboxReplay = { delivered: [], rejected: [], deferred: [], deadLettered: [] };
+    if (!this.outbox) return result;
+    
+    const now = new Date().toISOString();
+    for (const entry of await this.outbox.entries()) {
+      if (this.isOffline()) {
+        result.unreachable = this.lastNetworkError;
+        break;
       }
+      if (entry.retryAt && entry.retryAt > now) continue;
       
-      const response = await fetch(`${this.baseUrl}/puzzles/random?${params}`, {
-        headers: this.getHeaders()
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
+      let outcome: OutboxOutcome;
+      try {
+        outcome = { value: await this.deliver(entry, request) };
+        this.offlineUntil = 0;
+        result.delivered.push(entry.id);
+      } catch (error) {
+        if (error instanceof ApiNetworkError) {
+          this.markOffline(error);
+          result.unreachable = error;
+          break;
+        }
+        if (error instanceof ApiServerError) {
+          const failed = await this.outbox.recordFailure(entry.id) || entry;
+          if ((failed.failures || 0) < MAX_OUTBOX_FAILURES) {
+            console.warn(`⚠️ Server error for outbox entry ${entry.id}, retrying later: ${error.message}`);
+            result.deferred.push({ entry: failed, error });
+            continue;
+          }
+          
+          console.warn(`⚠️ Dead-lettering outbox entry ${entry.id}: ${error.message}`);
+          await this.outbox.deadLetter(failed, error);
+          result.deadLettered.push({ entry: failed, error });
+          if (this.awaited.has(entry.id)) this.awaited.set(entry.id, { error });
+          continue;
+        }
+        if (!(error instanceof ApiError || error instanceof InvalidApiResponseError)) throw error;
+        
+        console.warn(`⚠️ Dropping outbox entry ${entry.id}: ${error.message}`);
+        outcome = { error };
+        result.rejected.push({ entry, error });
       }
       
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to fetch random puzzle:', error);
-      return null;
+      await this.outbox.remove(entry.id);
+      if (this.awaited.has(entry.id)) this.awaited.set(entry.id, outcome);
     }
+    
+    return result;
   }
 
-  async getUserProgress(userId: string): Promise<UserProgress | null> {
+  private deliver(entry: OutboxEntry, request: ApiRequestOptions): Promise<unknown> {
+    switch (entry.type) {
+      case 'solution':
+        return this.postSolution(entry.userId, entry.submission, request);
+      case 'rushRun':
+        return this.postRushRun(entry.userId, entry.run, request);
+      case 'attempt':
+        return this.postAttempt(entry.userId, entry.attempt, request);
+    }
+  }
+
+  /**
+   * Queue a write, replay the outbox and answer with the server's result. While
+   * the API is unreachable the write stays queued and the fallback answers.
+   */
+  private async write<T>(
+    item: OutboxItem,
+    request: ApiRequestOptions,
+    offline: ((fallback: IPuzzleService) => Promise<T>) | null
+  ): Promise<T> {
+    const id = outboxEntryId(item);
+    this.awaited.set(id, null);
+    
+    let replay: OutboxReplay;
+    let outcome: OutboxOutcome | null | undefined;
     try {
-      const response = await fetch(`${this.baseUrl}/users/${userId}/progress`, {
-        headers: this.getHeaders()
-      });
-      
-      if (!response.ok) {
-        if (response.status === 404) return null;
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to fetch user progress:', error);
-      return null;
+      await this.outbox!.enqueue(item);
+      replay = await this.flushOutbox(request);
+    } finally {
+      outcome = this.awaited.get(id);
+      this.awaited.delete(id);
+    }
+    
+    if (outcome && 'error' in outcome) throw outcome.error;
+    if (outcome) return outcome.value as T;
+    
+    if (this.fallback && offline) return offline(this.fallback);
+    if (!offline) return undefined as T; // queued; nothing to answer
+    const deferred = replay.deferred.find(({ entry }) => entry.id === id);
+    throw deferred?.error || replay.unreachable || new ApiNetworkError(id, `${id} is queued until the API can be reached`);
+  }
+
+  /**
+   * True while reads are being answered by the fallback service
+   */
+  isOffline(): boolean {
+    return Date.now() < this.offlineUntil;
+  }
+
+  async getPuzzle(id: string, request: ApiRequestOptions = {}): Promise<Puzzle | null> {
+    return this.read(
+      () => orNullOn404(this.get(`${this.baseUrl}/puzzles/${encodeURIComponent(id)}`, 'GET /puzzles/{id}', 'Puzzle', request)),
+      fallback => fallback.getPuzzle(id)
+    );
+  }
+
+  async getPuzzles(filter?: PuzzleFilter, request: ApiRequestOptions = {}): Promise<Puzzle[]> {
+    const params = new URLSearchParams();
+    
+    if (filter) {
+      if (filter.theme) params.append('theme', filter.theme);
+      if (filter.difficulty) params.append('difficulty', filter.difficulty);
+      if (filter.rating?.min) params.append('minRating', filter.rating.min.toString());
+      if (filter.rating?.max) params.append('maxRating', filter.rating.max.toString());
+      if (filter.limit) params.append('limit', filter.limit.toString());
+      if (filter.offset) params.append('offset', filter.offset.toString());
+      if (filter.tags) filter.tags.forEach(tag => params.append('tags', tag));
+    }
+    
+    return this.read(
+      async () => (await this.get(`${this.baseUrl}/puzzles?${params}`, 'GET /puzzles', 'PuzzleList', request)).puzzles,
+      fallback => fallback.getPuzzles(filter)
+    );
+  }
+
+  async getRandomPuzzle(filter?: PuzzleFilter, request: ApiRequestOptions = {}): Promise<Puzzle | null> {
+    const params = new URLSearchParams();
+    
+    if (filter) {
+      if (filter.theme) params.append('theme', filter.theme);
+      if (filter.difficulty) params.append('difficulty', filter.difficulty);
+      if (filter.rating?.min) params.append('minRating', filter.rating.min.toString());
+      if (filter.rating?.max) params.append('maxRating', filter.rating.max.toString());
+      if (filter.userId) params.append('userId', filter.userId);
     }
+    
+    // 404 here means no puzzle matches the filter
+    return this.read(
+      () => orNullOn404(this.get(`${this.baseUrl}/puzzles/random?${params}`, 'GET /puzzles/random', 'Puzzle', request)),
+      fallback => fallback.getRandomPuzzle(filter)
+    );
+  }
+
+  async getUserProgress(userId: string, request: ApiRequestOptions = {}): Promise<UserProgress | null> {
+    let answeredLocally = false;
+    const progress = await this.read(
+      () => orNullOn404(this.get(this.userUrl(userId, 'progress'), 'GET /users/{userId}/progress', 'UserProgress', request)),
+      fallback => {
+        answeredLocally = true;
+        return fallback.getUserProgress(userId);
+      }
+    );
+    
+    // Queued writes only show in the local progress until they are replayed
+    const pending = await this.getPendingWrites(userId);
+    if (!this.fallback || answeredLocally || pending.length === 0) return progress;
+    return mergeUserProgress(progress, await this.fallback.getUserProgress(userId), await this.queuedSolutions(pending));
   }
 
+  /**
+   * Queued submissions graded the way the local service graded them
+   */
+  private queuedSolutions(entries: OutboxEntry[]): Promise<QueuedSolution[]> {
+    const fallback = this.fallback!;
+    
+    return Promise.all(entries.flatMap(entry => entry.type === 'solution' ? [entry.submission] : []).map(async submission => {
+      const puzzle = await fallback.getPuzzle(submission.puzzleId);
+      return {
+        puzzle,
+        solved: puzzle ? isSolutionLine(puzzle, submission.solution) : false,
+        timeSpent: submission.timeSpent
+      };
+    }));
+  }
+
+
   async submitSolution(
     userId: string, 
     puzzleId: string, 
     solution: string[], 
     timeSpent: number, 
-    attempts: number
+    attempts: number,
+    hintsUsed?: number,
+    attemptId?: string,
+    request: ApiRequestOptions = {}
   ): Promise<SolutionResult> {
-    try {
-      const response = await fetch(`${this.baseUrl}/users/${userId}/solutions`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify({
-          puzzleId,
-          solution,
-          timeSpent,
-          attempts
-        })
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to submit solution:', error);
-      throw error;
+    const submission = {
+      puzzleId,
+      solution,
+      timeSpent,
+      attempts,
+      hintsUsed,
+      attemptId
+    };
+    
+    if (!this.outbox) return this.postSolution(userId, submission, request);
+    
+    // The outbox needs an id to replay the submission safely
+    const queued = { ...submission, attemptId: attemptId || createAttemptId() };
+    return this.write({ type: 'solution', userId, submission: queued }, request, fallback =>
+      fallback.submitSolution(userId, puzzleId, solution, timeSpent, attempts, hintsUsed, queued.attemptId)
+    );
+  }
+
+  private async postSolution(userId: string, submission: SolutionSubmission, request: ApiRequestOptions): Promise<SolutionResult> {
+    const endpoint = 'POST /users/{userId}/solutions';
+    const response = await this.send('POST', this.userUrl(userId, 'solutions'), endpoint, { ...request, body: submission });
+    return this.readResponse(response, 'SolutionResult', endpoint);
+  }
+
+  async getDuePuzzles(userId: string, request: ApiRequestOptions = {}): Promise<Puzzle[]> {
+    return this.read(
+      async () => (await this.get(this.userUrl(userId, 'reviews/due'), 'GET /users/{userId}/reviews/due', 'DuePuzzles', request)).puzzles,
+      fallback => fallback.getDuePuzzles(userId)
+    );
+  }
+
+  async saveRushRun(userId: string, run: RushRun, request: ApiRequestOptions = {}): Promise<RushRunResult> {
+    if (!this.outbox) return this.postRushRun(userId, run, request);
+    return this.write({ type: 'rushRun', userId, run }, request, fallback => fallback.saveRushRun(userId, run));
+  }
+
+  private async postRushRun(userId: string, run: RushRun, request: ApiRequestOptions): Promise<RushRunResult> {
+    const endpoint = 'POST /users/{userId}/rush-runs';
+    const response = await this.send('POST', this.userUrl(userId, 'rush-runs'), endpoint, { ...request, body: run });
+    return this.readResponse(response, 'RushRunResult', endpoint);
+  }
+
+  async recordAttempt(userId: string, attempt: PuzzleAttempt, request: ApiRequestOptions = {}): Promise<void> {
+    if (!this.outbox) return this.postAttempt(userId, attempt, request);
+    
+    // Also kept locally while offline, so the attempt shows up in the history
+    const offline = this.fallback ? (fallback: IPuzzleService) => fallback.recordAttempt(userId, attempt) : null;
+    return this.write({ type: 'attempt', userId, attempt }, request, offline);
+  }
+
+  private async postAttempt(userId: string, attempt: PuzzleAttempt, request: ApiRequestOptions): Promise<void> {
+    await this.send('POST', this.userUrl(userId, 'attempts'), 'POST /users/{userId}/attempts', { ...request, body: attempt });
+  }
+
+  async getAttemptHistory(userId: string, filter?: AttemptHistoryFilter, request: ApiRequestOptions = {}): Promise<PuzzleAttempt[]> {
+    const params = new URLSearchParams();
+    
+    if (filter) {
+      if (filter.puzzleId) params.append('puzzleId', filter.puzzleId);
+      if (filter.theme) params.append('theme', filter.theme);
+      if (filter.result) params.append('result', filter.result);
+      if (filter.since) params.append('since', filter.since);
+      if (filter.until) params.append('until', filter.until);
+      if (filter.limit) params.append('limit', filter.limit.toString());
     }
+    
+    return this.read(
+      () => this.get(`${this.userUrl(userId, 'attempts')}?${params}`, 'GET /users/{userId}/attempts', 'AttemptList', request),
+      fallback => fallback.getAttemptHistory(userId, filter)
+    );
   }
 
-  async getPuzzleStats(puzzleId: string): Promise<{
+  async getPuzzleStats(puzzleId: string, request: ApiRequestOptions = {}): Promise<{
     solveRate: number;
     averageTime: number;
     averageAttempts: number;
   } | null> {
-    try {
-      const response = await fetch(`${this.baseUrl}/puzzles/${puzzleId}/stats`, {
-        headers: this.getHeaders()
-      });
-      
-      if (!response.ok) {
-        if (response.status === 404) return null;
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to fetch puzzle stats:', error);
-      return null;
-    }
+    return this.read(
+      () => orNullOn404(this.get(`${this.baseUrl}/puzzles/${encodeURIComponent(puzzleId)}/stats`, 'GET /puzzles/{id}/stats', 'PuzzleStats', request)),
+      fallback => fallback.getPuzzleStats(puzzleId)
+    );
   }
 
-  async validatePuzzleDatabase(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/admin/validate`, {
-        headers: this.getHeaders()
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      const result = await response.json();
-      return result.valid === true;
-    } catch (error) {
-      console.error('Failed to validate database:', error);
-      return false;
-    }
+  // Admin and data management calls always report the server's own state
+
+  async validatePuzzleDatabase(request: ApiRequestOptions = {}): Promise<boolean> {
+    return (await this.get(`${this.baseUrl}/admin/validate`, 'GET /admin/validate', 'DatabaseValidationResult', request)).valid;
   }
 
-  async exportUserData(userId: string): Promise<any> {
-    try {
-      const response = await fetch(`${this.baseUrl}/users/${userId}/export`, {
-        headers: this.getHeaders()
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to export user data:', error);
-      throw error;
-    }
+  async exportUserData(userId: string, request: ApiRequestOptions = {}): Promise<any> {
+    return this.get(this.userUrl(userId, 'export'), 'GET /users/{userId}/export', 'ExportedUserData', request);
   }
 
-  async importUserData(userId: string, data: any): Promise<void> {
-    try {
-      const response = await fetch(`${this.baseUrl}/users/${userId}/import`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify(data)
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
-    } catch (error) {
-      console.error('Failed to import user data:', error);
-      throw error;
-    }
+  async importUserData(userId: string, data: any, request: ApiRequestOptions = {}): Promise<void> {
+    await this.send('POST', this.userUrl(userId, 'import'), 'POST /users/{userId}/import', { ...request, body: data });
+  }
+
+  private userUrl(userId: string, resource: string): string {
+    return `${this.baseUrl}/users/${encodeURIComponent(userId)}/${resource}`;
   }
 }
 
+function httpError(endpoint: string, status: number): ApiError {
+  const message = `API error: ${status} on ${endpoint}`;
+  
+  if (status === 404) return new ApiNotFoundError(endpoint, message, status);
+  if (status === 401 || status === 403) return new ApiAuthError(endpoint, message, status);
+  if (status >= 500) return new ApiServerError(endpoint, message, status);
+  return new ApiError(endpoint, message, status);
+}
+
+function isUnreachable(error: unknown): error is ApiNetworkError | ApiServerError {
+  return error instanceof ApiNetworkError || error instanceof ApiServerError;
+}
+
+function isRetryable(error: unknown): boolean {
+  return error instanceof ApiNetworkError ||
+    error instanceof ApiServerError ||
+    (error instanceof ApiError && error.status === 429);
+}
+
+async function orNullOn404<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof ApiNotFoundError) return null;
+    throw error;
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
 // Service factory for easy switching between implementations
 export class PuzzleServiceFactory {
-  static createLocalService(): IPuzzleService {
-    return new LocalPuzzleService();
+  static createLocalService(selector?: PuzzleSelector): IPuzzleService {
+    return new LocalPuzzleService(selector);
   }
   
-  static createApiService(baseUrl: string, apiKey?: string): IPuzzleService {
-    return new ApiPuzzleService(baseUrl, apiKey);
+  static createApiService(baseUrl: string, apiKey?: string, options?: ApiPuzzleServiceOptions): IPuzzleService {
+    return new ApiPuzzleService(baseUrl, apiKey, options);
   }
   
-  static createService(config: {
-    type: 'local' | 'api';
-    baseUrl?: string;
-    apiKey?: string;
-  }): IPuzzleService {
+  static createService(config: PuzzleServiceConfig): IPuzzleService {
+    const service = PuzzleServiceFactory.createUncachedService(config);
+    if (!config.cache) return service;
+    
+    return new CachedPuzzleService(service, config.cache === true ? {} : config.cache);
+  }
+  
+  private static createUncachedService(config: PuzzleServiceConfig): IPuzzleService {
     switch (config.type) {
       case 'local':
         return new LocalPuzzleService();
@@ -660,7 +1182,12 @@ export class PuzzleServiceFactory {
         if (!config.baseUrl) {
           throw new Error('API base URL is required for API service');
         }
-        return new ApiPuzzleService(config.baseUrl, config.apiKey);
+        return new ApiPuzzleService(config.baseUrl, config.apiKey, {
+          timeoutMs: config.timeoutMs,
+          retries: config.retries,
+          fallback: config.offlineFallback === false ? undefined : new LocalPuzzleService(),
+          outbox: config.offlineOutbox === false ? undefined : new PuzzleOutbox()
+        });
       default:
         throw new Error(`Unknown service type: ${config.type}`);
     }
@@ -675,6 +1202,11 @@ export interface PuzzleServiceConfig {
   type: 'local' | 'api';
   baseUrl?: string;
   apiKey?: string;
+  timeoutMs?: number;
+  retries?: number;
+  offlineFallback?: boolean; // serve bundled puzzles while the API is unreachable, default true
+  offlineOutbox?: boolean; // queue submissions and progress while offline, default true
+  cache?: boolean | PuzzleCacheOptions; // wrap the service in a CachedPuzzleService
 }
 
 export interface UserProgressData {
@@ -690,10 +1222,15 @@ export interface UserProgressData {
     total: number;
     averageRating: number;
   }>;
+  reviewCards?: Record<string, ReviewCard>;
+  rating?: UserRating;
+  rushRuns?: RushRun[];
+  rushBests?: Partial<Record<RushVariant, number>>;
 }
 
 export interface ExportedUserData {
   progress?: UserProgress;
   settings?: Record<string, unknown>;
+  attempts?: PuzzleAttempt[];
   exportedAt?: string;
 }
\ No newline at end of file
@@ -0,0 +1,678 @@
+/**
+ * Game Store Tests
+ * Tests for puzzle solving flow in the zustand game store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useGameStore, isPlayerPly, type Puzzle, type Move } from './GameStore';
+import { persistentStorage, STORAGE_KEYS } from '../utils/storage';
+import type { PuzzleAttempt } from '../utils/attempts';
+import { chessHawkEvents } from '../core/events';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const foolsMate: Puzzle = {
+  id: 'test_fools_mate',
+  theme: 'mateIn2',
+  title: 'Narrematt',
+  description: 'Sett matt i to trekk',
+  fen: START_FEN,
+  solution: ['f2f3', 'e7e5', 'g2g4', 'd8h4'],
+  firstMove: 'opponent',
+  difficulty: 'beginner',
+  rating: 800,
+  points: 5,
+  hint: 'Se etter svakhetene rundt den hvite kongen',
+  tags: ['mateIn2'],
+  source: 'Test',
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+const move = (from: string, to: string, san: string, piece = 'p'): Move => ({
+  from,
+  to,
+  piece,
+  san,
+  lan: `${from}${to}`
+});
+
+describe('GameStore', () => {
+  beforeEach(() => {
+    useGameStore.getState().startNewGame();
+    useGameStore.getState().resetStats();
+    useGameStore.setState({ availablePuzzles: [foolsMate], currentPuzzleIndex: 0 });
+  });
+
+  describe('Solution lines', () => {
+    it('should know whose move each ply is', () => {
+      expect(isPlayerPly(foolsMate, 0)).toBe(false);
+      expect(isPlayerPly(foolsMate, 1)).toBe(true);
+      expect(isPlayerPly(foolsMate, 2)).toBe(false);
+      expect(isPlayerPly(foolsMate, 3)).toBe(true);
+      expect(isPlayerPly({ ...foolsMate, firstMove: undefined }, 0)).toBe(true);
+    });
+
+    it('should play the opponent setup move when the puzzle loads', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+
+      const state = useGameStore.getState();
+      expect(state.gameStatus).toBe('playing');
+      expect(state.moveHistory.map(m => m.san)).toEqual(['f3']);
+      expect(state.position).toBe('rnbqkbnr/pppppppp/8/8/8/5P2/PPPPP1PP/RNBQKBNR b KQkq - 0 1');
+    });
+
+    it('should auto-play the opponent reply after a correct move', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+
+      const state = useGameStore.getState();
+      expect(state.gameStatus).toBe('playing');
+      expect(state.moveHistory.map(m => m.san)).toEqual(['f3', 'e5', 'g4']);
+      expect(state.lastMove?.san).toBe('g4');
+      expect(state.position).toBe('rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2');
+    });
+
+    it('should solve the puzzle once the whole line is played', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+      useGameStore.getState().makeMove(move('d8', 'h4', 'Qh4#', 'q'));
+
+      const state = useGameStore.getState();
+      expect(state.gameStatus).toBe('solved');
+      expect(state.moveHistory).toHaveLength(4);
+      expect(state.userStats.puzzlesSolved).toBe(1);
+    });
+
+    it('should take back the opponent reply together with the player move', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      const afterSetup = useGameStore.getState().position;
+
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+      useGameStore.getState().undoMove();
+
+      const state = useGameStore.getState();
+      expect(state.moveHistory.map(m => m.san)).toEqual(['f3']);
+      expect(state.position).toBe(afterSetup);
+
+      // The setup move itself cannot be taken back
+      useGameStore.getState().undoMove();
+      expect(useGameStore.getState().moveHistory).toHaveLength(1);
+    });
+
+    it('should restart from the setup position on reset', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+      useGameStore.getState().resetPuzzle();
+
+      const state = useGameStore.getState();
+      expect(state.moveHistory.map(m => m.san)).toEqual(['f3']);
+      expect(state.lastMove?.san).toBe('f3');
+    });
+  });
+
+  describe('Move validation', () => {
+    it('should reject illegal moves without counting an attempt', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      const before = useGameStore.getState().position;
+
+      const accepted = useGameStore.getState().makeMove({ from: 'e7', to: 'e3' });
+
+      const state = useGameStore.getState();
+      expect(accepted).toBe(false);
+      expect(state.position).toBe(before);
+      expect(state.attemptsCount).toBe(0);
+      expect(state.errorMessage).toBe('Ulovlig trekk');
+    });
+
+    it('should count a legal but wrong move as a failed attempt', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      const before = useGameStore.getState().position;
+
+      const accepted = useGameStore.getState().makeMove({ from: 'd7', to: 'd5' });
+
+      const state = useGameStore.getState();
+      expect(accepted).toBe(false);
+      expect(state.position).toBe(before);
+      expect(state.attemptsCount).toBe(1);
+      expect(state.moveHistory).toHaveLength(1);
+    });
+
+    it('should fill in SAN and LAN when only squares are given', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+
+      const accepted = useGameStore.getState().makeMove({ from: 'e7', to: 'e5' });
+
+      const state = useGameStore.getState();
+      expect(accepted).toBe(true);
+      expect(state.moveHistory[1]).toMatchObject({ from: 'e7', to: 'e5', piece: 'p', san: 'e5', lan: 'e7e5' });
+    });
+
+    it('should carry the chosen promotion piece through to solution checking', async () => {
+      const underPromotion: Puzzle = {
+        ...foolsMate,
+        id: 'test_under_promotion',
+        theme: 'fork',
+        fen: '8/4P1k1/3q4/8/8/8/8/4K3 w - - 0 1',
+        solution: ['e7e8n'],
+        firstMove: undefined
+      };
+      useGameStore.setState({ availablePuzzles: [underPromotion] });
+      const moves = vi.fn();
+      const unsubscribe = chessHawkEvents.on('move_made', moves);
+
+      await useGameStore.getState().loadPuzzle(underPromotion.id);
+      expect(useGameStore.getState().makeMove({ from: 'e7', to: 'e8' })).toBe(false);
+      expect(useGameStore.getState().makeMove({ from: 'e7', to: 'e8', promotion: 'n' })).toBe(true);
+      unsubscribe();
+
+      const state = useGameStore.getState();
+      expect(state.gameStatus).toBe('solved');
+      expect(state.moveHistory[0]).toMatchObject({ san: 'e8=N+', promotion: 'n' });
+      expect(moves.mock.calls.map(([event]) => event.move.promotion)).toEqual(['q', 'n']);
+    });
+
+    it('should not accept moves while paused', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().pauseGame();
+
+      expect(useGameStore.getState().makeMove({ from: 'e7', to: 'e5' })).toBe(false);
+    });
+
+    it('should refuse to load a puzzle with a broken FEN', async () => {
+      useGameStore.setState({ availablePuzzles: [{ ...foolsMate, id: 'broken', fen: 'not a fen' }] });
+
+      await useGameStore.getState().loadPuzzle('broken');
+
+      const state = useGameStore.getState();
+      expect(state.gameStatus).toBe('menu');
+      expect(state.errorMessage).toContain('Invalid FEN');
+    });
+  });
+
+  describe('Equivalent solutions', () => {
+    const backRankMate: Puzzle = {
+      ...foolsMate,
+      id: 'test_back_rank',
+      theme: 'mateIn1',
+      fen: '7k/6pp/8/8/8/8/8/RR4K1 w - - 0 1',
+      solution: ['Ra8#'],
+      firstMove: undefined
+    };
+
+    it('should accept a different mating move in a mate puzzle', async () => {
+      useGameStore.setState({ availablePuzzles: [backRankMate] });
+      await useGameStore.getState().loadPuzzle(backRankMate.id);
+
+      expect(useGameStore.getState().makeMove({ from: 'b1', to: 'b8' })).toBe(true);
+      expect(useGameStore.getState().gameStatus).toBe('solved');
+    });
+
+    it('should follow an alternative line', async () => {
+      const puzzle: Puzzle = { ...backRankMate, theme: 'endgame', solution: ['Ra8#'], alternatives: [['Rb8#']] };
+      useGameStore.setState({ availablePuzzles: [puzzle] });
+      await useGameStore.getState().loadPuzzle(puzzle.id);
+
+      expect(useGameStore.getState().makeMove({ from: 'b1', to: 'b8' })).toBe(true);
+      expect(useGameStore.getState().gameStatus).toBe('solved');
+    });
+
+    it('should reject a different mate outside mate themes', async () => {
+      useGameStore.setState({ availablePuzzles: [{ ...backRankMate, theme: 'endgame' }] });
+      await useGameStore.getState().loadPuzzle(backRankMate.id);
+
+      expect(useGameStore.getState().makeMove({ from: 'b1', to: 'b8' })).toBe(false);
+    });
+  });
+
+  describe('Review mode', () => {
+    const second: Puzzle = { ...foolsMate, id: 'test_second' };
+    const third: Puzzle = { ...foolsMate, id: 'test_third' };
+
+    it('should queue a failed puzzle for review', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().solvePuzzle();
+
+      const card = useGameStore.getState().reviewCards[foolsMate.id];
+      expect(card).toBeDefined();
+      expect(card?.lapses).toBe(1);
+    });
+
+    it('should not queue puzzles solved at first sight', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove({ from: 'e7', to: 'e5' });
+      useGameStore.getState().makeMove({ from: 'd8', to: 'h4' });
+
+      expect(useGameStore.getState().reviewCards).toEqual({});
+    });
+
+    it('should queue puzzles solved after a wrong move and grade only the wrong moves', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove({ from: 'a7', to: 'a6' });
+      useGameStore.getState().makeMove({ from: 'e7', to: 'e5' });
+      useGameStore.getState().makeMove({ from: 'd8', to: 'h4' });
+
+      const card = useGameStore.getState().reviewCards[foolsMate.id];
+      expect(card).toMatchObject({ repetitions: 1, lapses: 0 });
+
+      // A flawless solve of a queued puzzle is graded perfect and raises its ease
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove({ from: 'e7', to: 'e5' });
+      useGameStore.getState().makeMove({ from: 'd8', to: 'h4' });
+
+      expect(useGameStore.getState().reviewCards[foolsMate.id]!.ease).toBeGreaterThan(card!.ease);
+    });
+
+    it('should serve due puzzles before new ones', async () => {
+      const overdue = {
+        puzzleId: third.id,
+        interval: 1,
+        ease: 2.5,
+        repetitions: 0,
+        lapses: 1,
+        dueAt: new Date(Date.now() - 1000).toISOString(),
+        lastReviewedAt: new Date(Date.now() - 1000).toISOString()
+      };
+      useGameStore.setState({
+        availablePuzzles: [foolsMate, second, third],
+        reviewCards: { [third.id]: overdue }
+      });
+      useGameStore.getState().setGameMode('review');
+
+      await useGameStore.getState().loadNextPuzzle();
+      expect(useGameStore.getState().currentPuzzle?.id).toBe(third.id);
+
+      useGameStore.getState().setGameMode('standard');
+      await useGameStore.getState().loadNextPuzzle();
+      expect(useGameStore.getState().currentPuzzle?.id).toBe(second.id);
+    });
+  });
+
+  describe('Rating', () => {
+    it('should update the Glicko-2 rating after every attempt', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().solvePuzzle();
+
+      const { rating } = useGameStore.getState().userStats;
+      expect(rating.rating).toBeLessThan(1500);
+      expect(rating.history).toHaveLength(1);
+      expect(rating.history[0]).toMatchObject({ puzzleId: foolsMate.id, success: false });
+    });
+  });
+
+  describe('Puzzle selection', () => {
+    const beginner: Puzzle = { ...foolsMate, id: 'test_beginner', difficulty: 'beginner' };
+    const advanced: Puzzle = { ...foolsMate, id: 'test_advanced', difficulty: 'advanced', rating: 2400 };
+
+    it('should honour a fixed difficulty setting', async () => {
+      useGameStore.setState({ availablePuzzles: [beginner, advanced] });
+      useGameStore.getState().updateSettings({ difficulty: 'advanced' });
+
+      await useGameStore.getState().loadRandomPuzzle();
+
+      expect(useGameStore.getState().currentPuzzle?.id).toBe(advanced.id);
+      useGameStore.getState().updateSettings({ difficulty: 'auto' });
+    });
+
+    it('should not repeat the puzzle just played in auto mode', async () => {
+      useGameStore.setState({ availablePuzzles: [beginner, advanced], recentPuzzleIds: [] });
+
+      await useGameStore.getState().loadPuzzle(beginner.id);
+      await useGameStore.getState().loadRandomPuzzle();
+
+      expect(useGameStore.getState().currentPuzzle?.id).toBe(advanced.id);
+      expect(useGameStore.getState().recentPuzzleIds.slice(-2)).toEqual([beginner.id, advanced.id]);
+    });
+
+    it('should count puzzles, not moves, per theme', async () => {
+      const before = useGameStore.getState().userStats.themeStats[foolsMate.theme];
+
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+      useGameStore.getState().makeMove(move('d8', 'h4', 'Qh4#', 'q'));
+
+      const after = useGameStore.getState().userStats.themeStats[foolsMate.theme]!;
+      expect(after.played - (before?.played || 0)).toBe(1);
+      expect(after.attempts - (before?.attempts || 0)).toBe(2);
+    });
+  });
+
+  describe('Puzzle Rush', () => {
+    const service = { saveRushRun: vi.fn() };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      service.saveRushRun.mockResolvedValue({ personalBest: 0, isPersonalBest: false });
+      useGameStore.setState({ rushPersonalBests: {} });
+    });
+
+    afterEach(() => {
+      useGameStore.getState().startNewGame();
+      vi.useRealTimers();
+    });
+
+    const playFoolsMate = () => {
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+      useGameStore.getState().makeMove(move('d8', 'h4', 'Qh4#', 'q'));
+    };
+
+    it('should score solved puzzles and serve the next one', async () => {
+      await useGameStore.getState().startRush('threeMinute', { service });
+      expect(useGameStore.getState().gameStatus).toBe('rush');
+
+      playFoolsMate();
+      await vi.waitFor(() => expect(useGameStore.getState().rush?.score).toBe(1));
+
+      const state = useGameStore.getState();
+      expect(state.rush?.score).toBe(1);
+      expect(state.rush?.entries[0]).toMatchObject({ puzzleId: foolsMate.id, solved: true });
+      expect(state.gameStatus).toBe('rush');
+      expect(state.moveHistory.map(m => m.san)).toEqual(['f3']);
+    });
+
+    it('should end the run after three strikes and save it', async () => {
+      await useGameStore.getState().startRush('survival', { userId: 'user_1', service });
+
+      for (let i = 0; i < 3; i++) {
+        useGameStore.getState().makeMove(move('a7', 'a6', 'a6'));
+        await vi.waitFor(() => expect(useGameStore.getState().rush?.strikes).toBe(i + 1));
+      }
+
+      const state = useGameStore.getState();
+      expect(state.gameStatus).toBe('rushOver');
+      expect(state.rush?.endReason).toBe('strikes');
+      expect(service.saveRushRun).toHaveBeenCalledWith('user_1', state.rush);
+    });
+
+    it('should end when time runs out but not while paused', async () => {
+      await useGameStore.getState().startRush('threeMinute', { service });
+
+      vi.advanceTimersByTime(60 * 1000);
+      useGameStore.getState().pauseGame();
+      vi.advanceTimersByTime(10 * 60 * 1000);
+
+      expect(useGameStore.getState().gameStatus).toBe('paused');
+      expect(useGameStore.getState().getRushTimeLeft()).toBe(2 * 60 * 1000);
+
+      useGameStore.getState().resumeGame();
+      expect(useGameStore.getState().gameStatus).toBe('rush');
+
+      vi.advanceTimersByTime(2 * 60 * 1000);
+
+      expect(useGameStore.getState().gameStatus).toBe('rushOver');
+      expect(useGameStore.getState().rush?.endReason).toBe('time');
+    });
+
+    it('should keep a personal best per variant', async () => {
+      await useGameStore.getState().startRush('fiveMinute', { service });
+      playFoolsMate();
+      await vi.waitFor(() => expect(useGameStore.getState().rush?.score).toBe(1));
+      await useGameStore.getState().endRush();
+
+      expect(useGameStore.getState().rushPersonalBests).toEqual({ fiveMinute: 1 });
+
+      await useGameStore.getState().startRush('fiveMinute', { service });
+      await useGameStore.getState().endRush();
+
+      expect(useGameStore.getState().rushPersonalBests).toEqual({ fiveMinute: 1 });
+      expect(useGameStore.getState().rush?.score).toBe(0);
+    });
+
+    it('should end and save a run left for a new game', async () => {
+      const ended = vi.fn();
+      chessHawkEvents.on('game_ended', ended);
+      await useGameStore.getState().startRush('threeMinute', { userId: 'user_1', service });
+      playFoolsMate();
+      await vi.waitFor(() => expect(useGameStore.getState().rush?.score).toBe(1));
+
+      useGameStore.getState().startNewGame();
+      chessHawkEvents.off('game_ended', ended);
+
+      expect(ended).toHaveBeenCalledTimes(1);
+      expect(ended.mock.calls[0]![0].data.run).toMatchObject({ variant: 'threeMinute', score: 1, endReason: 'abandoned' });
+      expect(service.saveRushRun).toHaveBeenCalledWith('user_1', ended.mock.calls[0]![0].data.run);
+      expect(useGameStore.getState().rushPersonalBests).toEqual({ threeMinute: 1 });
+      expect(useGameStore.getState().rush).toBeNull();
+    });
+  });
+
+  describe('Move input', () => {
+    it('should select a piece, show its destinations and move on the second click', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+
+      expect(useGameStore.getState().selectSquare('e7')).toBe(false);
+      expect(useGameStore.getState().selectedSquare).toBe('e7');
+      expect(useGameStore.getState().highlightedSquares).toEqual(['e6', 'e5']);
+
+      expect(useGameStore.getState().selectSquare('e5')).toBe(true);
+      const state = useGameStore.getState();
+      expect(state.moveHistory.map(m => m.san)).toEqual(['f3', 'e5', 'g4']);
+      expect(state.selectedSquare).toBeNull();
+      expect(state.highlightedSquares).toEqual([]);
+    });
+
+    it('should play typed SAN and UCI moves with the usual validation', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+
+      expect(useGameStore.getState().submitMoveText('e7e6')).toBe(false);
+      expect(useGameStore.getState().attemptsCount).toBe(1);
+      expect(useGameStore.getState().submitMoveText('Qh5')).toBe(false);
+      expect(useGameStore.getState().errorMessage).toBe('Ugyldig trekk: Qh5');
+
+      expect(useGameStore.getState().submitMoveText('e5')).toBe(true);
+      expect(useGameStore.getState().submitMoveText('Qh4#')).toBe(true);
+      expect(useGameStore.getState().gameStatus).toBe('solved');
+    });
+  });
+
+  describe('Hints', () => {
+    it('should reveal one more tier of the next move per request', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+
+      const tiers = [1, 2, 3, 4, 5].map(() => {
+        useGameStore.getState().showHint();
+        return useGameStore.getState().currentHint;
+      });
+
+      expect(tiers.map(hint => hint?.kind)).toEqual(['theme', 'piece', 'square', 'move', 'move']);
+      expect(tiers[0]?.message).toContain('Matt i to');
+      expect(tiers[2]?.squares).toEqual(['e7', 'e5']);
+      expect(tiers[3]?.message).toBe('Prøv e5');
+      expect(useGameStore.getState().highlightedSquares).toEqual(['e7', 'e5']);
+      expect(useGameStore.getState().hintsUsed).toBe(4);
+    });
+
+    it('should start over for the next move but keep the highest tier reached', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().showHint();
+      useGameStore.getState().showHint();
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+
+      expect(useGameStore.getState().currentHint).toBeNull();
+      expect(useGameStore.getState().highlightedSquares).toEqual([]);
+
+      useGameStore.getState().showHint();
+      expect(useGameStore.getState().currentHint?.tier).toBe(1);
+      expect(useGameStore.getState().hintsUsed).toBe(2);
+    });
+
+    it('should hint the next move of the alternative line being played', async () => {
+      const puzzle: Puzzle = { ...foolsMate, alternatives: [['f2f3', 'd7d6', 'g2g4', 'c8g4']] };
+      useGameStore.setState({ availablePuzzles: [puzzle] });
+      await useGameStore.getState().loadPuzzle(puzzle.id);
+      useGameStore.getState().makeMove(move('d7', 'd6', 'd6'));
+
+      [1, 2, 3, 4].forEach(() => useGameStore.getState().showHint());
+
+      expect(useGameStore.getState().currentHint?.message).toBe('Prøv Bxg4');
+    });
+  });
+
+  describe('Attempt log', () => {
+    const service = { recordAttempt: vi.fn<[string, PuzzleAttempt], Promise<void>>() };
+
+    beforeEach(() => {
+      service.recordAttempt.mockResolvedValue(undefined);
+      useGameStore.getState().setAttemptLog({ userId: 'student', service });
+    });
+
+    afterEach(() => {
+      useGameStore.getState().setAttemptLog({});
+    });
+
+    it('should record every move, hint and the result of an attempt', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove(move('e7', 'e6', 'e6'));
+      useGameStore.getState().showHint();
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+      useGameStore.getState().makeMove(move('d8', 'h4', 'Qh4#', 'q'));
+
+      expect(service.recordAttempt).toHaveBeenCalledTimes(1);
+      const [userId, attempt] = service.recordAttempt.mock.calls[0]!;
+      expect(userId).toBe('student');
+      expect(attempt).toEqual(expect.objectContaining({ puzzleId: foolsMate.id, result: 'solved', wrongMoves: 1, hintsUsed: 1 }));
+      expect(attempt.events.map(event => event.type)).toEqual([
+        'puzzle_loaded', 'move_made', 'hint_requested', 'move_made', 'move_made', 'puzzle_solved'
+      ]);
+      expect(attempt.events.filter(event => event.type === 'move_made').map(event => [event.move, event.correct]))
+        .toEqual([['e6', false], ['e5', true], ['Qh4#', true]]);
+    });
+
+    it('should record a shown solution as a failed attempt', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().solvePuzzle();
+
+      const attempt = service.recordAttempt.mock.calls[0]![1];
+      expect(attempt.result).toBe('failed');
+      expect(attempt.events.map(event => event.type)).toEqual(['puzzle_loaded', 'solution_shown', 'puzzle_failed']);
+    });
+
+    it('should record an unfinished attempt as abandoned when moving on', async () => {
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().startNewGame();
+
+      expect(service.recordAttempt.mock.calls[0]![1].result).toBe('abandoned');
+      expect(useGameStore.getState().attempt).toBeNull();
+    });
+  });
+
+  describe('Events', () => {
+    afterEach(() => {
+      chessHawkEvents.removeAllListeners();
+    });
+
+    it('should emit puzzle events from the store actions', async () => {
+      const types: string[] = [];
+      (['puzzle_loaded', 'move_made', 'hint_requested', 'puzzle_solved'] as const).forEach(type => {
+        chessHawkEvents.on(type, event => types.push(event.type));
+      });
+      const moves = vi.fn();
+      chessHawkEvents.on('move_made', moves);
+
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove(move('e7', 'e6', 'e6'));
+      useGameStore.getState().showHint();
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+      useGameStore.getState().makeMove(move('d8', 'h4', 'Qh4#', 'q'));
+
+      expect(types).toEqual(['puzzle_loaded', 'move_made', 'hint_requested', 'move_made', 'move_made', 'puzzle_solved']);
+      expect(moves.mock.calls.map(([event]) => [event.move.san, event.success])).toEqual([['e6', false], ['e5', true], ['Qh4#', true]]);
+      expect(moves.mock.calls[0]![0].puzzle.id).toBe(foolsMate.id);
+    });
+
+    it('should emit solution_shown and puzzle_failed when giving up', async () => {
+      const failed = vi.fn();
+      const shown = vi.fn();
+      chessHawkEvents.on('puzzle_failed', failed);
+      chessHawkEvents.on('solution_shown', shown);
+
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().solvePuzzle();
+
+      expect(shown).toHaveBeenCalledTimes(1);
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ type: 'puzzle_failed', success: false }));
+    });
+
+    it('should emit game events for start, pause and resume', async () => {
+      const types: string[] = [];
+      (['game_started', 'game_paused', 'game_resumed'] as const).forEach(type => {
+        chessHawkEvents.on(type, event => types.push(event.type));
+      });
+
+      useGameStore.getState().startNewGame();
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().pauseGame();
+      useGameStore.getState().pauseGame();
+      useGameStore.getState().resumeGame();
+
+      expect(types).toEqual(['game_started', 'game_paused', 'game_resumed']);
+    });
+
+    it('should emit game_ended when a puzzle is solved, given up or left', async () => {
+      const ended = vi.fn();
+      chessHawkEvents.on('game_ended', ended);
+
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().makeMove(move('e7', 'e5', 'e5'));
+      useGameStore.getState().makeMove(move('d8', 'h4', 'Qh4#', 'q'));
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().solvePuzzle();
+      await useGameStore.getState().loadPuzzle(foolsMate.id);
+      useGameStore.getState().startNewGame();
+      useGameStore.getState().startNewGame();
+
+      expect(ended.mock.calls.map(([event]) => [event.data.puzzleId, event.data.result])).toEqual([
+        [foolsMate.id, 'solved'],
+        [foolsMate.id, 'failed'],
+        [foolsMate.id, 'abandoned']
+      ]);
+    });
+  });
+
+  describe('Persistence', () => {
+    beforeEach(() => {
+      // The setup file's localStorage mock is reset between tests, so back it with a local store
+      const store: Record<string, string> = {};
+      vi.mocked(localStorage.getItem).mockImplementation((key: string) => store[key] ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+        store[key] = value;
+      });
+    });
+
+    it('should save user stats and settings to storage', async () => {
+      useGameStore.getState().updateSettings({ boardTheme: 'green' });
+
+      await vi.waitFor(async () => {
+        const saved = await persistentStorage.getJSON<any>(STORAGE_KEYS.gameStore);
+        expect(saved.state.settings.boardTheme).toBe('green');
+        expect(saved.state.userStats.puzzlesSolved).toBe(0);
+        expect(saved.state.currentPuzzle).toBeUndefined();
+      });
+    });
+
+    it('should rehydrate saved data on top of the defaults', async () => {
+      await persistentStorage.setJSON(STORAGE_KEYS.gameStore, {
+        state: { settings: { boardTheme: 'blue' }, userStats: { puzzlesSolved: 12 } },
+        version: 1
+      });
+
+      await useGameStore.persist.rehydrate();
+
+      const state = useGameStore.getState();
+      expect(state.settings.boardTheme).toBe('blue');
+      expect(state.settings.language).toBe('no');
+      expect(state.userStats.puzzlesSolved).toBe(12);
+      expect(state.userStats.rating).toBeDefined();
+    });
+
+    it('should count every solved puzzle as played when migrating version 1 theme stats', async () => {
+      await persistentStorage.setJSON(STORAGE_KEYS.gameStore, {
+        state: { userStats: { themeStats: { fork: { solved: 2, attempts: 9, averageTime: 30 } } } },
+        version: 1
+      });
+
+      await useGameStore.persist.rehydrate();
+
+      expect(useGameStore.getState().userStats.themeStats.fork).toEqual({ solved: 2, played: 2, attempts: 9, averageTime: 30 });
+    });
+  });
+});
@@ -4,8 +4,43 @@
  */
 
 import { create } from 'zustand';
-import { subscribeWithSelector } from 'zustand/middleware';
-import type { UserProgress, SolutionResult, PuzzleFilter } from '../services/PuzzleService';
+import { subscribeWithSelector, persist, createJSONStorage } from 'zustand/middleware';
+import { Chess, type Move as ChessJsMove, type Square } from 'chess.js';
+import { puzzleService, type UserProgress, type SolutionResult, type PuzzleFilter, type IPuzzleService } from '../services/PuzzleService';
+import { getSolutionLines, isAcceptedMove, normalizeMoveNotation } from '../utils/solution';
+import { gradeAttempt, scheduleReview, shouldSchedule, getDueCards, type ReviewCard } from '../utils/review';
+import { createUserRating, recordPuzzleResult, type UserRating } from '../utils/rating';
+import { adaptivePuzzleSelector, AdaptivePuzzleSelector, RandomPuzzleSelector } from '../services/PuzzleSelector';
+import { persistentStorage, STORAGE_KEYS } from '../utils/storage';
+import { getHint, nextHintTier, MAX_HINT_TIER, type Hint } from '../utils/hints';
+import { applySquareClick, parseMoveInput } from '../utils/move-input';
+import { chessHawkEvents } from '../core/events';
+import type { ChessMove } from '../types';
+import {
+  createRushRun,
+  finishRushRun,
+  getRushEndReason,
+  isRushActive,
+  pauseRushClock,
+  recordRushEntry,
+  resumeRushClock,
+  rushTargetRating,
+  rushTimeLeft,
+  startRushClock,
+  type RushClock,
+  type RushEndReason,
+  type RushRun,
+  type RushVariant
+} from '../utils/rush';
+import {
+  finishAttempt,
+  recordAttemptHelp,
+  recordAttemptHint,
+  recordAttemptMove,
+  startAttempt,
+  type AttemptResult,
+  type PuzzleAttempt
+} from '../utils/attempts';
 
 export interface Puzzle {
   id: string;
@@ -16,11 +51,22 @@ export interface Puzzle {
   solution: string[];
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   rating: number;
+  ratingDeviation?: number; // Glicko deviation of the puzzle rating, when known
   points: number;
   hint: string;
   tags: string[];
   source: string;
   createdAt: string;
+  /**
+   * Who plays the first ply of `solution`. Lichess lines open with the
+   * opponent's setup move, so the player owns every other ply after it.
+   * Defaults to 'player'.
+   */
+  firstMove?: 'player' | 'opponent';
+  /**
+   * Other complete lines that also solve the puzzle, in the same shape as `solution`
+   */
+  alternatives?: string[][];
 }
 
 export interface Move {
@@ -32,16 +78,23 @@ export interface Move {
   promotion?: string;
 }
 
+/**
+ * Move as supplied by callers - squares are required, chess.js fills in the rest
+ */
+export type MoveInput = Pick<Move, 'from' | 'to'> & Partial<Omit<Move, 'from' | 'to'>>;
+
 export interface UserStatistics {
   puzzlesSolved: number;
   totalAttempts: number;
   averageRating: number;
+  rating: UserRating; // Glicko-2 puzzle rating
   totalTimeSpent: number; // in seconds
   streakCurrent: number;
   streakBest: number;
   themeStats: Record<string, {
     solved: number;
-    attempts: number;
+    played: number; // puzzles attempted
+    attempts: number; // moves played
     averageTime: number;
   }>;
   difficultyStats: Record<string, {
@@ -53,8 +106,9 @@ export interface UserStatistics {
 
 export interface UserSettings {
   boardOrientation: 'white' | 'black';
-  pieceTheme: 'classic' | 'neo' | 'alpha';
-  boardTheme: 'brown' | 'blue' | 'green' | 'purple';
+  // Built-in names (only 'classic' ships for pieces); sets registered with chessHawkThemes are valid as well
+  pieceTheme: 'classic' | (string & {});
+  boardTheme: 'brown' | 'blue' | 'green' | 'purple' | (string & {});
   soundEnabled: boolean;
   animationSpeed: 'slow' | 'normal' | 'fast' | 'instant';
   showCoordinates: boolean;
@@ -65,7 +119,25 @@ export interface UserSettings {
   preferredThemes: string[];
 }
 
-export type GameStatus = 'menu' | 'loading' | 'playing' | 'solved' | 'failed' | 'paused';
+/**
+ * 'rush' while a Puzzle Rush run is being played, 'rushOver' once it has ended
+ */
+export type GameStatus = 'menu' | 'loading' | 'playing' | 'solved' | 'failed' | 'paused' | 'rush' | 'rushOver';
+
+/**
+ * 'review' serves puzzles due for spaced repetition before new ones
+ */
+export type GameMode = 'standard' | 'review';
+
+export interface RushOptions {
+  userId?: string;
+  service?: Pick<IPuzzleService, 'saveRushRun'>; // finished runs are saved here, defaults to the shared service
+}
+
+export interface AttemptLogOptions {
+  userId?: string;
+  service?: Pick<IPuzzleService, 'recordAttempt'>; // finished attempts are recorded here, defaults to the shared service
+}
 
 export interface GameState {
   // Current game state
@@ -76,12 +148,23 @@ export interface GameState {
   timeStarted: number | null;
   timeSpent: number;
   attemptsCount: number;
-  hintsUsed: number;
+  hintsUsed: number; // highest hint tier reached on this puzzle
+  currentHint: Hint | null; // hint for the player's current move, cleared when they play it
+  attempt: PuzzleAttempt | null; // move-by-move log of the current puzzle
   
   // User data
   userStats: UserStatistics;
   settings: UserSettings;
   
+  // Spaced repetition
+  gameMode: GameMode;
+  reviewCards: Record<string, ReviewCard>;
+  
+  // Puzzle Rush
+  rush: RushRun | null; // current run, or the last finished one
+  rushClock: RushClock | null;
+  rushPersonalBests: Partial<Record<RushVariant, number>>;
+  
   // UI state
   selectedSquare: string | null;
   highlightedSquares: string[];
@@ -93,6 +176,7 @@ export interface GameState {
   availablePuzzles: Puzzle[];
   filteredPuzzles: Puzzle[];
   currentPuzzleIndex: number;
+  recentPuzzleIds: string[]; // most recent last, skipped by adaptive selection
 }
 
 export interface GameActions {
@@ -102,7 +186,7 @@ export interface GameActions {
   loadRandomPuzzle: (theme?: string, difficulty?: string) => Promise<void>;
   
   // Game actions
-  makeMove: (move: Move) => void;
+  makeMove: (move: MoveInput) => boolean;
   undoMove: () => void;
   resetPuzzle: () => void;
   showHint: () => void;
@@ -112,6 +196,16 @@ export interface GameActions {
   pauseGame: () => void;
   resumeGame: () => void;
   startNewGame: () => void;
+  setGameMode: (mode: GameMode) => void;
+  
+  // Puzzle Rush
+  startRush: (variant: RushVariant, options?: RushOptions) => Promise<void>;
+  endRush: (reason?: RushEndReason) => Promise<void>;
+  checkRushClock: () => void;
+  getRushTimeLeft: () => number | null;
+  
+  // Attempt history
+  setAttemptLog: (options: AttemptLogOptions) => void;
   
   // Settings
   updateSettings: (settings: Partial<UserSettings>) => void;
@@ -120,6 +214,10 @@ export interface GameActions {
   updateStats: (puzzleId: string, solved: boolean, timeSpent: number, attempts: number) => void;
   resetStats: () => void;
   
+  // Click-to-move and typed moves, validated like dragged moves
+  selectSquare: (square: string) => boolean;
+  submitMoveText: (text: string) => boolean;
+  
   // UI actions
   setSelectedSquare: (square: string | null) => void;
   setHighlightedSquares: (squares: string[]) => void;
@@ -148,6 +246,7 @@ const defaultStats: UserStatistics = {
   puzzlesSolved: 0,
   totalAttempts: 0,
   averageRating: 0,
+  rating: createUserRating(),
   totalTimeSpent: 0,
   streakCurrent: 0,
   streakBest: 0,
@@ -155,8 +254,157 @@ const defaultStats: UserStatistics = {
   difficultyStats: {}
 };
 
+/**
+ * Whether the ply at `index` of the puzzle's solution line is the player's move
+ */
+export function isPlayerPly(puzzle: Puzzle, index: number): boolean {
+  const offset = puzzle.firstMove === 'opponent' ? 1 : 0;
+  return index >= offset && (index - offset) % 2 === 0;
+}
+
+// chess.js instance mirroring `position` for the current puzzle
+const chess = new Chess();
+
+// User data kept across reloads. Bump the version and add a `migrate` option when its shape changes.
+type PersistedGameState = Pick<GameState, 'userStats' | 'settings' | 'reviewCards' | 'rushPersonalBests' | 'recentPuzzleIds'>;
+const GAME_STORE_VERSION = 2;
+
+const randomSelector = new RandomPuzzleSelector();
+const RECENT_PUZZLE_LIMIT = 20;
+
+// Rush puzzles are picked at the ramped target rating rather than below the user's
+const rushSelector = new AdaptivePuzzleSelector({ targetSuccessRate: 0.5 });
+let rushTimer: ReturnType<typeof setTimeout> | null = null;
+let rushOptions: RushOptions = {};
+let attemptLogOptions: AttemptLogOptions = {};
+
+function clearRushTimer(): void {
+  if (rushTimer) {
+    clearTimeout(rushTimer);
+    rushTimer = null;
+  }
+}
+
+/**
+ * Load a position into the embedded chess.js instance unless it is already there
+ */
+function syncChess(fen: string): void {
+  if (chess.fen() !== fen) {
+    chess.load(fen);
+  }
+}
+
+function toMove(result: ChessJsMove): Move {
+  return {
+    from: result.from,
+    to: result.to,
+    piece: result.piece,
+    san: result.san,
+    lan: result.lan,
+    promotion: result.promotion
+  };
+}
+
+/**
+ * Move in the shape used by the public events
+ */
+function toChessMove(move: Move, fen: string): ChessMove {
+  return {
+    from: move.from,
+    to: move.to,
+    promotion: move.promotion as ChessMove['promotion'],
+    san: move.san,
+    fen
+  };
+}
+
+/**
+ * Find the legal move matching the given squares in the current position.
+ * Promotions without an explicit piece default to a queen.
+ */
+function findLegalMove(input: MoveInput): ChessJsMove | null {
+  const candidates = chess
+    .moves({ square: input.from as Square, verbose: true })
+    .filter(m => m.to === input.to && (!input.promotion || m.promotion === input.promotion));
+  
+  if (candidates.length > 1) {
+    return candidates.find(m => m.promotion === 'q') || null;
+  }
+  return candidates[0] || null;
+}
+
+/**
+ * Find the solution line (main or alternative) that the played history follows
+ * and whose next ply accepts `move`. The position must be the one before `move`.
+ */
+function findAcceptingLine(puzzle: Puzzle, history: Move[], move: Move): string[] | null {
+  const fen = chess.fen();
+  
+  const line = getSolutionLines(puzzle).find(candidate => {
+    const expected = candidate[history.length];
+    return expected !== undefined &&
+      history.every((played, index) => isSameMove(candidate[index], played)) &&
+      isAcceptedMove(puzzle, fen, expected, move.lan);
+  });
+  
+  return line || null;
+}
+
+/**
+ * The first solution line (main, then alternatives) that the played history follows
+ * and that still has a ply to play
+ */
+function findFollowedLine(puzzle: Puzzle, history: Move[]): string[] | null {
+  const line = getSolutionLines(puzzle).find(candidate =>
+    candidate.length > history.length &&
+    history.every((played, index) => isSameMove(candidate[index], played))
+  );
+  
+  return line || null;
+}
+
+function isSameMove(expected: string | undefined, played: Move): boolean {
+  if (!expected) return false;
+  const normalized = normalizeMoveNotation(expected);
+  return normalized === played.lan || normalized === normalizeMoveNotation(played.san);
+}
+
+/**
+ * Play the opponent's plies of the solution line, starting at `history.length`,
+ * until it is the player's turn again or the line ends.
+ */
+function playOpponentReplies(puzzle: Puzzle, history: Move[], line: string[] = puzzle.solution): Move[] {
+  const moveHistory = [...history];
+  
+  while (moveHistory.length < line.length && !isPlayerPly(puzzle, moveHistory.length)) {
+    const reply = line[moveHistory.length];
+    try {
+      moveHistory.push(toMove(chess.move(reply || '')));
+    } catch {
+      console.warn(`Could not play opponent reply ${reply} in puzzle ${puzzle.id}`);
+      break;
+    }
+  }
+  
+  return moveHistory;
+}
+
+/**
+ * Set up the puzzle position and play any opening opponent moves
+ */
+function startLine(puzzle: Puzzle): { position: string; moveHistory: Move[] } {
+  try {
+    chess.load(puzzle.fen);
+  } catch (error) {
+    throw new Error(`Invalid FEN in puzzle ${puzzle.id}: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  const moveHistory = playOpponentReplies(puzzle, []);
+  return { position: chess.fen(), moveHistory };
+}
+
 export const useGameStore = create<GameState & GameActions>()(
-  subscribeWithSelector((set, get) => ({
+  subscribeWithSelector(persist((set, get) => ({
     // Initial state
     currentPuzzle: null,
     gameStatus: 'menu',
@@ -166,10 +414,19 @@ export const useGameStore = create<GameState & GameActions>()(
     timeSpent: 0,
     attemptsCount: 0,
     hintsUsed: 0,
+    currentHint: null,
+    attempt: null,
     
     userStats: defaultStats,
     settings: defaultSettings,
     
+    gameMode: 'standard',
+    reviewCards: {},
+    
+    rush: null,
+    rushClock: null,
+    rushPersonalBests: {},
+    
     selectedSquare: null,
     highlightedSquares: [],
     lastMove: null,
@@ -179,6 +436,7 @@ export const useGameStore = create<GameState & GameActions>()(
     availablePuzzles: [],
     filteredPuzzles: [],
     currentPuzzleIndex: 0,
+    recentPuzzleIds: [],
     
     // Actions
     loadPuzzle: async (puzzleId?: string) => {
@@ -197,20 +455,32 @@ export const useGameStore = create<GameState & GameActions>()(
         }
         
         if (puzzle) {
+          const { position, moveHistory } = startLine(puzzle);
+          const loadedId = puzzle.id;
+          const recentPuzzleIds = [...get().recentPuzzleIds.filter(id => id !== loadedId), loadedId]
+            .slice(-RECENT_PUZZLE_LIMIT);
+          
+          closeAttempt('abandoned');
           set({
             currentPuzzle: puzzle,
-            position: puzzle.fen,
-            gameStatus: 'playing',
-            moveHistory: [],
+            position,
+            gameStatus: isRushActive(get().rush) ? 'rush' : 'playing',
+            moveHistory,
+            lastMove: moveHistory[moveHistory.length - 1] || null,
             timeStarted: Date.now(),
             timeSpent: 0,
             attemptsCount: 0,
             hintsUsed: 0,
+            currentHint: null,
+            attempt: startAttempt(attemptLogOptions.userId || 'default', puzzle),
             showSolution: false,
             errorMessage: null,
             selectedSquare: null,
-            highlightedSquares: []
+            highlightedSquares: [],
+            recentPuzzleIds
           });
+          
+          chessHawkEvents.emit('puzzle_loaded', { puzzle });
         } else {
           set({ 
             gameStatus: 'menu',
@@ -226,7 +496,19 @@ export const useGameStore = create<GameState & GameActions>()(
     },
     
     loadNextPuzzle: async () => {
-      const { availablePuzzles, currentPuzzleIndex } = get();
+      const { availablePuzzles, currentPuzzleIndex, gameMode, reviewCards, currentPuzzle } = get();
+      
+      // Review mode serves due puzzles before moving on to new ones
+      if (gameMode === 'review') {
+        const due = getDueCards(reviewCards).find(card =>
+          card.puzzleId !== currentPuzzle?.id && availablePuzzles.some(p => p.id === card.puzzleId)
+        );
+        if (due) {
+          await get().loadPuzzle(due.puzzleId);
+          return;
+        }
+      }
+      
       const nextIndex = (currentPuzzleIndex + 1) % availablePuzzles.length;
       
       set({ currentPuzzleIndex: nextIndex });
@@ -234,7 +516,7 @@ export const useGameStore = create<GameState & GameActions>()(
     },
     
     loadRandomPuzzle: async (theme?: string, difficulty?: string) => {
-      const { availablePuzzles } = get();
+      const { availablePuzzles, settings, userStats, recentPuzzleIds } = get();
       
       let candidates = availablePuzzles;
       
@@ -242,40 +524,79 @@ export const useGameStore = create<GameState & GameActions>()(
         candidates = candidates.filter(p => p.theme === theme);
       }
       
-      if (difficulty) {
-        candidates = candidates.filter(p => p.difficulty === difficulty);
+      // An explicit difficulty wins over the user's setting
+      const level = difficulty || (settings.difficulty !== 'auto' ? settings.difficulty : undefined);
+      if (level) {
+        candidates = candidates.filter(p => p.difficulty === level);
       }
       
-      if (candidates.length > 0) {
-        const randomIndex = Math.floor(Math.random() * candidates.length);
-        const randomPuzzle = candidates[randomIndex];
-        if (randomPuzzle) {
-          await get().loadPuzzle(randomPuzzle.id);
-        }
+      const randomPuzzle = level
+        ? randomSelector.select(candidates)
+        : adaptivePuzzleSelector.select(candidates, {
+            userRating: userStats.rating.rating,
+            themeStats: Object.fromEntries(
+              Object.entries(userStats.themeStats).map(([name, stats]) => [name, { solved: stats.solved, total: stats.played }])
+            ),
+            recentPuzzleIds,
+            preferredThemes: theme ? [] : settings.preferredThemes
+          });
+      
+      if (randomPuzzle) {
+        await get().loadPuzzle(randomPuzzle.id);
       }
     },
     
-    makeMove: (move: Move) => {
-      const { currentPuzzle, gameStatus, moveHistory, timeStarted } = get();
+    makeMove: (input: MoveInput) => {
+      const { currentPuzzle, gameStatus, moveHistory, timeStarted, position } = get();
+      
+      if ((gameStatus !== 'playing' && gameStatus !== 'rush') || !currentPuzzle) return false;
+      const inRush = gameStatus === 'rush';
       
-      if (gameStatus !== 'playing' || !currentPuzzle) return;
+      syncChess(position);
+      const legal = findLegalMove(input);
       
-      const newHistory = [...moveHistory, move];
-      const solutionMove = currentPuzzle.solution[moveHistory.length];
+      if (!legal) {
+        // Illegal moves are not counted as attempts
+        set({ errorMessage: 'Ulovlig trekk' });
+        
+        setTimeout(() => {
+          set({ errorMessage: null });
+        }, 2000);
+        return false;
+      }
       
-      // Check if the move matches the solution
-      if (move.san === solutionMove || move.lan === solutionMove) {
-        // Correct move
+      const move = toMove(legal);
+      const line = findAcceptingLine(currentPuzzle, moveHistory, move);
+      
+      // Check if the move matches the solution (or an equivalent winning move)
+      logAttempt(attempt => recordAttemptMove(attempt, move.san, !!line));
+      chessHawkEvents.emit('move_made', { puzzle: currentPuzzle, move: toChessMove(move, legal.after), success: !!line });
+      
+      if (line) {
+        // Correct move - advance the position and let the opponent reply
+        chess.move(legal);
+        const mated = chess.isCheckmate();
+        const newHistory = mated ? [...moveHistory, move] : playOpponentReplies(currentPuzzle, [...moveHistory, move], line);
+        
         set({
+          position: chess.fen(),
           moveHistory: newHistory,
-          lastMove: move,
-          attemptsCount: get().attemptsCount + 1
+          lastMove: newHistory[newHistory.length - 1] || null,
+          attemptsCount: get().attemptsCount + 1,
+          currentHint: null,
+          selectedSquare: null,
+          highlightedSquares: []
         });
         
-        // Check if puzzle is solved
-        if (newHistory.length >= currentPuzzle.solution.length) {
+        // Check if puzzle is solved - an accepted mate ends the puzzle early
+        if (newHistory.length >= line.length || mated) {
           const timeSpent = timeStarted ? Math.floor((Date.now() - timeStarted) / 1000) : 0;
           
+          if (inRush) {
+            void advanceRush(true, timeSpent);
+            return true;
+          }
+          
           set({ 
             gameStatus: 'solved',
             timeSpent
@@ -283,60 +604,98 @@ export const useGameStore = create<GameState & GameActions>()(
           
           // Update statistics
           get().updateStats(currentPuzzle.id, true, timeSpent, get().attemptsCount);
+          closeAttempt('solved');
+          chessHawkEvents.emit('puzzle_solved', { puzzle: currentPuzzle, success: true, timeSpent, attempts: get().attemptsCount });
+          emitGameEnded(currentPuzzle, 'solved');
         }
-      } else {
-        // Incorrect move
-        set({
-          attemptsCount: get().attemptsCount + 1,
-          errorMessage: 'Ikke riktig trekk. Prøv igjen!'
-        });
-        
-        // Clear error after 2 seconds
-        setTimeout(() => {
-          set({ errorMessage: null });
-        }, 2000);
+        return true;
+      }
+      
+      // A wrong move in a rush fails the puzzle and costs a strike
+      if (inRush) {
+        const timeSpent = timeStarted ? Math.floor((Date.now() - timeStarted) / 1000) : 0;
+        void advanceRush(false, timeSpent);
+        return false;
       }
+      
+      // Incorrect move
+      set({
+        attemptsCount: get().attemptsCount + 1,
+        selectedSquare: null,
+        errorMessage: 'Ikke riktig trekk. Prøv igjen!'
+      });
+      
+      // Clear error after 2 seconds
+      setTimeout(() => {
+        set({ errorMessage: null });
+      }, 2000);
+      return false;
     },
     
     undoMove: () => {
-      const { moveHistory } = get();
-      if (moveHistory.length > 0) {
-        const newHistory = moveHistory.slice(0, -1);
-        set({
-          moveHistory: newHistory,
-          lastMove: newHistory.length > 0 ? newHistory[newHistory.length - 1] : null
-        });
+      const { currentPuzzle, moveHistory } = get();
+      if (!currentPuzzle) return;
+      
+      // Step back to the player's previous turn, taking back the opponent's replies too
+      let newLength = moveHistory.length - 1;
+      while (newLength > 0 && !isPlayerPly(currentPuzzle, newLength)) {
+        newLength--;
       }
+      if (newLength < 0 || !isPlayerPly(currentPuzzle, newLength)) return;
+      
+      const newHistory = moveHistory.slice(0, newLength);
+      chess.load(currentPuzzle.fen);
+      newHistory.forEach(move => chess.move(move.lan));
+      
+      set({
+        position: chess.fen(),
+        moveHistory: newHistory,
+        lastMove: newHistory.length > 0 ? newHistory[newHistory.length - 1] : null,
+        currentHint: null,
+        highlightedSquares: []
+      });
     },
     
     resetPuzzle: () => {
       const { currentPuzzle } = get();
       if (currentPuzzle) {
+        const { position, moveHistory } = startLine(currentPuzzle);
+        
+        closeAttempt('abandoned');
         set({
-          position: currentPuzzle.fen,
-          moveHistory: [],
+          position,
+          moveHistory,
           gameStatus: 'playing',
           timeStarted: Date.now(),
           timeSpent: 0,
           attemptsCount: 0,
           hintsUsed: 0,
+          currentHint: null,
+          attempt: startAttempt(attemptLogOptions.userId || 'default', currentPuzzle),
           showSolution: false,
           errorMessage: null,
           selectedSquare: null,
           highlightedSquares: [],
-          lastMove: null
+          lastMove: moveHistory[moveHistory.length - 1] || null
         });
       }
     },
     
     showHint: () => {
-      const { currentPuzzle, moveHistory, hintsUsed } = get();
-      if (currentPuzzle && moveHistory.length < currentPuzzle.solution.length) {
-        const nextMove = currentPuzzle.solution[moveHistory.length];
+      const { currentPuzzle, moveHistory, hintsUsed, currentHint, position } = get();
+      const line = currentPuzzle && findFollowedLine(currentPuzzle, moveHistory);
+      if (currentPuzzle && line) {
+        // Each request reveals one tier more of the next move on the line being played, up to the move itself
+        const tier = nextHintTier(currentHint?.tier || 0) || MAX_HINT_TIER;
+        const hint = getHint(currentPuzzle, position, line[moveHistory.length] || '', tier);
         
+        logAttempt(attempt => recordAttemptHint(attempt, tier));
+        chessHawkEvents.emit('hint_requested', { puzzle: currentPuzzle });
         set({
-          hintsUsed: hintsUsed + 1,
-          errorMessage: `Hint: Prøv ${nextMove}`
+          hintsUsed: Math.max(hintsUsed, tier),
+          currentHint: hint,
+          highlightedSquares: hint.squares,
+          errorMessage: `Hint: ${hint.message}`
         });
         
         // Clear hint after 3 seconds
@@ -347,9 +706,17 @@ export const useGameStore = create<GameState & GameActions>()(
     },
     
     solvePuzzle: () => {
-      const { currentPuzzle, timeStarted } = get();
+      const { currentPuzzle, timeStarted, gameStatus } = get();
       if (currentPuzzle) {
         const timeSpent = timeStarted ? Math.floor((Date.now() - timeStarted) / 1000) : 0;
+        logAttempt(attempt => recordAttemptHelp(attempt, 'solution_shown'));
+        chessHawkEvents.emit('solution_shown', { puzzle: currentPuzzle });
+        
+        // Giving up in a rush counts as a strike
+        if (gameStatus === 'rush') {
+          void advanceRush(false, timeSpent);
+          return;
+        }
         
         set({
           gameStatus: 'solved',
@@ -359,25 +726,54 @@ export const useGameStore = create<GameState & GameActions>()(
         
         // Update statistics (marked as failed since user gave up)
         get().updateStats(currentPuzzle.id, false, timeSpent, get().attemptsCount);
+        closeAttempt('failed');
+        chessHawkEvents.emit('puzzle_failed', { puzzle: currentPuzzle, success: false, timeSpent, attempts: get().attemptsCount });
+        emitGameEnded(currentPuzzle, 'failed');
       }
     },
     
     pauseGame: () => {
-      const { gameStatus } = get();
+      const { gameStatus, rushClock, currentPuzzle } = get();
       if (gameStatus === 'playing') {
         set({ gameStatus: 'paused' });
+      } else if (gameStatus === 'rush' && rushClock) {
+        // Stop the rush clock until the game is resumed
+        clearRushTimer();
+        set({ gameStatus: 'paused', rushClock: pauseRushClock(rushClock) });
+      } else {
+        return;
       }
+      
+      chessHawkEvents.emit('game_paused', { timestamp: Date.now(), data: { puzzleId: currentPuzzle?.id } });
     },
     
     resumeGame: () => {
-      const { gameStatus } = get();
-      if (gameStatus === 'paused') {
+      const { gameStatus, rush, rushClock, currentPuzzle } = get();
+      if (gameStatus === 'paused' && isRushActive(rush) && rushClock) {
+        set({ gameStatus: 'rush', rushClock: resumeRushClock(rushClock) });
+        scheduleRushTimeout();
+      } else if (gameStatus === 'paused') {
         set({ gameStatus: 'playing' });
+      } else {
+        return;
       }
+      
+      chessHawkEvents.emit('game_resumed', { timestamp: Date.now(), data: { puzzleId: currentPuzzle?.id } });
     },
     
     startNewGame: () => {
+      const { currentPuzzle, attempt, rush } = get();
+      if (isRushActive(rush)) {
+        // Ends synchronously; only saving the run continues in the background
+        void get().endRush('abandoned');
+      } else if (currentPuzzle && attempt && !attempt.result) {
+        emitGameEnded(currentPuzzle, 'abandoned');
+      }
+      clearRushTimer();
+      closeAttempt('abandoned');
       set({
+        rush: null,
+        rushClock: null,
         currentPuzzle: null,
         gameStatus: 'menu',
         position: '',
@@ -386,12 +782,86 @@ export const useGameStore = create<GameState & GameActions>()(
         timeSpent: 0,
         attemptsCount: 0,
         hintsUsed: 0,
+        currentHint: null,
+        attempt: null,
         showSolution: false,
         errorMessage: null,
         selectedSquare: null,
         highlightedSquares: [],
         lastMove: null
       });
+      
+      chessHawkEvents.emit('game_started', { timestamp: Date.now(), data: { mode: get().gameMode } });
+    },
+    
+    setGameMode: (mode: GameMode) => {
+      set({ gameMode: mode });
+    },
+    
+    startRush: async (variant: RushVariant, options: RushOptions = {}) => {
+      clearRushTimer();
+      rushOptions = options;
+      
+      set({
+        rush: createRushRun(variant),
+        rushClock: startRushClock()
+      });
+      
+      chessHawkEvents.emit('game_started', { timestamp: Date.now(), data: { mode: 'rush', variant } });
+      scheduleRushTimeout();
+      await loadRushPuzzle();
+    },
+    
+    endRush: async (reason: RushEndReason = 'abandoned') => {
+      const { rush, rushClock, rushPersonalBests } = get();
+      if (!isRushActive(rush)) return;
+      
+      clearRushTimer();
+      closeAttempt('abandoned');
+      const run = finishRushRun(rush, reason);
+      const personalBest = Math.max(rushPersonalBests[run.variant] || 0, run.score);
+      
+      set({
+        rush: run,
+        rushClock: rushClock ? pauseRushClock(rushClock) : null,
+        gameStatus: 'rushOver',
+        rushPersonalBests: { ...rushPersonalBests, [run.variant]: personalBest }
+      });
+      
+      chessHawkEvents.emit('game_ended', { timestamp: Date.now(), data: { mode: 'rush', run } });
+      
+      const { userId = 'default', service = puzzleService } = rushOptions;
+      
+      try {
+        const result = await service.saveRushRun(userId, run);
+        set(state => ({
+          rushPersonalBests: {
+            ...state.rushPersonalBests,
+            [run.variant]: Math.max(state.rushPersonalBests[run.variant] || 0, result.personalBest)
+          }
+        }));
+      } catch (error) {
+        console.warn('Failed to save rush run:', error);
+      }
+    },
+    
+    checkRushClock: () => {
+      const { rush, rushClock } = get();
+      if (!isRushActive(rush) || !rushClock) return;
+      
+      const reason = getRushEndReason(rush, rushClock);
+      if (reason) {
+        void get().endRush(reason);
+      }
+    },
+    
+    setAttemptLog: (options: AttemptLogOptions) => {
+      attemptLogOptions = options;
+    },
+    
+    getRushTimeLeft: () => {
+      const { rush, rushClock } = get();
+      return rush && rushClock ? rushTimeLeft(rush, rushClock) : null;
     },
     
     updateSettings: (newSettings: Partial<UserSettings>) => {
@@ -400,18 +870,32 @@ export const useGameStore = create<GameState & GameActions>()(
       }));
     },
     
-    updateStats: (_puzzleId: string, solved: boolean, timeSpent: number, attempts: number) => {
-      const { currentPuzzle, userStats: _userStats } = get();
+    updateStats: (puzzleId: string, solved: boolean, timeSpent: number, attempts: number) => {
+      const { currentPuzzle, hintsUsed, reviewCards, attempt } = get();
       if (!currentPuzzle) return;
       
       const theme = currentPuzzle.theme;
       const difficulty = currentPuzzle.difficulty;
       
+      // Graded on wrong moves, not on every move played (`attempts`)
+      const wrongMoves = attempt?.wrongMoves ?? 0;
+      
+      // Failed or shaky solves enter the review queue; queued puzzles are rescheduled
+      if (shouldSchedule(reviewCards[puzzleId], solved, wrongMoves, hintsUsed)) {
+        set({
+          reviewCards: {
+            ...reviewCards,
+            [puzzleId]: scheduleReview(reviewCards[puzzleId], puzzleId, gradeAttempt(solved, wrongMoves, hintsUsed))
+          }
+        });
+      }
+      
       set(state => ({
         userStats: {
           ...state.userStats,
           puzzlesSolved: solved ? state.userStats.puzzlesSolved + 1 : state.userStats.puzzlesSolved,
           totalAttempts: state.userStats.totalAttempts + attempts,
+          rating: recordPuzzleResult(state.userStats.rating, currentPuzzle, solved),
           totalTimeSpent: state.userStats.totalTimeSpent + timeSpent,
           streakCurrent: solved ? state.userStats.streakCurrent + 1 : 0,
           streakBest: solved && (state.userStats.streakCurrent + 1) > state.userStats.streakBest 
@@ -421,6 +905,7 @@ export const useGameStore = create<GameState & GameActions>()(
             ...state.userStats.themeStats,
             [theme]: {
               solved: (state.userStats.themeStats[theme]?.solved || 0) + (solved ? 1 : 0),
+              played: (state.userStats.themeStats[theme]?.played || 0) + 1,
               attempts: (state.userStats.themeStats[theme]?.attempts || 0) + attempts,
               averageTime: state.userStats.themeStats[theme] 
                 ? (state.userStats.themeStats[theme].averageTime + timeSpent) / 2
@@ -443,7 +928,39 @@ export const useGameStore = create<GameState & GameActions>()(
     },
     
     resetStats: () => {
-      set({ userStats: defaultStats });
+      set({ userStats: defaultStats, reviewCards: {} });
+    },
+    
+    selectSquare: (square: string) => {
+      const { gameStatus, position, selectedSquare } = get();
+      if (gameStatus !== 'playing' && gameStatus !== 'rush') return false;
+      
+      const selection = applySquareClick(position, selectedSquare, square);
+      if (selection.move) {
+        set({ selectedSquare: null, highlightedSquares: [] });
+        return get().makeMove(selection.move);
+      }
+      
+      set({ selectedSquare: selection.selected, highlightedSquares: selection.destinations });
+      return false;
+    },
+    
+    submitMoveText: (text: string) => {
+      const { gameStatus, position } = get();
+      if (gameStatus !== 'playing' && gameStatus !== 'rush') return false;
+      
+      const move = parseMoveInput(position, text);
+      if (!move) {
+        set({ errorMessage: `Ugyldig trekk: ${text.trim()}` });
+        
+        setTimeout(() => {
+          set({ errorMessage: null });
+        }, 2000);
+        return false;
+      }
+      
+      set({ selectedSquare: null, highlightedSquares: [] });
+      return get().makeMove(move);
     },
     
     setSelectedSquare: (square: string | null) => {
@@ -491,9 +1008,138 @@ export const useGameStore = create<GameState & GameActions>()(
       
       set({ filteredPuzzles: filtered });
     }
+  }), {
+    name: STORAGE_KEYS.gameStore,
+    version: GAME_STORE_VERSION,
+    storage: createJSONStorage(() => persistentStorage),
+    partialize: (state): PersistedGameState => ({
+      userStats: state.userStats,
+      settings: state.settings,
+      reviewCards: state.reviewCards,
+      rushPersonalBests: state.rushPersonalBests,
+      recentPuzzleIds: state.recentPuzzleIds
+    }),
+    migrate: (persisted, version) => {
+      const state = (persisted || {}) as Partial<PersistedGameState>;
+      if (version < 2 && state.userStats?.themeStats) {
+        // Puzzles played per theme weren't counted; every solved one was played
+        state.userStats.themeStats = Object.fromEntries(
+          Object.entries(state.userStats.themeStats).map(([name, stats]) => [name, { ...stats, played: stats.played ?? stats.solved }])
+        );
+      }
+      return state as PersistedGameState;
+    },
+    merge: (persisted, current) => {
+      const saved = (persisted || {}) as Partial<PersistedGameState>;
+      // Nested merge so fields added since the snapshot keep their defaults
+      return {
+        ...current,
+        ...saved,
+        userStats: { ...current.userStats, ...saved.userStats },
+        settings: { ...current.settings, ...saved.settings }
+      };
+    }
   }))
 );
 
+/**
+ * Add to the current attempt while it is still open
+ */
+function logAttempt(update: (attempt: PuzzleAttempt) => PuzzleAttempt): void {
+  const { attempt } = useGameStore.getState();
+  if (attempt && !attempt.result) {
+    useGameStore.setState({ attempt: update(attempt) });
+  }
+}
+
+/**
+ * Finish the current attempt and record it in the attempt history
+ */
+function closeAttempt(result: AttemptResult): void {
+  const { attempt } = useGameStore.getState();
+  if (!attempt || attempt.result) return;
+  
+  const finished = finishAttempt(attempt, result);
+  useGameStore.setState({ attempt: finished });
+  
+  const { userId = 'default', service = puzzleService } = attemptLogOptions;
+  service.recordAttempt(userId, finished).catch(error => {
+    console.warn('Failed to record attempt:', error);
+  });
+}
+
+/**
+ * Announce the end of a puzzle played outside a rush; `endRush` announces rushes
+ */
+function emitGameEnded(puzzle: Puzzle, result: AttemptResult): void {
+  chessHawkEvents.emit('game_ended', {
+    timestamp: Date.now(),
+    data: { mode: useGameStore.getState().gameMode, puzzleId: puzzle.id, result }
+  });
+}
+
+/**
+ * Log the finished rush puzzle, then end the run or move on to a harder puzzle
+ */
+async function advanceRush(solved: boolean, timeSpent: number): Promise<void> {
+  const { rush, rushClock, currentPuzzle } = useGameStore.getState();
+  if (!isRushActive(rush) || !rushClock || !currentPuzzle) return;
+  
+  closeAttempt(solved ? 'solved' : 'failed');
+  chessHawkEvents.emit(solved ? 'puzzle_solved' : 'puzzle_failed', {
+    puzzle: currentPuzzle,
+    success: solved,
+    timeSpent,
+    attempts: useGameStore.getState().attemptsCount
+  });
+  
+  const run = recordRushEntry(rush, {
+    puzzleId: currentPuzzle.id,
+    rating: currentPuzzle.rating,
+    solved,
+    timeSpent
+  });
+  useGameStore.setState({ rush: run });
+  
+  const reason = getRushEndReason(run, rushClock);
+  if (reason) {
+    await useGameStore.getState().endRush(reason);
+  } else {
+    await loadRushPuzzle();
+  }
+}
+
+async function loadRushPuzzle(): Promise<void> {
+  const { rush, availablePuzzles, loadPuzzle } = useGameStore.getState();
+  if (!isRushActive(rush)) return;
+  
+  const puzzle = rushSelector.select(availablePuzzles, {
+    userRating: rushTargetRating(rush.score),
+    recentPuzzleIds: rush.entries.map(entry => entry.puzzleId)
+  });
+  
+  if (puzzle) {
+    await loadPuzzle(puzzle.id);
+  } else {
+    await useGameStore.getState().endRush('abandoned');
+  }
+}
+
+/**
+ * End the run when the clock runs out; re-armed on resume
+ */
+function scheduleRushTimeout(): void {
+  clearRushTimer();
+  
+  const timeLeft = useGameStore.getState().getRushTimeLeft();
+  if (timeLeft === null) return;
+  
+  rushTimer = setTimeout(() => {
+    rushTimer = null;
+    useGameStore.getState().checkRushClock();
+  }, timeLeft);
+}
+
 // Selectors for common state combinations
 export const useCurrentGame = () => {
   return useGameStore(state => ({
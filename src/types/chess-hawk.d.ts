@@ -46,14 +46,17 @@ export interface ChessboardConfig {
   draggable?: boolean;
   dropOffBoard?: 'snapback' | 'trash';
   onDragStart?: (source: string, piece: string, position: any, orientation: string) => boolean;
-  onDrop?: (source: string, target: string, piece: string, newPos: any, oldPos: any, orientation: string) => string;
+  onDrop?: (source: string, target: string, piece: string, newPos: any, oldPos: any, orientation: string) => string | void;
   onMoveEnd?: (oldPos: any, newPos: any) => void;
   onSnapEnd?: () => void;
   onMouseoverSquare?: (square: string, piece: string) => void;
   onMouseoutSquare?: (square: string, piece: string) => void;
-  pieceTheme?: string;
+  pieceTheme?: string | ((piece: string) => string);
   showNotation?: boolean;
   sparePieces?: boolean;
+  moveSpeed?: number | 'slow' | 'fast';
+  snapbackSpeed?: number | 'slow' | 'fast';
+  snapSpeed?: number | 'slow' | 'fast';
 }
 
 export interface ChessboardInstance {
@@ -64,7 +67,7 @@ export interface ChessboardInstance {
   move(moves: string | string[]): void;
   position(): any;
   position(fen: string): void;
-  position(fen: string, useAnimation: boolean): void;
+  position(fen: string | Record<string, string>, useAnimation: boolean): void;
   resize(): void;
   start(): void;
 }
@@ -77,6 +80,8 @@ export interface ChessPuzzle {
   description: string;
   fen: string;
   solution: string[];
+  alternatives?: string[][];
+  hint?: string;
   hints?: string[];
   difficulty: 'beginner' | 'intermediate' | 'advanced' | 'expert';
   category?: string;
@@ -23,6 +23,8 @@ export type {
   ExportedUserData
 } from '../services/PuzzleService'
 
+import type { ApiSchemaIssue } from '../services/ApiSchema'
+
 // Component types
 export interface ChessHawkLibraryConfig {
   puzzleService?: {
@@ -119,6 +121,71 @@ export class ServiceInitializationError extends Error implements ChessHawkError
   }
 }
 
+export class InvalidApiResponseError extends Error implements ChessHawkError {
+  code = 'INVALID_API_RESPONSE'
+  context: { endpoint: string; schema: string; issues: ApiSchemaIssue[] }
+
+  constructor(endpoint: string, schema: string, issues: ApiSchemaIssue[]) {
+    super(`Invalid ${schema} from ${endpoint}: ${describeIssues(issues)}`)
+    this.context = { endpoint, schema, issues }
+  }
+}
+
+export class InvalidApiRequestError extends Error implements ChessHawkError {
+  code = 'INVALID_API_REQUEST'
+  context: { endpoint: string; schema: string; issues: ApiSchemaIssue[] }
+
+  constructor(endpoint: string, schema: string, issues: ApiSchemaIssue[]) {
+    super(`Invalid ${schema} for ${endpoint}: ${describeIssues(issues)}`)
+    this.context = { endpoint, schema, issues }
+  }
+}
+
+/**
+ * A puzzle API call that failed; the subclasses tell the failures apart
+ */
+export class ApiError extends Error implements ChessHawkError {
+  code = 'API_ERROR'
+  status?: number
+  context: { endpoint: string; status?: number; cause?: unknown }
+
+  constructor(endpoint: string, message: string, status?: number, cause?: unknown) {
+    super(message)
+    this.status = status
+    this.context = { endpoint, status, cause }
+  }
+}
+
+export class ApiNotFoundError extends ApiError {
+  code = 'API_NOT_FOUND'
+}
+
+export class ApiAuthError extends ApiError {
+  code = 'API_UNAUTHORIZED' // 401 or 403
+}
+
+export class ApiServerError extends ApiError {
+  code = 'API_SERVER_ERROR' // 5xx
+}
+
+/**
+ * The API could not be reached: offline, DNS, refused connection or timeout
+ */
+export class ApiNetworkError extends ApiError {
+  code = 'API_NETWORK_ERROR'
+  timedOut: boolean
+
+  constructor(endpoint: string, message: string, timedOut = false, cause?: unknown) {
+    super(endpoint, message, undefined, cause)
+    this.timedOut = timedOut
+  }
+}
+
+function describeIssues(issues: ApiSchemaIssue[]): string {
+  const shown = issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`)
+  return issues.length > 3 ? `${shown.join('; ')} (+${issues.length - 3} more)` : shown.join('; ')
+}
+
 // Utility types
 export type Platform = 'web' | 'react-native' | 'electron' | 'tauri'
 export type Theme = 'light' | 'dark' | 'auto'
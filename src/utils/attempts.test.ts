@@ -0,0 +1,99 @@
+/**
+ * Attempt Log Tests
+ * Move timing, wrong moves, hints and history filtering
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  startAttempt,
+  recordAttemptMove,
+  recordAttemptHelp,
+  recordAttemptHint,
+  finishAttempt,
+  getAttemptMoves,
+  filterAttempts,
+  type PuzzleAttempt
+} from './attempts'
+
+const START = new Date('2025-01-01T12:00:00.000Z').getTime()
+const puzzle = { id: 'fork_1', theme: 'fork', rating: 1200 }
+
+describe('attempt log', () => {
+  it('records each move with the thinking time since the previous one', () => {
+    let attempt = startAttempt('user1', puzzle, START)
+    attempt = recordAttemptMove(attempt, 'Nc7+', false, START + 4000)
+    attempt = recordAttemptMove(attempt, 'Nf7', true, START + 9000)
+
+    expect(getAttemptMoves(attempt)).toEqual([
+      { type: 'move_made', timestamp: START + 4000, move: 'Nc7+', correct: false, timeMs: 4000 },
+      { type: 'move_made', timestamp: START + 9000, move: 'Nf7', correct: true, timeMs: 5000 }
+    ])
+    expect(attempt.wrongMoves).toBe(1)
+  })
+
+  it('does not count hints into the next move time but counts them as used', () => {
+    let attempt = startAttempt('user1', puzzle, START)
+    attempt = recordAttemptHint(attempt, 1, START + 2000)
+    attempt = recordAttemptMove(attempt, 'Nf7', true, START + 3000)
+
+    expect(attempt.hintsUsed).toBe(1)
+    expect(getAttemptMoves(attempt)[0]?.timeMs).toBe(3000)
+  })
+
+  it('logs a shown solution without changing the hint tier', () => {
+    let attempt = startAttempt('user1', puzzle, START)
+    attempt = recordAttemptHint(attempt, 2, START + 1000)
+    attempt = recordAttemptHelp(attempt, 'solution_shown', START + 2000)
+
+    expect(attempt.hintsUsed).toBe(2)
+    expect(attempt.events.map(event => event.type)).toEqual(['puzzle_loaded', 'hint_requested', 'solution_shown'])
+  })
+
+  it('keeps the highest hint tier reached', () => {
+    let attempt = startAttempt('user1', puzzle, START)
+    attempt = recordAttemptHint(attempt, 1, START + 1000)
+    attempt = recordAttemptHint(attempt, 2, START + 2000)
+    attempt = recordAttemptHint(attempt, 1, START + 3000)
+
+    expect(attempt.hintsUsed).toBe(2)
+    expect(attempt.events.map(event => event.tier)).toEqual([undefined, 1, 2, 1])
+  })
+
+  it('closes the attempt with the result and total time', () => {
+    const attempt = finishAttempt(startAttempt('user1', puzzle, START), 'failed', START + 61000)
+
+    expect(attempt.result).toBe('failed')
+    expect(attempt.timeSpent).toBe(61)
+    expect(attempt.endedAt).toBe('2025-01-01T12:01:01.000Z')
+    expect(attempt.events.map(event => event.type)).toEqual(['puzzle_loaded', 'puzzle_failed'])
+  })
+
+  it('adds no result event for abandoned attempts', () => {
+    const attempt = finishAttempt(startAttempt('user1', puzzle, START), 'abandoned', START + 1000)
+
+    expect(attempt.events.map(event => event.type)).toEqual(['puzzle_loaded'])
+  })
+})
+
+describe('filterAttempts', () => {
+  const attempts: PuzzleAttempt[] = [
+    finishAttempt(startAttempt('user1', puzzle, START), 'solved', START + 1000),
+    finishAttempt(startAttempt('user1', { id: 'pin_1', theme: 'pin', rating: 1300 }, START + 86400000), 'failed', START + 86401000),
+    finishAttempt(startAttempt('user1', puzzle, START + 2 * 86400000), 'failed', START + 2 * 86400000 + 1000)
+  ]
+
+  it('returns matching attempts newest first', () => {
+    expect(filterAttempts(attempts).map(a => a.startedAt)).toEqual([
+      '2025-01-03T12:00:00.000Z',
+      '2025-01-02T12:00:00.000Z',
+      '2025-01-01T12:00:00.000Z'
+    ])
+    expect(filterAttempts(attempts, { puzzleId: 'fork_1', result: 'failed' })).toHaveLength(1)
+    expect(filterAttempts(attempts, { theme: 'pin' })[0]?.puzzleId).toBe('pin_1')
+  })
+
+  it('filters by date range and limit', () => {
+    expect(filterAttempts(attempts, { since: '2025-01-02', until: '2025-01-03' }).map(a => a.puzzleId)).toEqual(['pin_1'])
+    expect(filterAttempts(attempts, { limit: 1 })[0]?.startedAt).toBe('2025-01-03T12:00:00.000Z')
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Chess Hawk Attempt Log
+ * Move-by-move record of every puzzle attempt, for replay and coaching
+ */
+
+import type { PuzzleEvent } from '../types'
+import type { Puzzle } from '../stores/GameStore'
+
+export type AttemptResult = 'solved' | 'failed' | 'abandoned'
+
+/**
+ * One step of an attempt. On moves, `timeMs` is the player's thinking time
+ * since the puzzle loaded or since their previous move.
+ */
+export interface AttemptEvent {
+  type: PuzzleEvent['type']
+  timestamp: number
+  move?: string // SAN, move_made only
+  correct?: boolean // move_made only, false for a wrong move
+  timeMs?: number
+  tier?: number // hint_requested only, the hint tier shown
+}
+
+export interface PuzzleAttempt {
+  id: string
+  userId: string
+  puzzleId: string
+  theme: string
+  rating: number
+  startedAt: string
+  endedAt: string | null
+  result: AttemptResult | null // null while the attempt is in progress
+  timeSpent: number // in seconds
+  wrongMoves: number
+  hintsUsed: number // highest hint tier reached, see ./hints
+  events: AttemptEvent[]
+}
+
+export interface AttemptHistoryFilter {
+  puzzleId?: string
+  theme?: string
+  result?: AttemptResult
+  since?: string // ISO date, inclusive
+  until?: string // ISO date, exclusive
+  limit?: number
+}
+
+export function startAttempt(userId: string, puzzle: Pick<Puzzle, 'id' | 'theme' | 'rating'>, now: number = Date.now()): PuzzleAttempt {
+  return {
+    id: `attempt_${puzzle.id}_${now}`,
+    userId,
+    puzzleId: puzzle.id,
+    theme: puzzle.theme,
+    rating: puzzle.rating,
+    startedAt: new Date(now).toISOString(),
+    endedAt: null,
+    result: null,
+    timeSpent: 0,
+    wrongMoves: 0,
+    hintsUsed: 0,
+    events: [{ type: 'puzzle_loaded', timestamp: now }]
+  }
+}
+
+export function recordAttemptMove(attempt: PuzzleAttempt, move: string, correct: boolean, now: number = Date.now()): PuzzleAttempt {
+  const previous = [...attempt.events].reverse().find(event => event.type === 'move_made' || event.type === 'puzzle_loaded')
+  const timeMs = previous ? now - previous.timestamp : 0
+
+  return {
+    ...attempt,
+    wrongMoves: attempt.wrongMoves + (correct ? 0 : 1),
+    events: [...attempt.events, { type: 'move_made', timestamp: now, move, correct, timeMs }]
+  }
+}
+
+/**
+ * Log that the solution was shown. Hints go through `recordAttemptHint`.
+ */
+export function recordAttemptHelp(attempt: PuzzleAttempt, type: 'solution_shown', now: number = Date.now()): PuzzleAttempt {
+  return {
+    ...attempt,
+    events: [...attempt.events, { type, timestamp: now }]
+  }
+}
+
+/**
+ * Log a tiered hint. `hintsUsed` keeps the highest tier reached.
+ */
+export function recordAttemptHint(attempt: PuzzleAttempt, tier: number, now: number = Date.now()): PuzzleAttempt {
+  return {
+    ...attempt,
+    hintsUsed: Math.max(attempt.hintsUsed, tier),
+    events: [...attempt.events, { type: 'hint_requested', timestamp: now, tier }]
+  }
+}
+
+export function finishAttempt(attempt: PuzzleAttempt, result: AttemptResult, now: number = Date.now()): PuzzleAttempt {
+  const events: AttemptEvent[] = result === 'abandoned'
+    ? attempt.events
+    : [...attempt.events, { type: result === 'solved' ? 'puzzle_solved' : 'puzzle_failed', timestamp: now }]
+
+  return {
+    ...attempt,
+    endedAt: new Date(now).toISOString(),
+    result,
+    timeSpent: Math.floor((now - new Date(attempt.startedAt).getTime()) / 1000),
+    events
+  }
+}
+
+/**
+ * The moves the player tried, right and wrong, in order
+ */
+export function getAttemptMoves(attempt: PuzzleAttempt): AttemptEvent[] {
+  return attempt.events.filter(event => event.type === 'move_made')
+}
+
+/**
+ * Matching attempts, newest first
+ */
+export function filterAttempts(attempts: PuzzleAttempt[], filter: AttemptHistoryFilter = {}): PuzzleAttempt[] {
+  const matching = attempts
+    .filter(attempt =>
+      (!filter.puzzleId || attempt.puzzleId === filter.puzzleId) &&
+      (!filter.theme || attempt.theme === filter.theme) &&
+      (!filter.result || attempt.result === filter.result) &&
+      (!filter.since || attempt.startedAt >= filter.since) &&
+      (!filter.until || attempt.startedAt < filter.until)
+    )
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+
+  return filter.limit ? matching.slice(0, filter.limit) : matching
+}
@@ -0,0 +1,42 @@
+/**
+ * Hint Tests
+ * Tier progression, hint content and score penalties
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getHint, nextHintTier, applyHintPenalty, HINT_SCORE_PENALTIES } from './hints'
+
+// Black to play Nxe5 winning the pawn
+const FEN = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 3 3'
+const puzzle = { theme: 'fork', hint: 'Se etter dobbeltangrep' }
+
+describe('tiered hints', () => {
+  it('gives away more of the move at each tier', () => {
+    expect(getHint(puzzle, FEN, 'Nb4', 1)).toEqual({
+      tier: 1, kind: 'theme', message: 'Tema: Gaffel. Se etter dobbeltangrep', squares: []
+    })
+    expect(getHint(puzzle, FEN, 'Nb4', 2)).toMatchObject({ kind: 'piece', squares: ['c6'], message: 'Se på springeren på c6' })
+    expect(getHint(puzzle, FEN, 'Nb4', 3)).toMatchObject({ kind: 'square', squares: ['c6', 'b4'] })
+    expect(getHint(puzzle, FEN, 'c6b4', 4)).toMatchObject({ kind: 'move', move: 'Nb4', message: 'Prøv Nb4' })
+  })
+
+  it('names the move when it cannot be played in the position', () => {
+    expect(getHint(puzzle, FEN, 'Qh7', 2)).toEqual({ tier: 2, kind: 'piece', message: 'Prøv Qh7', squares: [] })
+  })
+
+  it('stops at the move tier', () => {
+    expect(nextHintTier(0)).toBe(1)
+    expect(nextHintTier(3)).toBe(4)
+    expect(nextHintTier(4)).toBeNull()
+  })
+})
+
+describe('applyHintPenalty', () => {
+  it('costs more score for every tier', () => {
+    const scores = [0, 1, 2, 3, 4].map(tier => applyHintPenalty(200, tier))
+
+    expect(scores[0]).toBe(200)
+    expect(scores[4]).toBe(200 * (1 - HINT_SCORE_PENALTIES[4]))
+    scores.slice(1).forEach((score, index) => expect(score).toBeLessThan(scores[index]!))
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * Chess Hawk Hints
+ * Tiered hints that give away a little more of the next move each time
+ */
+
+import { Chess } from 'chess.js'
+import { normalizeMoveNotation } from './solution'
+
+/**
+ * 1 names the theme, 2 points at the piece, 3 at the target square, 4 gives the move
+ */
+export type HintTier = 1 | 2 | 3 | 4
+export type HintKind = 'theme' | 'piece' | 'square' | 'move'
+
+export interface Hint {
+  tier: HintTier
+  kind: HintKind
+  message: string
+  squares: string[] // squares to highlight, from-square first
+  move?: string // SAN, tier 4 only
+}
+
+export const MAX_HINT_TIER: HintTier = 4
+
+const HINT_KINDS: Record<HintTier, HintKind> = {
+  1: 'theme',
+  2: 'piece',
+  3: 'square',
+  4: 'move'
+}
+
+/**
+ * Share of the puzzle score lost for the highest tier reached
+ */
+export const HINT_SCORE_PENALTIES: Record<HintTier, number> = {
+  1: 0.1,
+  2: 0.25,
+  3: 0.5,
+  4: 0.75
+}
+
+const THEME_NAMES: Record<string, string> = {
+  fork: 'Gaffel',
+  pin: 'Binding',
+  skewer: 'Spett',
+  discoveredAttack: 'Oppdekking',
+  deflection: 'Avledning',
+  decoy: 'Lokking',
+  mate: 'Sjakkmatt',
+  mateIn1: 'Matt i ett',
+  mateIn2: 'Matt i to',
+  mateIn3: 'Matt i tre',
+  sacrifice: 'Offer'
+}
+
+const PIECE_NAMES: Record<string, string> = {
+  p: 'bonden',
+  n: 'springeren',
+  b: 'løperen',
+  r: 'tårnet',
+  q: 'dronningen',
+  k: 'kongen'
+}
+
+/**
+ * The tier after `current` (0 when no hint has been shown), or null once the move is given away
+ */
+export function nextHintTier(current: number): HintTier | null {
+  return current < MAX_HINT_TIER ? (Math.max(0, current) + 1) as HintTier : null
+}
+
+/**
+ * Build the hint for a tier. `expected` is the next solution move (SAN or UCI)
+ * in the position `fen`; if it cannot be played there the piece and square
+ * tiers fall back to naming the move.
+ */
+export function getHint(puzzle: { theme: string; hint?: string }, fen: string, expected: string, tier: HintTier): Hint {
+  const kind = HINT_KINDS[tier]
+
+  if (tier === 1) {
+    const theme = `Tema: ${THEME_NAMES[puzzle.theme] || puzzle.theme}`
+    return { tier, kind, message: puzzle.hint ? `${theme}. ${puzzle.hint}` : theme, squares: [] }
+  }
+
+  const move = resolveMove(fen, expected)
+  if (!move) {
+    return { tier, kind, message: `Prøv ${expected}`, squares: [] }
+  }
+
+  const piece = PIECE_NAMES[move.piece] || 'brikken'
+  switch (tier) {
+    case 2:
+      return { tier, kind, message: `Se på ${piece} på ${move.from}`, squares: [move.from] }
+    case 3:
+      return { tier, kind, message: `Flytt ${piece} til ${move.to}`, squares: [move.from, move.to] }
+    default:
+      return { tier, kind, message: `Prøv ${move.san}`, squares: [move.from, move.to], move: move.san }
+  }
+}
+
+/**
+ * Reduce a score by the penalty for the highest hint tier used
+ */
+export function applyHintPenalty(score: number, tier: number): number {
+  if (tier <= 0) return score
+
+  const penalty = HINT_SCORE_PENALTIES[Math.min(tier, MAX_HINT_TIER) as HintTier]
+  return Math.round(score * (1 - penalty))
+}
+
+function resolveMove(fen: string, move: string): { from: string; to: string; piece: string; san: string } | null {
+  try {
+    return new Chess(fen).move(normalizeMoveNotation(move))
+  } catch {
+    return null
+  }
+}
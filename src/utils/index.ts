@@ -4,6 +4,18 @@
  */
 
 import type { ChessMove, BoardState, Platform } from '../types'
+import { BrowserStorageAdapter, MemoryStorageAdapter, type StorageAdapter } from './storage'
+
+export * from './solution'
+export * from './review'
+export * from './rating'
+export * from './rush'
+export * from './attempts'
+export * from './validation'
+export * from './storage'
+export * from './playback'
+export * from './hints'
+export * from './move-input'
 
 // Platform detection utilities
 export function detectPlatform(): Platform {
@@ -198,53 +210,6 @@ export function withErrorHandling<T extends (...args: any[]) => any>(
 }
 
 // Storage utilities (platform-agnostic)
-export interface StorageAdapter {
-  getItem(key: string): string | null | Promise<string | null>
-  setItem(key: string, value: string): void | Promise<void>
-  removeItem(key: string): void | Promise<void>
-  clear(): void | Promise<void>
-}
-
-export class BrowserStorageAdapter implements StorageAdapter {
-  constructor(private storage: Storage = localStorage) {}
-  
-  getItem(key: string): string | null {
-    return this.storage.getItem(key)
-  }
-  
-  setItem(key: string, value: string): void {
-    this.storage.setItem(key, value)
-  }
-  
-  removeItem(key: string): void {
-    this.storage.removeItem(key)
-  }
-  
-  clear(): void {
-    this.storage.clear()
-  }
-}
-
-export class MemoryStorageAdapter implements StorageAdapter {
-  private data: Map<string, string> = new Map()
-  
-  getItem(key: string): string | null {
-    return this.data.get(key) || null
-  }
-  
-  setItem(key: string, value: string): void {
-    this.data.set(key, value)
-  }
-  
-  removeItem(key: string): void {
-    this.data.delete(key)
-  }
-  
-  clear(): void {
-    this.data.clear()
-  }
-}
-
 export function createStorageAdapter(): StorageAdapter {
   if (isBrowser()) {
     return new BrowserStorageAdapter()
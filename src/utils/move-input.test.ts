@@ -0,0 +1,60 @@
+/**
+ * Move Input Tests
+ * Click-to-move selection and typed SAN/UCI moves
+ */
+
+import { describe, it, expect } from 'vitest'
+import { applySquareClick, getLegalDestinations, isPromotionMove, parseMoveInput } from './move-input'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+const PROMOTION_FEN = '8/4P3/8/8/8/8/k7/4K3 w - - 0 1'
+
+describe('parseMoveInput', () => {
+  it('accepts SAN, UCI and dashed coordinates', () => {
+    expect(parseMoveInput(START_FEN, 'Nf3')).toEqual({ from: 'g1', to: 'f3', promotion: undefined, san: 'Nf3' })
+    expect(parseMoveInput(START_FEN, ' g1f3 ')?.san).toBe('Nf3')
+    expect(parseMoveInput(START_FEN, 'e2-e4')?.san).toBe('e4')
+    expect(parseMoveInput(PROMOTION_FEN, 'e8=Q+')).toMatchObject({ to: 'e8', promotion: 'q' })
+    expect(parseMoveInput(PROMOTION_FEN, 'e7e8N')).toMatchObject({ promotion: 'n', san: 'e8=N' })
+  })
+
+  it('leaves the promotion piece open when none is typed', () => {
+    expect(parseMoveInput(PROMOTION_FEN, 'e7e8')).toEqual({ from: 'e7', to: 'e8', promotion: undefined, san: 'e8=Q' })
+    expect(parseMoveInput(PROMOTION_FEN, 'e7-e8')).toMatchObject({ to: 'e8', promotion: undefined })
+  })
+
+  it('rejects illegal and unreadable moves', () => {
+    expect(parseMoveInput(START_FEN, 'Nf6')).toBeNull()
+    expect(parseMoveInput(START_FEN, 'e2e5')).toBeNull()
+    expect(parseMoveInput(START_FEN, 'hello')).toBeNull()
+    expect(parseMoveInput(START_FEN, '   ')).toBeNull()
+  })
+})
+
+describe('isPromotionMove', () => {
+  it('is true only for legal pawn moves to the last rank', () => {
+    expect(isPromotionMove(PROMOTION_FEN, 'e7', 'e8')).toBe(true)
+    expect(isPromotionMove(PROMOTION_FEN, 'e7', 'd8')).toBe(false)
+    expect(isPromotionMove(PROMOTION_FEN, 'e1', 'e2')).toBe(false)
+    expect(isPromotionMove(START_FEN, 'e2', 'e4')).toBe(false)
+    expect(isPromotionMove('not a fen', 'e7', 'e8')).toBe(false)
+  })
+})
+
+describe('applySquareClick', () => {
+  it('selects a piece of the side to move and lists its destinations', () => {
+    expect(getLegalDestinations(START_FEN, 'g1')).toEqual(['f3', 'h3'])
+    expect(applySquareClick(START_FEN, null, 'g1')).toEqual({ selected: 'g1', destinations: ['f3', 'h3'] })
+  })
+
+  it('completes the move on a legal destination', () => {
+    expect(applySquareClick(START_FEN, 'g1', 'f3')).toEqual({ selected: null, destinations: [], move: { from: 'g1', to: 'f3' } })
+  })
+
+  it('switches to another piece or clears the selection otherwise', () => {
+    expect(applySquareClick(START_FEN, 'g1', 'e2').selected).toBe('e2')
+    expect(applySquareClick(START_FEN, 'g1', 'g1')).toEqual({ selected: null, destinations: [] })
+    expect(applySquareClick(START_FEN, 'g1', 'e7')).toEqual({ selected: null, destinations: [] })
+    expect(applySquareClick(START_FEN, null, 'e5')).toEqual({ selected: null, destinations: [] })
+  })
+})
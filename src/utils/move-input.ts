@@ -0,0 +1,96 @@
+/**
+ * Chess Hawk Move Input
+ * Click-to-move selection and typed SAN/UCI moves, as alternatives to drag-and-drop
+ */
+
+import { Chess, type Square } from 'chess.js'
+import { normalizeMoveNotation } from './solution'
+
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n'
+
+// Order shown in promotion pickers
+export const PROMOTION_PIECES: PromotionPiece[] = ['q', 'n', 'r', 'b']
+
+export interface ResolvedMove {
+  from: string
+  to: string
+  promotion?: string
+  san: string
+}
+
+/**
+ * Where a click leaves the selection. `move` is set when the click completed a move.
+ */
+export interface SquareSelection {
+  selected: string | null
+  destinations: string[]
+  move?: { from: string; to: string }
+}
+
+/**
+ * Squares the piece on `square` can legally move to
+ */
+export function getLegalDestinations(fen: string, square: string): string[] {
+  try {
+    const destinations = new Chess(fen).moves({ square: square as Square, verbose: true }).map(move => move.to)
+    return [...new Set(destinations)]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Whether moving from `from` to `to` is a legal pawn promotion, i.e. needs a piece chosen
+ */
+export function isPromotionMove(fen: string, from: string, to: string): boolean {
+  try {
+    return new Chess(fen)
+      .moves({ square: from as Square, verbose: true })
+      .some(move => move.to === to && move.promotion !== undefined)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resolve typed text to a legal move. Accepts SAN (`Nf3`, `exd5`, `e8=Q`) and
+ * UCI (`g1f3`, `e7e8q`), also written with a dash or check markers (`g1-f3`, `Qh5+`).
+ * A promotion typed without a piece (`e7e8`) has no `promotion`, so the caller
+ * decides; `san` then shows the queen.
+ */
+export function parseMoveInput(fen: string, text: string): ResolvedMove | null {
+  const input = normalizeMoveNotation(text.trim().replace(/^([a-h][1-8])[-x]([a-h][1-8][qrbnQRBN]?)$/, '$1$2'))
+  if (!input) return null
+
+  try {
+    const move = new Chess(fen).move(input)
+    if (move.promotion && !/[qrbn]$/i.test(input)) {
+      // chess.js picks some piece when none is given
+      const queen = new Chess(fen).move({ from: move.from, to: move.to, promotion: 'q' })
+      return { from: move.from, to: move.to, promotion: undefined, san: queen.san }
+    }
+    return { from: move.from, to: move.to, promotion: move.promotion, san: move.san }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Apply a click to the current selection: a click on one of the side to move's
+ * pieces selects it, a click on a legal destination completes the move and any
+ * other click clears the selection.
+ */
+export function applySquareClick(fen: string, selected: string | null, square: string): SquareSelection {
+  if (selected && selected !== square && getLegalDestinations(fen, selected).includes(square)) {
+    return { selected: null, destinations: [], move: { from: selected, to: square } }
+  }
+
+  if (selected !== square) {
+    const destinations = getLegalDestinations(fen, square)
+    if (destinations.length > 0) {
+      return { selected: square, destinations }
+    }
+  }
+
+  return { selected: null, destinations: [] }
+}
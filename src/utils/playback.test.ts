@@ -0,0 +1,87 @@
+/**
+ * Solution Playback Tests
+ * Replaying SAN and UCI solutions and stepping through them on a timer
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { buildSolutionFrames, SolutionPlayback } from './playback'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+const puzzle = { fen: START_FEN, solution: ['e2e4', 'e5', 'Nf3', 'Nc6'] }
+
+describe('buildSolutionFrames', () => {
+  it('replays SAN and UCI moves from the puzzle position', () => {
+    const frames = buildSolutionFrames(puzzle)
+
+    expect(frames).toHaveLength(5)
+    expect(frames[0]).toEqual({ ply: 0, fen: START_FEN })
+    expect(frames[1]).toMatchObject({ ply: 1, from: 'e2', to: 'e4', san: 'e4' })
+    expect(frames[3]).toMatchObject({ ply: 3, from: 'g1', to: 'f3', san: 'Nf3' })
+    expect(frames[4]?.fen).toBe('r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3')
+  })
+
+  it('stops at the first illegal move', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const frames = buildSolutionFrames({ fen: START_FEN, solution: ['e4', 'Nxe5', 'Nf3'] })
+
+    expect(frames.map(frame => frame.san)).toEqual([undefined, 'e4'])
+    warnSpy.mockRestore()
+  })
+})
+
+describe('SolutionPlayback', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('steps back and forth within the frames', () => {
+    const onChange = vi.fn()
+    const playback = new SolutionPlayback(buildSolutionFrames(puzzle), { onChange })
+
+    playback.prev()
+    expect(onChange).not.toHaveBeenCalled()
+
+    playback.next()
+    playback.next()
+    playback.prev()
+    expect(playback.current.san).toBe('e4')
+
+    playback.goTo(99)
+    expect(playback.atEnd).toBe(true)
+    expect(onChange).toHaveBeenCalledTimes(4)
+  })
+
+  it('plays on a timer and pauses at the last ply', () => {
+    vi.useFakeTimers()
+    const playback = new SolutionPlayback(buildSolutionFrames(puzzle), { intervalMs: 1000 })
+
+    playback.play()
+    vi.advanceTimersByTime(2000)
+    expect(playback.position).toBe(2)
+
+    playback.pause()
+    vi.advanceTimersByTime(5000)
+    expect(playback.position).toBe(2)
+
+    playback.play()
+    vi.advanceTimersByTime(10000)
+    expect(playback.atEnd).toBe(true)
+    expect(playback.isPlaying).toBe(false)
+  })
+
+  it('starts over when played from the end and stops notifying once destroyed', () => {
+    vi.useFakeTimers()
+    const onChange = vi.fn()
+    const playback = new SolutionPlayback(buildSolutionFrames(puzzle), { intervalMs: 1000, onChange })
+
+    playback.goTo(4)
+    playback.play()
+    expect(playback.position).toBe(0)
+
+    playback.destroy()
+    onChange.mockClear()
+    vi.advanceTimersByTime(5000)
+    expect(onChange).not.toHaveBeenCalled()
+    expect(playback.position).toBe(0)
+  })
+})
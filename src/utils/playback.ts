@@ -0,0 +1,158 @@
+/**
+ * Chess Hawk Solution Playback
+ * Replays a puzzle's solution ply by ply for step-through display
+ */
+
+import { Chess } from 'chess.js'
+import type { Puzzle } from '../stores/GameStore'
+import { normalizeMoveNotation } from './solution'
+
+/**
+ * One position of the walkthrough. Frame 0 is the puzzle position with no move;
+ * every later frame is the position after `san` was played from `from` to `to`.
+ */
+export interface SolutionFrame {
+  ply: number
+  fen: string
+  from?: string
+  to?: string
+  san?: string
+}
+
+export interface SolutionPlaybackOptions {
+  intervalMs?: number // delay between plies while playing
+  onChange?: (frame: SolutionFrame, playback: SolutionPlayback) => void
+}
+
+const DEFAULT_INTERVAL_MS = 1200
+
+/**
+ * Replay the solution from the puzzle FEN. SAN and UCI moves are both accepted;
+ * replay stops at the first move that is not legal in its position.
+ */
+export function buildSolutionFrames(puzzle: Pick<Puzzle, 'fen' | 'solution'>): SolutionFrame[] {
+  const chess = new Chess(puzzle.fen)
+  const frames: SolutionFrame[] = [{ ply: 0, fen: chess.fen() }]
+
+  for (const move of puzzle.solution) {
+    try {
+      const played = chess.move(normalizeMoveNotation(move))
+      frames.push({ ply: frames.length, fen: played.after, from: played.from, to: played.to, san: played.san })
+    } catch {
+      console.warn(`Solution playback stopped at illegal move ${move}`)
+      break
+    }
+  }
+
+  return frames
+}
+
+/**
+ * Previous/next/play/pause controller over a list of frames.
+ * Calls `onChange` whenever the current frame or the playing state changes.
+ */
+export class SolutionPlayback {
+  readonly frames: SolutionFrame[]
+  private index = 0
+  private timer: ReturnType<typeof setInterval> | null = null
+  private intervalMs: number
+  private onChange?: SolutionPlaybackOptions['onChange']
+
+  constructor(frames: SolutionFrame[], options: SolutionPlaybackOptions = {}) {
+    if (frames.length === 0) {
+      throw new Error('Solution playback needs at least one frame')
+    }
+    this.frames = frames
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS
+    this.onChange = options.onChange
+  }
+
+  get current(): SolutionFrame {
+    return this.frames[this.index]!
+  }
+
+  get position(): number {
+    return this.index
+  }
+
+  get isPlaying(): boolean {
+    return this.timer !== null
+  }
+
+  get atStart(): boolean {
+    return this.index === 0
+  }
+
+  get atEnd(): boolean {
+    return this.index === this.frames.length - 1
+  }
+
+  /**
+   * Jump to a frame, clamped to the available range
+   */
+  goTo(index: number): void {
+    const target = Math.max(0, Math.min(index, this.frames.length - 1))
+    if (target === this.index) return
+
+    this.index = target
+    if (this.atEnd) {
+      this.stopTimer()
+    }
+    this.notify()
+  }
+
+  next(): void {
+    this.goTo(this.index + 1)
+  }
+
+  prev(): void {
+    this.goTo(this.index - 1)
+  }
+
+  /**
+   * Step forward on a timer until the last ply. Starts over when already at the end.
+   */
+  play(): void {
+    if (this.isPlaying || this.frames.length < 2) return
+
+    if (this.atEnd) {
+      this.index = 0
+    }
+    this.timer = setInterval(() => this.next(), this.intervalMs)
+    this.notify()
+  }
+
+  pause(): void {
+    if (!this.isPlaying) return
+
+    this.stopTimer()
+    this.notify()
+  }
+
+  toggle(): void {
+    if (this.isPlaying) {
+      this.pause()
+    } else {
+      this.play()
+    }
+  }
+
+  /**
+   * Stop the timer for good. The playback does not call `onChange` afterwards.
+   */
+  destroy(): void {
+    this.stopTimer()
+    this.onChange = undefined
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private notify(): void {
+    this.onChange?.(this.current, this)
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Puzzle Rating Tests
+ * Glicko-2 against the reference example and per-attempt history
+ */
+
+import { describe, it, expect } from 'vitest'
+import { updateGlicko2, recordPuzzleResult, createUserRating, DEFAULT_RATING } from './rating'
+
+describe('Glicko-2 rating', () => {
+  it('should match the worked example from the Glicko-2 paper', () => {
+    const updated = updateGlicko2({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+      { rating: 1400, deviation: 30, score: 1 },
+      { rating: 1550, deviation: 100, score: 0 },
+      { rating: 1700, deviation: 300, score: 0 }
+    ])
+
+    expect(updated.rating).toBeCloseTo(1464.06, 1)
+    expect(updated.deviation).toBeCloseTo(151.52, 1)
+    expect(updated.volatility).toBeCloseTo(0.05999, 4)
+  })
+
+  it('should only widen the deviation without results', () => {
+    const updated = updateGlicko2({ rating: 1600, deviation: 100, volatility: 0.06 }, [])
+
+    expect(updated.rating).toBe(1600)
+    expect(updated.deviation).toBeGreaterThan(100)
+  })
+
+  it('should start new users at the default rating', () => {
+    expect(createUserRating()).toEqual({ ...DEFAULT_RATING, history: [] })
+  })
+
+  it('should move the rating up on success and down on failure', () => {
+    const puzzle = { id: 'fork_1', rating: 1500 }
+
+    const won = recordPuzzleResult(undefined, puzzle, true)
+    const lost = recordPuzzleResult(undefined, puzzle, false)
+
+    expect(won.rating).toBeGreaterThan(1500)
+    expect(lost.rating).toBeLessThan(1500)
+    expect(won.deviation).toBeLessThan(DEFAULT_RATING.deviation)
+  })
+
+  it('should keep a history of every attempt', () => {
+    let rating = recordPuzzleResult(undefined, { id: 'fork_1', rating: 1200 }, true)
+    rating = recordPuzzleResult(rating, { id: 'pin_1', rating: 1800, ratingDeviation: 60 }, false)
+
+    expect(rating.history).toHaveLength(2)
+    expect(rating.history[1]).toMatchObject({ puzzleId: 'pin_1', success: false, rating: Math.round(rating.rating) })
+  })
+})
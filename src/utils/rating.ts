@@ -0,0 +1,161 @@
+/**
+ * Chess Hawk Puzzle Rating
+ * Glicko-2 rating with deviation and volatility, updated after every attempt
+ */
+
+export interface GlickoRating {
+  rating: number
+  deviation: number // rating deviation (RD)
+  volatility: number
+}
+
+export interface RatingHistoryEntry {
+  rating: number
+  deviation: number
+  puzzleId: string
+  success: boolean
+  timestamp: string
+}
+
+export interface UserRating extends GlickoRating {
+  history: RatingHistoryEntry[]
+}
+
+export interface GlickoResult {
+  rating: number
+  deviation: number
+  score: number // 1 = win, 0.5 = draw, 0 = loss
+}
+
+export const DEFAULT_RATING: GlickoRating = {
+  rating: 1500,
+  deviation: 350,
+  volatility: 0.06
+}
+
+// Puzzles without a known deviation are treated as fairly well established
+export const DEFAULT_PUZZLE_DEVIATION = 75
+
+const GLICKO2_SCALE = 173.7178
+const SYSTEM_TAU = 0.5
+const CONVERGENCE_TOLERANCE = 0.000001
+const MAX_HISTORY = 500
+
+export function createUserRating(): UserRating {
+  return { ...DEFAULT_RATING, history: [] }
+}
+
+/**
+ * Glicko-2 expected score of a player against an opponent (e.g. a puzzle)
+ */
+export function expectedScore(player: Pick<GlickoRating, 'rating'>, opponent: { rating: number; deviation?: number }): number {
+  const phiJ = (opponent.deviation ?? DEFAULT_PUZZLE_DEVIATION) / GLICKO2_SCALE
+  const g = 1 / Math.sqrt(1 + (3 * phiJ * phiJ) / (Math.PI * Math.PI))
+  return 1 / (1 + Math.exp(-g * (player.rating - opponent.rating) / GLICKO2_SCALE))
+}
+
+/**
+ * Apply one Glicko-2 rating period (Glickman, 2012) with the given results.
+ * With no results only the deviation grows.
+ */
+export function updateGlicko2(player: GlickoRating, results: GlickoResult[], tau = SYSTEM_TAU): GlickoRating {
+  const mu = (player.rating - 1500) / GLICKO2_SCALE
+  const phi = player.deviation / GLICKO2_SCALE
+  const sigma = player.volatility
+
+  if (results.length === 0) {
+    const deviation = Math.min(Math.sqrt(phi * phi + sigma * sigma) * GLICKO2_SCALE, DEFAULT_RATING.deviation)
+    return { ...player, deviation }
+  }
+
+  const opponents = results.map(result => {
+    const muJ = (result.rating - 1500) / GLICKO2_SCALE
+    const g = 1 / Math.sqrt(1 + (3 * Math.pow(result.deviation / GLICKO2_SCALE, 2)) / (Math.PI * Math.PI))
+    const expected = 1 / (1 + Math.exp(-g * (mu - muJ)))
+    return { g, expected, score: result.score }
+  })
+
+  const v = 1 / opponents.reduce((sum, o) => sum + o.g * o.g * o.expected * (1 - o.expected), 0)
+  const improvement = opponents.reduce((sum, o) => sum + o.g * (o.score - o.expected), 0)
+  const delta = v * improvement
+
+  const newSigma = solveVolatility(delta, phi, v, sigma, tau)
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma)
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+  const newMu = mu + newPhi * newPhi * improvement
+
+  return {
+    rating: newMu * GLICKO2_SCALE + 1500,
+    deviation: Math.min(newPhi * GLICKO2_SCALE, DEFAULT_RATING.deviation),
+    volatility: newSigma
+  }
+}
+
+/**
+ * Illinois-algorithm solve for the new volatility (step 5 of Glicko-2)
+ */
+function solveVolatility(delta: number, phi: number, v: number, sigma: number, tau: number): number {
+  const a = Math.log(sigma * sigma)
+  const f = (x: number) => {
+    const ex = Math.exp(x)
+    const d = phi * phi + v + ex
+    return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (tau * tau)
+  }
+
+  let A = a
+  let B: number
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v)
+  } else {
+    let k = 1
+    while (f(a - k * tau) < 0) k++
+    B = a - k * tau
+  }
+
+  let fA = f(A)
+  let fB = f(B)
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA)
+    const fC = f(C)
+    if (fC * fB <= 0) {
+      A = B
+      fA = fB
+    } else {
+      fA = fA / 2
+    }
+    B = C
+    fB = fC
+  }
+
+  return Math.exp(A / 2)
+}
+
+/**
+ * Rate a single puzzle attempt as a game against the puzzle and record it in the history
+ */
+export function recordPuzzleResult(
+  current: UserRating | undefined,
+  puzzle: { id: string; rating: number; ratingDeviation?: number },
+  success: boolean,
+  now: Date = new Date()
+): UserRating {
+  const userRating = current || createUserRating()
+  const updated = updateGlicko2(userRating, [{
+    rating: puzzle.rating,
+    deviation: puzzle.ratingDeviation ?? DEFAULT_PUZZLE_DEVIATION,
+    score: success ? 1 : 0
+  }])
+
+  const entry: RatingHistoryEntry = {
+    rating: Math.round(updated.rating),
+    deviation: Math.round(updated.deviation),
+    puzzleId: puzzle.id,
+    success,
+    timestamp: now.toISOString()
+  }
+
+  return {
+    ...updated,
+    history: [...userRating.history, entry].slice(-MAX_HISTORY)
+  }
+}
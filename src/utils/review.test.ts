@@ -0,0 +1,67 @@
+/**
+ * Review Scheduler Tests
+ * SM-2 intervals, ease and due ordering
+ */
+
+import { describe, it, expect } from 'vitest'
+import { gradeAttempt, scheduleReview, shouldSchedule, getDueCards } from './review'
+
+const NOW = new Date('2025-01-01T12:00:00.000Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Review scheduler', () => {
+  it('should grade attempts', () => {
+    expect(gradeAttempt(false, 0)).toBe(1)
+    expect(gradeAttempt(true, 0)).toBe(5)
+    expect(gradeAttempt(true, 1)).toBe(4)
+    expect(gradeAttempt(true, 2)).toBe(3)
+    expect(gradeAttempt(true, 0, 2)).toBe(3)
+  })
+
+  it('should bring a failed puzzle back the next day', () => {
+    const card = scheduleReview(undefined, 'fork_1', 1, NOW)
+
+    expect(card.interval).toBe(1)
+    expect(card.lapses).toBe(1)
+    expect(card.repetitions).toBe(0)
+    expect(new Date(card.dueAt).getTime()).toBe(NOW.getTime() + DAY_MS)
+  })
+
+  it('should grow the interval with successful reviews', () => {
+    let card = scheduleReview(undefined, 'fork_1', 1, NOW)
+    card = scheduleReview(card, 'fork_1', 5, NOW)
+    expect(card.interval).toBe(1)
+    card = scheduleReview(card, 'fork_1', 5, NOW)
+    expect(card.interval).toBe(6)
+    card = scheduleReview(card, 'fork_1', 5, NOW)
+    expect(card.interval).toBeGreaterThan(6)
+  })
+
+  it('should never drop ease below the SM-2 minimum', () => {
+    let card = scheduleReview(undefined, 'fork_1', 0, NOW)
+    for (let i = 0; i < 10; i++) {
+      card = scheduleReview(card, 'fork_1', 0, NOW)
+    }
+    expect(card.ease).toBe(1.3)
+  })
+
+  it('should only queue puzzles that took wrong moves, hints or failed, and already queued ones', () => {
+    const card = scheduleReview(undefined, 'fork_1', 1, NOW)
+
+    expect(shouldSchedule(undefined, true)).toBe(false)
+    expect(shouldSchedule(undefined, false)).toBe(true)
+    expect(shouldSchedule(undefined, true, 1)).toBe(true)
+    expect(shouldSchedule(undefined, true, 0, 1)).toBe(true)
+    expect(shouldSchedule(card, true)).toBe(true)
+  })
+
+  it('should list due cards, most overdue first', () => {
+    const earlier = scheduleReview(undefined, 'pin_1', 1, new Date(NOW.getTime() - 3 * DAY_MS))
+    const later = scheduleReview(undefined, 'fork_1', 1, new Date(NOW.getTime() - 2 * DAY_MS))
+    const notDue = scheduleReview(undefined, 'mate_1', 1, NOW)
+
+    const due = getDueCards({ fork_1: later, pin_1: earlier, mate_1: notDue }, NOW)
+
+    expect(due.map(card => card.puzzleId)).toEqual(['pin_1', 'fork_1'])
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Chess Hawk Review Scheduler
+ * SM-2 spaced repetition for bringing failed puzzles back
+ */
+
+export interface ReviewCard {
+  puzzleId: string
+  interval: number // days until the next review
+  ease: number // SM-2 easiness factor
+  repetitions: number // successful reviews in a row
+  lapses: number // times the puzzle was failed
+  dueAt: string // ISO timestamp
+  lastReviewedAt: string
+}
+
+/** SM-2 answer quality, 0 (blackout) to 5 (perfect) */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+
+/**
+ * Map a puzzle attempt to an SM-2 quality grade by the wrong moves played on the way
+ */
+export function gradeAttempt(solved: boolean, wrongMoves: number, hintsUsed = 0): ReviewQuality {
+  if (!solved) return 1
+  if (hintsUsed > 0) return 3
+  if (wrongMoves === 0) return 5
+  return wrongMoves === 1 ? 4 : 3
+}
+
+/**
+ * Schedule the next review of a puzzle after an attempt.
+ * Failed reviews restart the card and bring it back the next day.
+ */
+export function scheduleReview(
+  card: ReviewCard | undefined,
+  puzzleId: string,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): ReviewCard {
+  const previous = card || {
+    puzzleId,
+    interval: 0,
+    ease: INITIAL_EASE,
+    repetitions: 0,
+    lapses: 0
+  }
+
+  const ease = Math.max(MIN_EASE, previous.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+
+  let interval: number
+  let repetitions: number
+  let lapses = previous.lapses
+
+  if (quality < 3) {
+    repetitions = 0
+    interval = 1
+    lapses += 1
+  } else {
+    repetitions = previous.repetitions + 1
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * ease)
+  }
+
+  return {
+    puzzleId,
+    interval,
+    ease,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString()
+  }
+}
+
+/**
+ * Whether an attempt should touch the review queue. Puzzles failed, or solved
+ * only after wrong moves or hints, enter it; queued puzzles are rescheduled on
+ * every attempt.
+ */
+export function shouldSchedule(card: ReviewCard | undefined, solved: boolean, wrongMoves = 0, hintsUsed = 0): boolean {
+  return !!card || !solved || wrongMoves > 0 || hintsUsed > 0
+}
+
+/**
+ * Cards that are due at `now`, most overdue first
+ */
+export function getDueCards(cards: Record<string, ReviewCard> | undefined, now: Date = new Date()): ReviewCard[] {
+  return Object.values(cards || {})
+    .filter(card => new Date(card.dueAt).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime())
+}
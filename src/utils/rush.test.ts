@@ -0,0 +1,75 @@
+/**
+ * Puzzle Rush Tests
+ * Run log, strikes, clock pauses and difficulty ramp
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createRushRun,
+  recordRushEntry,
+  getRushEndReason,
+  rushTimeLeft,
+  rushTargetRating,
+  startRushClock,
+  pauseRushClock,
+  resumeRushClock
+} from './rush'
+
+const NOW = new Date('2025-01-01T12:00:00.000Z')
+const START = NOW.getTime()
+const MINUTE_MS = 60 * 1000
+
+const entry = (solved: boolean) => ({ puzzleId: 'fork_1', rating: 900, solved, timeSpent: 5 })
+
+describe('Puzzle Rush', () => {
+  it('should log puzzles and count score and strikes', () => {
+    let run = createRushRun('survival', NOW)
+    run = recordRushEntry(run, entry(true))
+    run = recordRushEntry(run, entry(false))
+
+    expect(run.score).toBe(1)
+    expect(run.strikes).toBe(1)
+    expect(run.entries).toHaveLength(2)
+    expect(run.endedAt).toBeNull()
+  })
+
+  it('should end after three strikes', () => {
+    let run = createRushRun('threeMinute', NOW)
+    const clock = startRushClock(START)
+
+    run = recordRushEntry(run, entry(false))
+    run = recordRushEntry(run, entry(false))
+    expect(getRushEndReason(run, clock, START)).toBeNull()
+
+    run = recordRushEntry(run, entry(false))
+    expect(getRushEndReason(run, clock, START)).toBe('strikes')
+  })
+
+  it('should end when the clock runs out', () => {
+    const run = createRushRun('threeMinute', NOW)
+    const clock = startRushClock(START)
+
+    expect(rushTimeLeft(run, clock, START + MINUTE_MS)).toBe(2 * MINUTE_MS)
+    expect(getRushEndReason(run, clock, START + 3 * MINUTE_MS)).toBe('time')
+  })
+
+  it('should not count paused time', () => {
+    const run = createRushRun('fiveMinute', NOW)
+    const paused = pauseRushClock(startRushClock(START), START + MINUTE_MS)
+
+    expect(rushTimeLeft(run, paused, START + 60 * MINUTE_MS)).toBe(4 * MINUTE_MS)
+
+    const resumed = resumeRushClock(paused, START + 60 * MINUTE_MS)
+    expect(rushTimeLeft(run, resumed, START + 61 * MINUTE_MS)).toBe(3 * MINUTE_MS)
+  })
+
+  it('should have no clock in survival', () => {
+    const run = createRushRun('survival', NOW)
+
+    expect(rushTimeLeft(run, startRushClock(START), START + 60 * MINUTE_MS)).toBeNull()
+  })
+
+  it('should ramp the target rating with the score', () => {
+    expect(rushTargetRating(10)).toBeGreaterThan(rushTargetRating(0))
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Chess Hawk Puzzle Rush
+ * Timed and survival runs: rules, clock and per-run log
+ */
+
+export type RushVariant = 'threeMinute' | 'fiveMinute' | 'survival'
+
+export type RushEndReason = 'time' | 'strikes' | 'abandoned'
+
+export interface RushRules {
+  timeLimitMs: number | null // null = no clock, the run only ends on strikes
+  maxStrikes: number
+}
+
+export interface RushEntry {
+  puzzleId: string
+  rating: number
+  solved: boolean
+  timeSpent: number // in seconds
+}
+
+export interface RushRun {
+  id: string
+  variant: RushVariant
+  startedAt: string
+  endedAt: string | null
+  endReason: RushEndReason | null
+  score: number // puzzles solved
+  strikes: number // puzzles failed
+  entries: RushEntry[]
+}
+
+/**
+ * Run clock that only counts while running, so pauses don't eat into the time limit
+ */
+export interface RushClock {
+  elapsedMs: number // time counted before `runningSince`
+  runningSince: number | null // null while paused
+}
+
+export const RUSH_RULES: Record<RushVariant, RushRules> = {
+  threeMinute: { timeLimitMs: 3 * 60 * 1000, maxStrikes: 3 },
+  fiveMinute: { timeLimitMs: 5 * 60 * 1000, maxStrikes: 3 },
+  survival: { timeLimitMs: null, maxStrikes: 3 }
+}
+
+// Difficulty ramp: puzzle rating aimed at for the next puzzle
+const RUSH_START_RATING = 800
+const RUSH_RATING_STEP = 60
+
+export function createRushRun(variant: RushVariant, now: Date = new Date()): RushRun {
+  return {
+    id: `rush_${variant}_${now.getTime()}`,
+    variant,
+    startedAt: now.toISOString(),
+    endedAt: null,
+    endReason: null,
+    score: 0,
+    strikes: 0,
+    entries: []
+  }
+}
+
+/**
+ * Puzzle rating to aim for after `score` solved puzzles
+ */
+export function rushTargetRating(score: number): number {
+  return RUSH_START_RATING + score * RUSH_RATING_STEP
+}
+
+export function recordRushEntry(run: RushRun, entry: RushEntry): RushRun {
+  return {
+    ...run,
+    score: run.score + (entry.solved ? 1 : 0),
+    strikes: run.strikes + (entry.solved ? 0 : 1),
+    entries: [...run.entries, entry]
+  }
+}
+
+export function finishRushRun(run: RushRun, reason: RushEndReason, now: Date = new Date()): RushRun {
+  return { ...run, endedAt: now.toISOString(), endReason: reason }
+}
+
+export function isRushActive(run: RushRun | null): run is RushRun {
+  return !!run && run.endedAt === null
+}
+
+export function startRushClock(now: number = Date.now()): RushClock {
+  return { elapsedMs: 0, runningSince: now }
+}
+
+export function pauseRushClock(clock: RushClock, now: number = Date.now()): RushClock {
+  if (clock.runningSince === null) return clock
+  return { elapsedMs: clock.elapsedMs + (now - clock.runningSince), runningSince: null }
+}
+
+export function resumeRushClock(clock: RushClock, now: number = Date.now()): RushClock {
+  if (clock.runningSince !== null) return clock
+  return { ...clock, runningSince: now }
+}
+
+export function rushElapsedMs(clock: RushClock, now: number = Date.now()): number {
+  return clock.elapsedMs + (clock.runningSince === null ? 0 : now - clock.runningSince)
+}
+
+/**
+ * Milliseconds left on the clock, or null for runs without a time limit
+ */
+export function rushTimeLeft(run: RushRun, clock: RushClock, now: number = Date.now()): number | null {
+  const { timeLimitMs } = RUSH_RULES[run.variant]
+  if (timeLimitMs === null) return null
+  return Math.max(0, timeLimitMs - rushElapsedMs(clock, now))
+}
+
+/**
+ * Why the run is over at `now`, or null while it may continue
+ */
+export function getRushEndReason(run: RushRun, clock: RushClock, now: number = Date.now()): RushEndReason | null {
+  if (run.strikes >= RUSH_RULES[run.variant].maxStrikes) return 'strikes'
+  if (rushTimeLeft(run, clock, now) === 0) return 'time'
+  return null
+}
@@ -0,0 +1,98 @@
+/**
+ * Solution Equivalence Tests
+ * Notation normalisation, alternative lines and accepted mates
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeMoveNotation,
+  toUci,
+  movesEquivalent,
+  isAcceptedMove,
+  isSolutionLine
+} from './solution'
+import type { Puzzle } from '../stores/GameStore'
+
+const BACK_RANK_FEN = '7k/6pp/8/8/8/8/8/RR4K1 w - - 0 1'
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+const backRankMate = {
+  fen: BACK_RANK_FEN,
+  theme: 'mateIn1',
+  solution: ['Ra8#']
+} satisfies Partial<Puzzle>
+
+describe('Solution equivalence', () => {
+  describe('normalizeMoveNotation', () => {
+    it('should strip check, mate and annotation markers', () => {
+      expect(normalizeMoveNotation('Nxe5+')).toBe('Nxe5')
+      expect(normalizeMoveNotation('Qh4#')).toBe('Qh4')
+      expect(normalizeMoveNotation('e4!?')).toBe('e4')
+    })
+
+    it('should lower-case UCI promotions', () => {
+      expect(normalizeMoveNotation('e7e8Q')).toBe('e7e8q')
+    })
+  })
+
+  describe('movesEquivalent', () => {
+    it('should treat UCI and SAN of the same move as equal', () => {
+      expect(toUci(START_FEN, 'e4')).toBe('e2e4')
+      expect(movesEquivalent(START_FEN, 'e2e4', 'e4')).toBe(true)
+      expect(movesEquivalent(BACK_RANK_FEN, 'Ra8', 'a1a8')).toBe(true)
+    })
+
+    it('should tell different moves apart', () => {
+      expect(movesEquivalent(START_FEN, 'e4', 'd4')).toBe(false)
+    })
+
+    it('should fall back to notation when a move is not legal in the position', () => {
+      expect(movesEquivalent(START_FEN, 'Nxe5+', 'Nxe5')).toBe(true)
+    })
+  })
+
+  describe('isAcceptedMove', () => {
+    it('should accept any mate in mate puzzles', () => {
+      expect(isAcceptedMove(backRankMate, BACK_RANK_FEN, 'Ra8#', 'b1b8')).toBe(true)
+    })
+
+    it('should not accept other mates outside mate themes', () => {
+      expect(isAcceptedMove({ theme: 'fork' }, BACK_RANK_FEN, 'Ra8#', 'b1b8')).toBe(false)
+    })
+  })
+
+  describe('isSolutionLine', () => {
+    it('should accept the main line in any notation', () => {
+      expect(isSolutionLine(backRankMate, ['a1a8'])).toBe(true)
+      expect(isSolutionLine(backRankMate, ['Ra8'])).toBe(true)
+    })
+
+    it('should accept an equivalent mate', () => {
+      expect(isSolutionLine(backRankMate, ['Rb8#'])).toBe(true)
+    })
+
+    it('should reject non-mating moves', () => {
+      expect(isSolutionLine(backRankMate, ['Ra7'])).toBe(false)
+    })
+
+    it('should accept alternative lines', () => {
+      const puzzle = { fen: START_FEN, theme: 'opening', solution: ['e4'], alternatives: [['d4']] }
+
+      expect(isSolutionLine(puzzle, ['d2d4'])).toBe(true)
+      expect(isSolutionLine(puzzle, ['c4'])).toBe(false)
+    })
+
+    it('should require the fixed setup move before an alternative mate', () => {
+      const puzzle = {
+        fen: START_FEN,
+        theme: 'mateIn2',
+        firstMove: 'opponent' as const,
+        solution: ['f2f3', 'e7e5', 'g2g4', 'd8h4']
+      }
+
+      expect(isSolutionLine(puzzle, ['f3', 'e5', 'g4', 'Qh4#'])).toBe(true)
+      expect(isSolutionLine(puzzle, ['f3', 'e6', 'g4', 'Qh4#'])).toBe(true)
+      expect(isSolutionLine(puzzle, ['f4', 'e6', 'g4', 'Qh4#'])).toBe(false)
+    })
+  })
+})
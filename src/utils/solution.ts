@@ -0,0 +1,150 @@
+/**
+ * Chess Hawk Solution Equivalence
+ * Decides whether a played move or line counts as solving a puzzle
+ */
+
+import { Chess } from 'chess.js'
+import type { Puzzle } from '../stores/GameStore'
+
+type SolutionSource = Pick<Puzzle, 'fen' | 'theme' | 'solution' | 'firstMove' | 'alternatives'>
+
+const MATE_THEMES = ['mate', 'mateIn1', 'mateIn2']
+
+/**
+ * Whether any mating move should be accepted for the theme
+ */
+export function isMateTheme(theme: string): boolean {
+  return MATE_THEMES.includes(theme)
+}
+
+/**
+ * Strip check/mate markers and annotations so `Nxe5+`, `Nxe5#` and `Nxe5!?` compare equal.
+ * UCI moves are lower-cased (`e7e8Q` → `e7e8q`).
+ */
+export function normalizeMoveNotation(move: string): string {
+  const stripped = move.trim().replace(/[+#!?]+$/, '')
+  return /^[a-h][1-8][a-h][1-8][qrbnQRBN]?$/.test(stripped) ? stripped.toLowerCase() : stripped
+}
+
+/**
+ * Resolve a SAN or UCI move to UCI in the given position, or null if it is not legal there
+ */
+export function toUci(fen: string, move: string): string | null {
+  try {
+    return new Chess(fen).move(normalizeMoveNotation(move)).lan
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether two moves written in any notation are the same move in the given position.
+ * Falls back to comparing normalised notation when a move cannot be played there.
+ */
+export function movesEquivalent(fen: string, a: string, b: string): boolean {
+  const uciA = toUci(fen, a)
+  const uciB = toUci(fen, b)
+
+  if (uciA && uciB) {
+    return uciA === uciB
+  }
+  return normalizeMoveNotation(a) === normalizeMoveNotation(b)
+}
+
+/**
+ * The main solution line followed by any alternative lines
+ */
+export function getSolutionLines(puzzle: Pick<Puzzle, 'solution' | 'alternatives'>): string[][] {
+  return [puzzle.solution, ...(puzzle.alternatives || [])]
+}
+
+/**
+ * Check a single ply against the expected move, accepting any mate for mate themes
+ */
+export function isAcceptedMove(puzzle: Pick<Puzzle, 'theme'>, fen: string, expected: string, played: string): boolean {
+  if (movesEquivalent(fen, expected, played)) {
+    return true
+  }
+  return isMateTheme(puzzle.theme) && deliversMate(fen, played)
+}
+
+/**
+ * Whether the move is legal in the position and gives checkmate
+ */
+export function deliversMate(fen: string, move: string): boolean {
+  try {
+    const chess = new Chess(fen)
+    chess.move(normalizeMoveNotation(move))
+    return chess.isCheckmate()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate a complete line (same shape as `puzzle.solution`) against the puzzle.
+ * Matches the main line or any alternative ply by ply; for mate themes a
+ * legal line that ends in mate by the player is accepted as well.
+ */
+export function isSolutionLine(puzzle: SolutionSource, moves: string[]): boolean {
+  const matchesLine = getSolutionLines(puzzle).some(line =>
+    line.length === moves.length && lineMatches(puzzle.fen, line, moves)
+  )
+
+  if (matchesLine) {
+    return true
+  }
+  return isMateTheme(puzzle.theme) && endsInPlayerMate(puzzle, moves)
+}
+
+function lineMatches(fen: string, line: string[], moves: string[]): boolean {
+  let chess: Chess | null = createChess(fen)
+
+  return line.every((expected, index) => {
+    const played = moves[index] || ''
+    const matches = chess ? movesEquivalent(chess.fen(), expected, played) : normalizeMoveNotation(expected) === normalizeMoveNotation(played)
+
+    // Keep replaying while the line is legal; compare notation only once it is not
+    if (chess) {
+      try {
+        chess.move(normalizeMoveNotation(played))
+      } catch {
+        chess = null
+      }
+    }
+    return matches
+  })
+}
+
+function endsInPlayerMate(puzzle: SolutionSource, moves: string[]): boolean {
+  const chess = createChess(puzzle.fen)
+  if (!chess || moves.length === 0 || moves.length > puzzle.solution.length) {
+    return false
+  }
+
+  // The setup move is fixed - only the player's moves may deviate
+  if (puzzle.firstMove === 'opponent') {
+    const setup = puzzle.solution[0]
+    if (!setup || !moves[0] || !movesEquivalent(puzzle.fen, setup, moves[0])) {
+      return false
+    }
+  }
+
+  try {
+    moves.forEach(move => chess.move(normalizeMoveNotation(move)))
+  } catch {
+    return false
+  }
+
+  const playerPlyOffset = puzzle.firstMove === 'opponent' ? 1 : 0
+  const lastIsPlayers = (moves.length - 1 - playerPlyOffset) % 2 === 0
+  return lastIsPlayers && chess.isCheckmate()
+}
+
+function createChess(fen: string): Chess | null {
+  try {
+    return new Chess(fen)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Storage Tests
+ * Schema migrations and the persistence layer
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  MemoryStorageAdapter,
+  PersistentStorage,
+  runStorageMigrations,
+  STORAGE_KEYS,
+  STORAGE_MIGRATIONS,
+  type StorageMigration
+} from './storage'
+
+/**
+ * Minimal Web Storage stand-in for the legacy localStorage data
+ */
+function createLegacyStorage(entries: Record<string, string>): Storage {
+  const data = new Map(Object.entries(entries))
+  return {
+    get length() { return data.size },
+    key: (index: number) => Array.from(data.keys())[index] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value) },
+    removeItem: (key: string) => { data.delete(key) },
+    clear: () => data.clear()
+  }
+}
+
+const LATEST_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1]!.version
+
+describe('runStorageMigrations', () => {
+  it('moves legacy localStorage data into the primary store', async () => {
+    const storage = new MemoryStorageAdapter()
+    const legacy = createLegacyStorage({
+      'chesshawk-state': '{"playerScore":42}',
+      'chess-hawk-progress-user1': '{"userId":"user1"}',
+      'chess-hawk-settings-user1': '{"theme":"dark"}',
+      'unrelated-key': 'keep'
+    })
+
+    const version = await runStorageMigrations(storage, legacy)
+
+    expect(version).toBe(LATEST_VERSION)
+    expect(storage.getItem(STORAGE_KEYS.schemaVersion)).toBe(String(LATEST_VERSION))
+    expect(storage.getItem(STORAGE_KEYS.coreState)).toBe('{"playerScore":42}')
+    expect(storage.getItem(STORAGE_KEYS.progress('user1'))).toBe('{"userId":"user1"}')
+    expect(storage.getItem(STORAGE_KEYS.settings('user1'))).toBe('{"theme":"dark"}')
+    expect(legacy.length).toBe(1)
+    expect(legacy.getItem('unrelated-key')).toBe('keep')
+  })
+
+  it('renames the legacy core state key in place when there is no separate legacy store', async () => {
+    const storage = new MemoryStorageAdapter()
+    storage.setItem('chesshawk-state', '{"playerScore":7}')
+
+    await runStorageMigrations(storage, null)
+
+    expect(storage.getItem(STORAGE_KEYS.coreState)).toBe('{"playerScore":7}')
+    expect(storage.getItem('chesshawk-state')).toBeNull()
+  })
+
+  it('keeps the legacy data when a copy does not read back', async () => {
+    const storage = new MemoryStorageAdapter()
+    storage.setItem = vi.fn()
+    const legacy = createLegacyStorage({ 'chesshawk-state': '{"playerScore":42}', 'chess-hawk-progress-user1': 'old' })
+
+    await expect(runStorageMigrations(storage, legacy)).rejects.toThrow('could not copy')
+
+    expect(legacy.getItem(STORAGE_KEYS.coreState)).toBe('{"playerScore":42}')
+    expect(legacy.getItem(STORAGE_KEYS.progress('user1'))).toBe('old')
+  })
+
+  it('does not overwrite data already in the primary store', async () => {
+    const storage = new MemoryStorageAdapter()
+    storage.setItem(STORAGE_KEYS.progress('user1'), 'new')
+
+    await runStorageMigrations(storage, createLegacyStorage({ 'chess-hawk-progress-user1': 'old' }))
+
+    expect(storage.getItem(STORAGE_KEYS.progress('user1'))).toBe('new')
+  })
+
+  it('only runs migrations above the stored version, in order', async () => {
+    const storage = new MemoryStorageAdapter()
+    storage.setItem(STORAGE_KEYS.schemaVersion, '1')
+    const order: number[] = []
+    const migration = (version: number): StorageMigration => ({
+      version,
+      description: `step ${version}`,
+      migrate: vi.fn(async () => { order.push(version) })
+    })
+    const migrations = [migration(3), migration(1), migration(2)]
+
+    expect(await runStorageMigrations(storage, null, migrations)).toBe(3)
+    expect(order).toEqual([2, 3])
+
+    expect(await runStorageMigrations(storage, null, migrations)).toBe(3)
+    expect(order).toEqual([2, 3])
+  })
+})
+
+describe('PersistentStorage', () => {
+  it('migrates once before the first read', async () => {
+    const migrate = vi.fn(async (storage: MemoryStorageAdapter) => storage.setItem('chess-hawk-migrated', 'yes'))
+    const storage = new PersistentStorage({
+      adapter: new MemoryStorageAdapter(),
+      legacy: null,
+      migrations: [{ version: 1, description: 'test', migrate: migrate as StorageMigration['migrate'] }]
+    })
+
+    expect(await storage.getItem('chess-hawk-migrated')).toBe('yes')
+    await storage.getItem('chess-hawk-migrated')
+
+    expect(migrate).toHaveBeenCalledTimes(1)
+  })
+
+  it('round-trips JSON and throws on corrupt data', async () => {
+    const adapter = new MemoryStorageAdapter()
+    const storage = new PersistentStorage({ adapter, legacy: null })
+
+    await storage.setJSON('chess-hawk-test', { score: 3 })
+    expect(await storage.getJSON('chess-hawk-test')).toEqual({ score: 3 })
+    expect(await storage.getJSON('chess-hawk-missing')).toBeNull()
+
+    adapter.setItem('chess-hawk-test', 'not json')
+    await expect(storage.getJSON('chess-hawk-test')).rejects.toThrow()
+  })
+
+  it('falls back to the legacy localStorage when the adapter fails', async () => {
+    const broken = new MemoryStorageAdapter()
+    broken.getItem = vi.fn(() => Promise.reject(new Error('IndexedDB is unavailable')))
+    const legacy = createLegacyStorage({ 'chess-hawk-progress-user1': '{"userId":"user1"}' })
+    const storage = new PersistentStorage({ adapter: broken, legacy })
+
+    expect(await storage.getJSON(STORAGE_KEYS.progress('user1'))).toEqual({ userId: 'user1' })
+    await storage.setItem(STORAGE_KEYS.settings('user1'), '{}')
+
+    expect(legacy.getItem(STORAGE_KEYS.settings('user1'))).toBe('{}')
+    expect(legacy.getItem(STORAGE_KEYS.schemaVersion)).toBe(String(LATEST_VERSION))
+  })
+})
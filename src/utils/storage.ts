@@ -0,0 +1,293 @@
+/**
+ * Chess Hawk Storage
+ * Storage adapters and the versioned persistence layer behind progress, settings and history
+ */
+
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>
+  setItem(key: string, value: string): void | Promise<void>
+  removeItem(key: string): void | Promise<void>
+  clear(): void | Promise<void>
+}
+
+export class BrowserStorageAdapter implements StorageAdapter {
+  constructor(private storage: Storage = localStorage) {}
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key)
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value)
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key)
+  }
+
+  clear(): void {
+    this.storage.clear()
+  }
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private data: Map<string, string> = new Map()
+
+  getItem(key: string): string | null {
+    return this.data.get(key) || null
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, value)
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key)
+  }
+
+  clear(): void {
+    this.data.clear()
+  }
+}
+
+/**
+ * Key-value store in IndexedDB, for data that outgrows localStorage (attempt history)
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(
+    private dbName: string = 'chess-hawk',
+    private storeName: string = 'keyval',
+    private factory: IDBFactory = indexedDB
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request('readonly', store => store.get(key))
+    return typeof value === 'string' ? value : null
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key))
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key))
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear())
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.dbName, 1)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.db
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
+
+export const STORAGE_KEYS = {
+  schemaVersion: 'chess-hawk-schema-version',
+  coreState: 'chess-hawk-state', // legacy CoreManager score and counters
+  gameStore: 'chess-hawk-game', // persisted GameStore slice
+  progress: (userId: string) => `chess-hawk-progress-${userId}`,
+  settings: (userId: string) => `chess-hawk-settings-${userId}`,
+  attempts: (userId: string) => `chess-hawk-attempts-${userId}`,
+  receipts: (userId: string) => `chess-hawk-receipts-${userId}`, // graded submissions by attempt id
+  outbox: 'chess-hawk-outbox', // writes waiting for the puzzle API
+  outboxDeadLetters: 'chess-hawk-outbox-dead' // writes the puzzle API kept failing on
+}
+
+const LEGACY_CORE_STATE_KEY = 'chesshawk-state'
+const KEY_PREFIX = 'chess-hawk-'
+
+/**
+ * One schema step. `legacy` is the localStorage holding data from before the
+ * persistence layer, or null when the adapter already is localStorage.
+ */
+export interface StorageMigration {
+  version: number
+  description: string
+  migrate(storage: StorageAdapter, legacy: Storage | null): Promise<void>
+}
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Rename the CoreManager state key to the chess-hawk- prefix',
+    async migrate(storage, legacy) {
+      // Renamed where it lives, so a legacy store keeps it until version 2 has copied it
+      if (legacy) {
+        const state = legacy.getItem(LEGACY_CORE_STATE_KEY)
+        if (state && !legacy.getItem(STORAGE_KEYS.coreState)) legacy.setItem(STORAGE_KEYS.coreState, state)
+        legacy.removeItem(LEGACY_CORE_STATE_KEY)
+        return
+      }
+
+      const state = await storage.getItem(LEGACY_CORE_STATE_KEY)
+      if (state && !(await storage.getItem(STORAGE_KEYS.coreState))) {
+        await storage.setItem(STORAGE_KEYS.coreState, state)
+      }
+      await storage.removeItem(LEGACY_CORE_STATE_KEY)
+    }
+  },
+  {
+    version: 2,
+    description: 'Move progress and settings from localStorage into the primary store',
+    async migrate(storage, legacy) {
+      if (!legacy) return
+
+      const keys: string[] = []
+      for (let i = 0; i < legacy.length; i++) {
+        const key = legacy.key(i)
+        if (key?.startsWith(KEY_PREFIX) && key !== STORAGE_KEYS.schemaVersion) keys.push(key)
+      }
+
+      for (const key of keys) {
+        const value = legacy.getItem(key)
+        if (value !== null && !(await storage.getItem(key))) {
+          await storage.setItem(key, value)
+        }
+      }
+
+      // Legacy data is only removed once every key reads back from the primary store
+      for (const key of keys) {
+        if (legacy.getItem(key) !== null && !(await storage.getItem(key))) {
+          throw new Error(`Storage migration could not copy ${key}`)
+        }
+      }
+      keys.forEach(key => legacy.removeItem(key))
+    }
+  }
+]
+
+/**
+ * Run the migrations above the stored schema version, in order, and record the new version
+ */
+export async function runStorageMigrations(
+  storage: StorageAdapter,
+  legacy: Storage | null,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): Promise<number> {
+  const current = Number(await storage.getItem(STORAGE_KEYS.schemaVersion)) || 0
+  const pending = migrations
+    .filter(migration => migration.version > current)
+    .sort((a, b) => a.version - b.version)
+
+  for (const migration of pending) {
+    await migration.migrate(storage, legacy)
+    await storage.setItem(STORAGE_KEYS.schemaVersion, String(migration.version))
+  }
+
+  return pending.length > 0 ? pending[pending.length - 1]!.version : current
+}
+
+/**
+ * IndexedDB where available, then localStorage, then memory
+ */
+export function createPersistentAdapter(): StorageAdapter {
+  if (typeof indexedDB !== 'undefined') return new IndexedDBStorageAdapter()
+  if (typeof localStorage !== 'undefined') return new BrowserStorageAdapter(localStorage)
+  return new MemoryStorageAdapter()
+}
+
+export interface PersistentStorageOptions {
+  adapter?: StorageAdapter // defaults to createPersistentAdapter()
+  legacy?: Storage | null // defaults to localStorage unless the adapter already uses it
+  migrations?: StorageMigration[]
+}
+
+/**
+ * The single persistence layer. The adapter is picked and migrated on first use,
+ * so creating one at import time is safe in any environment.
+ */
+export class PersistentStorage implements StorageAdapter {
+  private ready: Promise<StorageAdapter> | null = null
+
+  constructor(private options: PersistentStorageOptions = {}) {}
+
+  open(): Promise<StorageAdapter> {
+    if (!this.ready) {
+      this.ready = this.initialize()
+    }
+    return this.ready
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return (await (await this.open()).getItem(key)) ?? null
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await (await this.open()).setItem(key, value)
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await (await this.open()).removeItem(key)
+  }
+
+  async clear(): Promise<void> {
+    await (await this.open()).clear()
+  }
+
+  /**
+   * Parsed value, or null when missing. Throws on corrupt JSON.
+   */
+  async getJSON<T>(key: string): Promise<T | null> {
+    const stored = await this.getItem(key)
+    return stored ? JSON.parse(stored) as T : null
+  }
+
+  async setJSON(key: string, value: unknown): Promise<void> {
+    await this.setItem(key, JSON.stringify(value))
+  }
+
+  /**
+   * Migrate the adapter. If that fails, e.g. because IndexedDB can't be opened,
+   * the legacy localStorage still holds the data and is used instead.
+   */
+  private async initialize(): Promise<StorageAdapter> {
+    const adapter = this.options.adapter || createPersistentAdapter()
+    const legacy = this.options.legacy !== undefined
+      ? this.options.legacy
+      : adapter instanceof BrowserStorageAdapter || typeof localStorage === 'undefined' ? null : localStorage
+
+    try {
+      await runStorageMigrations(adapter, legacy, this.options.migrations)
+      return adapter
+    } catch (error) {
+      console.warn('Storage migration failed:', error)
+    }
+
+    if (!legacy) return adapter
+
+    const fallback = new BrowserStorageAdapter(legacy)
+    try {
+      await runStorageMigrations(fallback, null, this.options.migrations)
+    } catch (error) {
+      console.warn('Storage migration failed:', error)
+    }
+    return fallback
+  }
+}
+
+// Shared instance used by LocalPuzzleService, GameStore and CoreManager
+export const persistentStorage = new PersistentStorage()
@@ -0,0 +1,92 @@
+/**
+ * Puzzle Validation Tests
+ * Legality replay, side to move and mate checks
+ */
+
+import { describe, it, expect } from 'vitest'
+import { validatePuzzleLegality, validatePuzzleCollection } from './validation'
+
+const ITALIAN_FEN = 'r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3'
+const SCHOLARS_FEN = 'r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 2 3'
+const BACK_RANK_FEN = '6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1'
+
+describe('validatePuzzleLegality', () => {
+  it('accepts a legal line', () => {
+    expect(validatePuzzleLegality({ id: 'p1', theme: 'fork', fen: ITALIAN_FEN, solution: ['Nf6', 'Ng5'] })).toEqual([])
+  })
+
+  it('reports missing data and unloadable FENs', () => {
+    expect(validatePuzzleLegality({ id: 'p1', theme: 'fork', fen: '', solution: ['e4'] })[0]?.code).toBe('missing_fen')
+    expect(validatePuzzleLegality({ id: 'p1', theme: 'fork', fen: ITALIAN_FEN, solution: [] })[0]?.code).toBe('missing_solution')
+    expect(validatePuzzleLegality({ id: 'p1', theme: 'fork', fen: '8/8/8 w - - 0 1', solution: ['e4'] })[0]?.code).toBe('invalid_fen')
+  })
+
+  it('reports the first illegal move with its ply', () => {
+    const issues = validatePuzzleLegality({ id: 'p1', theme: 'fork', fen: ITALIAN_FEN, solution: ['Nf6', 'Bxf8'] })
+
+    expect(issues).toEqual([expect.objectContaining({ code: 'illegal_move', line: 0, ply: 1, move: 'Bxf8' })])
+  })
+
+  it('checks alternative lines too', () => {
+    const issues = validatePuzzleLegality({
+      id: 'p1', theme: 'fork', fen: ITALIAN_FEN, solution: ['Nf6'], alternatives: [['Qd4']]
+    })
+
+    expect(issues).toEqual([expect.objectContaining({ code: 'illegal_move', line: 1, move: 'Qd4' })])
+  })
+
+  it('flags positions where the side not to move is in check', () => {
+    // Black king on e8 attacked by the queen on e2, yet white is to move
+    const issues = validatePuzzleLegality({ id: 'p1', theme: 'pin', fen: '4k3/8/8/8/8/8/4Q3/4K3 w - - 0 1', solution: ['Qe7+'] })
+
+    expect(issues.map(issue => issue.code)).toContain('side_to_move')
+  })
+
+  it('accepts mate puzzles that end in mate by the player', () => {
+    expect(validatePuzzleLegality({ id: 'm1', theme: 'mateIn1', fen: SCHOLARS_FEN, solution: ['Qxf7#'] })).toEqual([])
+    expect(validatePuzzleLegality({ id: 'm2', theme: 'mate', fen: BACK_RANK_FEN, solution: ['Ra8#'] })).toEqual([])
+  })
+
+  it('rejects mate puzzles that do not mate', () => {
+    const issues = validatePuzzleLegality({ id: 'm1', theme: 'mateIn1', fen: SCHOLARS_FEN, solution: ['Qxe5+'] })
+
+    expect(issues[0]?.code).toBe('no_mate')
+  })
+
+  it('rejects mate puzzles with the wrong number of player moves', () => {
+    const issues = validatePuzzleLegality({
+      id: 'm2', theme: 'mateIn2', fen: BACK_RANK_FEN, solution: ['Ra8#']
+    })
+
+    expect(issues[0]).toEqual(expect.objectContaining({ code: 'wrong_mate_length', message: 'mateIn2 line mates in 1 moves' }))
+  })
+
+  it('counts player moves after the opponent setup move', () => {
+    const fen = '6k1/5ppp/8/8/8/1p6/8/R5K1 b - - 0 1'
+
+    expect(validatePuzzleLegality({ id: 'm1', theme: 'mateIn1', fen, firstMove: 'opponent', solution: ['b2', 'Ra8#'] })).toEqual([])
+    expect(validatePuzzleLegality({ id: 'm2', theme: 'mateIn2', fen, firstMove: 'opponent', solution: ['b2', 'Ra8#'] })[0]?.code).toBe('wrong_mate_length')
+  })
+
+  it('rejects moves played after mate', () => {
+    const issues = validatePuzzleLegality({ id: 'm1', theme: 'fork', fen: SCHOLARS_FEN, solution: ['Qxf7#', 'Kxf7'] })
+
+    expect(issues[0]).toEqual(expect.objectContaining({ code: 'moves_after_mate', ply: 1 }))
+  })
+})
+
+describe('validatePuzzleCollection', () => {
+  it('lists broken puzzle ids with reasons and counts issues by code', () => {
+    const report = validatePuzzleCollection([
+      { id: 'ok', theme: 'mateIn1', fen: SCHOLARS_FEN, solution: ['Qxf7#'] },
+      { id: 'bad_move', theme: 'fork', fen: ITALIAN_FEN, solution: ['Nxe5'] },
+      { id: 'bad_mate', theme: 'mateIn1', fen: SCHOLARS_FEN, solution: ['Qxe5+'] }
+    ], new Date('2025-01-01T12:00:00.000Z'))
+
+    expect(report.checkedAt).toBe('2025-01-01T12:00:00.000Z')
+    expect(report.total).toBe(3)
+    expect(report.valid).toBe(1)
+    expect(report.broken.map(puzzle => puzzle.id)).toEqual(['bad_move', 'bad_mate'])
+    expect(report.issueCounts).toEqual({ illegal_move: 1, no_mate: 1 })
+  })
+})
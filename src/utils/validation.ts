@@ -0,0 +1,158 @@
+/**
+ * Chess Hawk Puzzle Validation
+ * Deep checks that replay every puzzle with chess.js
+ */
+
+import { Chess } from 'chess.js'
+import type { Puzzle } from '../stores/GameStore'
+import { isMateTheme, normalizeMoveNotation } from './solution'
+
+type ValidatedPuzzle = Pick<Puzzle, 'id' | 'fen' | 'theme' | 'solution'> & Partial<Pick<Puzzle, 'firstMove' | 'alternatives'>>
+
+export type PuzzleIssueCode =
+  | 'missing_fen'
+  | 'missing_solution'
+  | 'invalid_fen'
+  | 'side_to_move' // the side not to move is in check
+  | 'illegal_move'
+  | 'moves_after_mate'
+  | 'no_mate'
+  | 'wrong_mate_length'
+
+export interface PuzzleIssue {
+  code: PuzzleIssueCode
+  message: string
+  line?: number // 0 = main solution, 1+ = alternatives
+  ply?: number // 0-based index into the line
+  move?: string
+}
+
+export interface BrokenPuzzle {
+  id: string
+  theme: string
+  issues: PuzzleIssue[]
+}
+
+export interface PuzzleValidationReport {
+  checkedAt: string
+  total: number
+  valid: number
+  broken: BrokenPuzzle[]
+  issueCounts: Partial<Record<PuzzleIssueCode, number>>
+}
+
+// Player moves expected before mate
+const MATE_LENGTHS: Record<string, number> = {
+  mateIn1: 1,
+  mateIn2: 2
+}
+
+/**
+ * Load the FEN, play every move of the solution and alternative lines, and
+ * check mate themes end in mate by the player in the right number of moves
+ */
+export function validatePuzzleLegality(puzzle: ValidatedPuzzle): PuzzleIssue[] {
+  if (!puzzle.fen) return [{ code: 'missing_fen', message: 'Puzzle has no FEN' }]
+  if (!puzzle.solution || puzzle.solution.length === 0) {
+    return [{ code: 'missing_solution', message: 'Puzzle has no solution moves' }]
+  }
+
+  let chess: Chess
+  try {
+    chess = new Chess(puzzle.fen)
+  } catch (error) {
+    return [{ code: 'invalid_fen', message: `Invalid FEN: ${error instanceof Error ? error.message : error}` }]
+  }
+
+  const issues: PuzzleIssue[] = []
+  if (isOpponentInCheck(puzzle.fen)) {
+    issues.push({
+      code: 'side_to_move',
+      message: `${chess.turn() === 'w' ? 'White' : 'Black'} to move while the opponent is in check`
+    })
+  }
+
+  const lines = [puzzle.solution, ...(puzzle.alternatives || [])]
+  lines.forEach((line, index) => issues.push(...validateLine(puzzle, line, index)))
+
+  return issues
+}
+
+/**
+ * Validate every puzzle and list the broken ones with their reasons
+ */
+export function validatePuzzleCollection(puzzles: ValidatedPuzzle[], now: Date = new Date()): PuzzleValidationReport {
+  const broken: BrokenPuzzle[] = []
+  const issueCounts: Partial<Record<PuzzleIssueCode, number>> = {}
+
+  for (const puzzle of puzzles) {
+    const issues = validatePuzzleLegality(puzzle)
+    if (issues.length === 0) continue
+
+    broken.push({ id: puzzle.id, theme: puzzle.theme, issues })
+    issues.forEach(issue => {
+      issueCounts[issue.code] = (issueCounts[issue.code] || 0) + 1
+    })
+  }
+
+  return {
+    checkedAt: now.toISOString(),
+    total: puzzles.length,
+    valid: puzzles.length - broken.length,
+    broken,
+    issueCounts
+  }
+}
+
+function validateLine(puzzle: ValidatedPuzzle, line: string[], lineIndex: number): PuzzleIssue[] {
+  const chess = new Chess(puzzle.fen)
+  const offset = puzzle.firstMove === 'opponent' ? 1 : 0
+
+  for (let ply = 0; ply < line.length; ply++) {
+    const move = line[ply] || ''
+
+    if (chess.isCheckmate()) {
+      return [{ code: 'moves_after_mate', message: `Line continues after checkmate at ply ${ply}`, line: lineIndex, ply, move }]
+    }
+
+    try {
+      chess.move(normalizeMoveNotation(move))
+    } catch {
+      return [{ code: 'illegal_move', message: `Illegal move ${move} in ${chess.fen()}`, line: lineIndex, ply, move }]
+    }
+  }
+
+  if (!isMateTheme(puzzle.theme)) return []
+
+  const lastIsPlayers = (line.length - 1 - offset) % 2 === 0
+  if (!chess.isCheckmate() || !lastIsPlayers) {
+    return [{ code: 'no_mate', message: `${puzzle.theme} line does not end in checkmate by the player`, line: lineIndex }]
+  }
+
+  const expected = MATE_LENGTHS[puzzle.theme]
+  const playerMoves = Math.ceil((line.length - offset) / 2)
+  if (expected !== undefined && playerMoves !== expected) {
+    return [{
+      code: 'wrong_mate_length',
+      message: `${puzzle.theme} line mates in ${playerMoves} moves`,
+      line: lineIndex
+    }]
+  }
+
+  return []
+}
+
+/**
+ * A position is inconsistent when the side that just moved is still in check
+ */
+function isOpponentInCheck(fen: string): boolean {
+  const parts = fen.split(' ')
+  parts[1] = parts[1] === 'w' ? 'b' : 'w'
+  parts[3] = '-'
+
+  try {
+    return new Chess(parts.join(' ')).isCheck()
+  } catch {
+    return false
+  }
+}
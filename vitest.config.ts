@@ -16,6 +16,7 @@ export default defineConfig({
     include: [
       'src/**/*.test.ts',
       'src/**/*.spec.ts',
+      'server/**/*.test.ts',
       'tests/**/*.test.ts',
       'tests/**/*.spec.ts'
     ],